@@ -10,6 +10,10 @@ import { Layout } from "@/components/Layout";
 import Landing from "@/pages/Landing";
 import Dashboard from "@/pages/Dashboard";
 import Expenses from "@/pages/Expenses";
+import Accounts from "@/pages/Accounts";
+import Budgets from "@/pages/Budgets";
+import Analytics from "@/pages/Analytics";
+import Goals from "@/pages/Goals";
 import Settings from "@/pages/Settings";
 import OnboardingWizard from "@/pages/OnboardingWizard";
 import NotFound from "@/pages/not-found";
@@ -49,24 +53,10 @@ function Router() {
           <>
             <Route path="/" component={Dashboard} />
             <Route path="/expenses" component={Expenses} />
-            <Route path="/budgets">
-              <div className="text-center py-12">
-                <h2 className="text-2xl font-bold text-foreground mb-4">Budgets</h2>
-                <p className="text-muted-foreground">Budget management coming soon!</p>
-              </div>
-            </Route>
-            <Route path="/analytics">
-              <div className="text-center py-12">
-                <h2 className="text-2xl font-bold text-foreground mb-4">Analytics</h2>
-                <p className="text-muted-foreground">Advanced analytics coming soon!</p>
-              </div>
-            </Route>
-            <Route path="/goals">
-              <div className="text-center py-12">
-                <h2 className="text-2xl font-bold text-foreground mb-4">Goals</h2>
-                <p className="text-muted-foreground">Goal tracking coming soon!</p>
-              </div>
-            </Route>
+            <Route path="/accounts" component={Accounts} />
+            <Route path="/budgets" component={Budgets} />
+            <Route path="/analytics" component={Analytics} />
+            <Route path="/goals" component={Goals} />
             <Route path="/settings" component={Settings} />
           </>
         ) : (
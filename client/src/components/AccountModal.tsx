@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Account, User } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account?: Account | null;
+}
+
+interface Currency {
+  code: string;
+  name: string;
+  symbol: string;
+}
+
+export const ACCOUNT_TYPES = ["checking", "savings", "credit_card", "cash", "investment", "other"];
+
+export function AccountModal({ isOpen, onClose, account }: AccountModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [type, setType] = useState("checking");
+  const [currency, setCurrency] = useState("USD");
+  const [openingBalance, setOpeningBalance] = useState("0");
+
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+  });
+
+  const { data: currencies } = useQuery<Currency[]>({
+    queryKey: ["/api/currencies"],
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(account?.name || "");
+    setType(account?.type || "checking");
+    setCurrency(account?.currency || user?.currency || "USD");
+    setOpeningBalance(account?.openingBalance || "0");
+  }, [isOpen, account]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name, type, currency, openingBalance: String(Number(openingBalance) || 0) };
+      const response = account
+        ? await apiRequest("PATCH", `/api/accounts/${account.id}`, data)
+        : await apiRequest("POST", "/api/accounts", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: t("common.success"),
+        description: account ? "Account updated" : "Account created",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{account ? t("accounts.edit") : t("accounts.addNew")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="account-name">{t("accounts.name")}</Label>
+            <Input
+              id="account-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Main checking, Visa, Wallet..."
+              data-testid="input-account-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t("accounts.type")}</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger data-testid="select-account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`accounts.types.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t("settings.currency")}</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger data-testid="select-account-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(currencies || [{ code: currency, name: currency, symbol: "" }]).map((item) => (
+                    <SelectItem key={item.code} value={item.code}>
+                      {item.code} - {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="account-opening-balance">{t("accounts.openingBalance")}</Label>
+            <Input
+              id="account-opening-balance"
+              type="number"
+              step="0.01"
+              value={openingBalance}
+              onChange={(e) => setOpeningBalance(e.target.value)}
+              data-testid="input-account-opening-balance"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-account">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-account"
+            >
+              {saveMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Budget, User } from "@shared/schema";
+import { calendarOf, dayKey, localDay, periodStart } from "@shared/periods";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface BudgetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budget?: Budget | null;
+}
+
+export const BUDGET_PERIODS = ["weekly", "monthly", "yearly"];
+export const ROLLOVER_MODES = ["none", "surplus", "surplus_and_deficit"];
+
+// "50, 80, 100" -> [50, 80, 100]; an empty field turns alerts off
+const parseThresholds = (value: string) =>
+  value.split(",").map((item) => item.trim()).filter(Boolean).map(Number);
+
+// Local calendar day of a date, as used by <input type="date">
+const toDateInput = (value: Date | string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+export function BudgetModal({ isOpen, onClose, budget }: BudgetModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("all");
+  const [amount, setAmount] = useState("");
+  const [period, setPeriod] = useState("monthly");
+  const [startDate, setStartDate] = useState(toDateInput(new Date()));
+  const [endDate, setEndDate] = useState("");
+  const [rolloverMode, setRolloverMode] = useState("none");
+  const [rolloverCap, setRolloverCap] = useState("");
+  const [alertThresholds, setAlertThresholds] = useState("50, 80, 100");
+
+  const categories = [
+    { value: "food", label: t("categories.food") },
+    { value: "transport", label: t("categories.transport") },
+    { value: "entertainment", label: t("categories.entertainment") },
+    { value: "shopping", label: t("categories.shopping") },
+    { value: "utilities", label: t("categories.utilities") },
+    { value: "healthcare", label: t("categories.healthcare") },
+    { value: "education", label: t("categories.education") },
+    { value: "other", label: t("categories.other") },
+  ];
+
+  // First day of the user's current week, month or year, so a new budget follows their pay cycle
+  const cycleStart = (budgetPeriod: string) => {
+    const { timeZone, ...cycles } = calendarOf(user);
+    const granularity = budgetPeriod === "weekly" ? "week" : budgetPeriod === "yearly" ? "year" : "month";
+    return dayKey(periodStart(localDay(new Date(), timeZone), granularity, cycles));
+  };
+
+  const handlePeriodChange = (value: string) => {
+    setPeriod(value);
+    if (!budget) setStartDate(cycleStart(value));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(budget?.name || "");
+    setCategory(budget?.category || "all");
+    setAmount(budget?.amount || "");
+    setPeriod(budget?.period || "monthly");
+    setStartDate(budget ? toDateInput(budget.startDate) : cycleStart("monthly"));
+    setEndDate(budget?.endDate ? toDateInput(budget.endDate) : "");
+    setRolloverMode(budget?.rolloverMode || "none");
+    setRolloverCap(budget?.rolloverCap || "");
+    setAlertThresholds((budget?.alertThresholds ?? [50, 80, 100]).join(", "));
+  }, [isOpen, budget]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Dates are sent as local midnight so periods start on the day the user picked
+      const data = {
+        name,
+        category: category === "all" ? null : category,
+        amount,
+        period,
+        startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+        endDate: endDate ? new Date(`${endDate}T00:00:00`).toISOString() : null,
+        rolloverMode,
+        rolloverCap: rolloverMode !== "none" && rolloverCap ? rolloverCap : null,
+        alertThresholds: Array.from(new Set(parseThresholds(alertThresholds))).sort((a, b) => a - b),
+      };
+      const response = budget
+        ? await apiRequest("PATCH", `/api/budgets/${budget.id}`, data)
+        : await apiRequest("POST", "/api/budgets", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: t("common.success"),
+        description: budget ? "Budget updated" : "Budget created",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = name.trim() && Number(amount) > 0 && startDate && (!endDate || endDate >= startDate)
+    && (!rolloverCap || Number(rolloverCap) > 0)
+    && parseThresholds(alertThresholds).every((value) => Number.isInteger(value) && value >= 1 && value <= 1000);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{budget ? t("budgets.edit") : t("budgets.addNew")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="budget-name">{t("budgets.name")}</Label>
+            <Input
+              id="budget-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Groceries, Going out, Everything..."
+              data-testid="input-budget-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="budget-amount">{t("budgets.amount")}</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-budget-amount"
+              />
+            </div>
+            <div>
+              <Label>{t("budgets.period")}</Label>
+              <Select value={period} onValueChange={handlePeriodChange}>
+                <SelectTrigger data-testid="select-budget-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUDGET_PERIODS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`recurring.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>{t("budgets.category")}</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-budget-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("budgets.allCategories")}</SelectItem>
+                {categories.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="budget-start">{t("budgets.startDate")}</Label>
+              <Input
+                id="budget-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-budget-start-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="budget-end">{t("budgets.endDate")}</Label>
+              <Input
+                id="budget-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-budget-end-date"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t("budgets.rollover")}</Label>
+              <Select value={rolloverMode} onValueChange={setRolloverMode}>
+                <SelectTrigger data-testid="select-budget-rollover">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLLOVER_MODES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`budgets.rolloverModes.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="budget-rollover-cap">{t("budgets.rolloverCap")}</Label>
+              <Input
+                id="budget-rollover-cap"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={t("budgets.noCap")}
+                value={rolloverCap}
+                disabled={rolloverMode === "none"}
+                onChange={(e) => setRolloverCap(e.target.value)}
+                data-testid="input-budget-rollover-cap"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="budget-alert-thresholds">{t("budgets.alertThresholds")}</Label>
+            <Input
+              id="budget-alert-thresholds"
+              value={alertThresholds}
+              onChange={(e) => setAlertThresholds(e.target.value)}
+              placeholder="50, 80, 100"
+              data-testid="input-budget-alert-thresholds"
+            />
+            <p className="text-xs text-muted-foreground mt-1">{t("budgets.alertThresholdsHint")}</p>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-budget">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-save-budget"
+            >
+              {saveMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
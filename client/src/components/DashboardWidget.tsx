@@ -1,6 +1,7 @@
 import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { useFormatters } from "@/hooks/useFormatters";
 import { LucideIcon } from "lucide-react";
 
 interface DashboardWidgetProps {
@@ -27,6 +28,8 @@ export function DashboardWidget({
   onClick,
   children,
 }: DashboardWidgetProps) {
+  const { formatNumber, formatPercent } = useFormatters();
+
   const borderColor = {
     positive: "border-success/20",
     negative: "border-destructive/20",
@@ -70,14 +73,14 @@ export function DashboardWidget({
                 "text-sm px-2 py-1 rounded-full",
                 changeColor[trend]
               )}>
-                {change.value > 0 ? "+" : ""}{change.value.toFixed(1)}%
+                {formatPercent(change.value, { signed: true, fractionDigits: 1 })}
               </span>
             </div>
           )}
         </div>
         <h3 className="text-sm font-medium text-muted-foreground mb-1">{title}</h3>
         <p className="text-3xl font-bold text-foreground" data-testid={`value-${title.toLowerCase().replace(/\s+/g, '-')}`}>
-          {typeof value === "number" ? value.toLocaleString() : value}
+          {typeof value === "number" ? formatNumber(value) : value}
         </p>
         {change && (
           <p className="text-sm text-muted-foreground mt-1">{change.label}</p>
@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Expense } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Copy, Merge, X } from "lucide-react";
+
+interface DuplicateMatch {
+  expenseId: string;
+  description: string;
+  amount: string;
+  date: string;
+  score: number;
+  reasons: string[];
+}
+
+interface DuplicatePair {
+  expense: Expense;
+  match: DuplicateMatch;
+}
+
+export function DuplicateReview() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pairs } = useQuery<DuplicatePair[]>({
+    queryKey: ["/api/expenses/duplicates"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (pair: DuplicatePair) => {
+      await apiRequest("POST", "/api/expenses/duplicates/merge", {
+        keepId: pair.expense.id,
+        duplicateId: pair.match.expenseId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: t("common.success"),
+        description: "Duplicate merged",
+      });
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (pair: DuplicatePair) => {
+      await apiRequest("POST", "/api/expenses/duplicates/dismiss", {
+        expenseId: pair.expense.id,
+        duplicateId: pair.match.expenseId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/duplicates"] });
+    },
+    onError,
+  });
+
+  if (!pairs || pairs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-destructive/20" data-testid="card-duplicate-review">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Copy className="w-5 h-5" />
+          <span>{t("duplicates.title")} ({pairs.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pairs.map((pair) => (
+          <div
+            key={`${pair.expense.id}-${pair.match.expenseId}`}
+            className="flex flex-col md:flex-row md:items-center justify-between p-4 bg-muted rounded-lg space-y-3 md:space-y-0"
+            data-testid={`duplicate-pair-${pair.expense.id}-${pair.match.expenseId}`}
+          >
+            <div>
+              <p className="font-medium text-foreground">
+                {pair.expense.description} · {pair.match.description}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {new Date(pair.expense.date).toLocaleDateString()} / {new Date(pair.match.date).toLocaleDateString()} · {pair.match.reasons.join(", ")}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => mergeMutation.mutate(pair)}
+                disabled={mergeMutation.isPending}
+                className="flex items-center space-x-1"
+                data-testid={`button-merge-duplicate-${pair.match.expenseId}`}
+              >
+                <Merge className="w-4 h-4" />
+                <span>{t("duplicates.merge")}</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => dismissMutation.mutate(pair)}
+                disabled={dismissMutation.isPending}
+                className="flex items-center space-x-1"
+                data-testid={`button-dismiss-duplicate-${pair.match.expenseId}`}
+              >
+                <X className="w-4 h-4" />
+                <span>{t("duplicates.dismiss")}</span>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
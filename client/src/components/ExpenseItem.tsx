@@ -3,6 +3,7 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { Button } from "@/components/ui/button";
 import { Edit, Copy, Trash2, MapPin, Star, FileText, Eye } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useFormatters } from "@/hooks/useFormatters";
 
 interface ExpenseItemProps {
   expense: Expense;
@@ -14,17 +15,16 @@ interface ExpenseItemProps {
 
 export function ExpenseItem({ expense, onEdit, onDelete, onDuplicate, onClick }: ExpenseItemProps) {
   const { t } = useLanguage();
+  const { formatMoney, formatDate } = useFormatters();
 
-  const formatAmount = (amount: string | number, type: string) => {
-    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    const sign = type === 'expense' ? '-' : '+';
-    return `${sign}$${numAmount.toFixed(2)}`;
+  const formatAmount = (amount: string | number, type: string, currency?: string | null) => {
+    const numAmount = Math.abs(Number(amount));
+    // Transfers only move money between accounts, so they carry no sign
+    if (type === 'transfer') return formatMoney(numAmount, { currency });
+    return formatMoney(type === 'expense' ? -numAmount : numAmount, { currency, signed: true });
   };
 
-  const formatDate = (date: Date | string) => {
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    return dateObj.toLocaleDateString();
-  };
+  const isForeignCurrency = !!expense.exchangeRate && Number(expense.exchangeRate) !== 1;
 
   const getCategoryIcon = (category: string) => {
     const icons: Record<string, string> = {
@@ -35,6 +35,7 @@ export function ExpenseItem({ expense, onEdit, onDelete, onDuplicate, onClick }:
       utilities: "⚡",
       healthcare: "🏥",
       education: "📚",
+      transfer: "🔁",
       other: "📝"
     };
     return icons[category] || "📝";
@@ -154,12 +155,19 @@ export function ExpenseItem({ expense, onEdit, onDelete, onDuplicate, onClick }:
         <p 
           className={cn(
             "font-bold text-lg",
-            expense.type === "expense" ? "text-destructive" : "text-success"
+            expense.type === "expense" ? "text-destructive" : expense.type === "transfer" ? "text-foreground" : "text-success"
           )}
           data-testid={`text-expense-amount-${expense.id}`}
         >
-          {formatAmount(expense.amount, expense.type)}
+          {expense.normalizedAmount !== null
+            ? formatAmount(expense.normalizedAmount, expense.type)
+            : formatAmount(expense.amount, expense.type, expense.currency)}
         </p>
+        {isForeignCurrency && expense.currency && (
+          <p className="text-xs text-muted-foreground" data-testid={`text-expense-original-amount-${expense.id}`}>
+            {formatMoney(expense.amount, { currency: expense.currency })}
+          </p>
+        )}
 
         <div className="flex items-center space-x-2 mt-2">
           {expense.receiptUrl && (
@@ -1,29 +1,93 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertExpenseSchema, type InsertExpense } from "@shared/schema";
+import { insertExpenseSchema, type Account, type User } from "@shared/schema";
+import { getMinorUnits, hasValidMinorUnits, type CurrencyInfo } from "@shared/currencies";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { X, Camera, MapPin, Star } from "lucide-react";
+import { X, Camera, MapPin, Star, Plus, Split, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+interface SplitRow {
+  category: string;
+  amount: string;
+  notes: string;
+}
+
+interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  date: string;
+  description: string;
+}
+
+interface Currency extends CurrencyInfo {
+  rate: number | null;
+}
+
 interface ExpenseModalProps {
   isOpen: boolean;
   onClose: () => void;
   expense?: any;
 }
 
-const formSchema = insertExpenseSchema.extend({
-  amount: insertExpenseSchema.shape.amount.transform(val => val.toString()),
-  date: insertExpenseSchema.shape.date.transform(val => val.toISOString().split('T')[0]),
+// Values stay as the raw input strings; they are converted when the request is built
+const formSchema = insertExpenseSchema
+  .omit({ userId: true, amount: true, date: true, tags: true })
+  .extend({
+    amount: z.string().min(1, "Amount is required"),
+    date: z.string().min(1, "Date is required"),
+    tags: z.string().optional(),
+    toAccountId: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type !== "transfer") {
+      if (data.currency && !hasValidMinorUnits(data.amount, data.currency)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["amount"],
+          message: `${data.currency} amounts allow at most ${getMinorUnits(data.currency)} decimal places`,
+        });
+      }
+      if (!data.category) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["category"], message: "Category is required" });
+      }
+      return;
+    }
+    if (!data.accountId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["accountId"], message: "Choose the account to move money from" });
+    }
+    if (!data.toAccountId || data.toAccountId === data.accountId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toAccountId"], message: "Choose a different account to move money to" });
+    }
+  });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const toFormValues = (expense?: any, transfer?: Transfer, defaultCurrency = "USD") => ({
+  amount: transfer?.amount || expense?.amount || "",
+  currency: expense?.currency || defaultCurrency,
+  type: transfer ? "transfer" : expense?.type || "expense",
+  description: transfer?.description || expense?.description || "",
+  category: transfer ? "" : expense?.category || "",
+  date: expense?.date ? new Date(expense.date).toISOString().split('T')[0] : today(),
+  location: expense?.location || "",
+  mood: expense?.mood || "",
+  tags: expense?.tags?.join(", ") || "",
+  rating: expense?.rating || 0,
+  accountId: transfer?.fromAccountId || expense?.accountId || "",
+  toAccountId: transfer?.toAccountId || "",
 });
 
 export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
@@ -32,24 +96,58 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
   const queryClient = useQueryClient();
   const [rating, setRating] = useState(0);
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
+  const [splits, setSplits] = useState<SplitRow[]>([]);
 
   const form = useForm<any>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      amount: expense?.amount || "",
-      type: expense?.type || "expense",
-      description: expense?.description || "",
-      category: expense?.category || "",
-      date: expense?.date ? new Date(expense.date).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-      location: expense?.location || "",
-      mood: expense?.mood || "",
-      tags: expense?.tags?.join(", ") || "",
-      rating: expense?.rating || 0,
-    },
+    defaultValues: toFormValues(expense),
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
   });
 
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+  });
+
+  const { data: currencies } = useQuery<Currency[]>({
+    queryKey: ["/api/currencies"],
+  });
+
+  const { data: transfer } = useQuery<Transfer>({
+    queryKey: ["/api/transfers", expense?.transferId],
+    enabled: isOpen && !!expense?.transferId,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset(toFormValues(expense, transfer, user?.currency || "USD"));
+    setRating(expense?.rating || 0);
+    setUploadedFile(expense?.receiptUrl || null);
+    setSplits([]);
+  }, [isOpen, expense, transfer, user]);
+
+  const isTransfer = form.watch("type") === "transfer";
+  const amountStep = 1 / 10 ** getMinorUnits(form.watch("currency"));
+
   const createExpenseMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async ({ toAccountId, ...data }: any) => {
+      // Both legs of a transfer are written together by the transfers API
+      if (data.type === "transfer") {
+        const transferData = {
+          fromAccountId: data.accountId,
+          toAccountId,
+          amount: data.amount,
+          date: data.date,
+          description: data.description,
+        };
+        const response = expense?.transferId
+          ? await apiRequest("PATCH", `/api/transfers/${expense.transferId}`, transferData)
+          : await apiRequest("POST", "/api/transfers", transferData);
+        return response.json();
+      }
+
       const expenseData = {
         ...data,
         amount: parseFloat(data.amount),
@@ -57,20 +155,38 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
         tags: data.tags ? data.tags.split(",").map((tag: string) => tag.trim()) : [],
         rating,
         receiptUrl: uploadedFile,
+        accountId: data.accountId || null,
+        splits: splits.length > 0
+          ? splits.map(split => ({ category: split.category, amount: split.amount, notes: split.notes || null }))
+          : undefined,
       };
       
-      return await apiRequest("POST", "/api/expenses", expenseData);
+      const response = expense?.id
+        ? await apiRequest("PATCH", `/api/expenses/${expense.id}`, expenseData)
+        : await apiRequest("POST", "/api/expenses", expenseData);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] }); // Funding rules may have contributed
       toast({
         title: t("common.success"),
         description: "Expense saved successfully",
       });
+      if (data.duplicates?.length > 0) {
+        toast({
+          title: t("duplicates.warningTitle"),
+          description: `${t("duplicates.warningDescription")} "${data.duplicates[0].description}" (${data.duplicates[0].reasons.join(", ")})`,
+        });
+      }
       form.reset();
       setRating(0);
       setUploadedFile(null);
+      setSplits([]);
       onClose();
     },
     onError: (error) => {
@@ -82,6 +198,10 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
     },
   });
 
+  const onSubmit = (data: any) => {
+    createExpenseMutation.mutate(data);
+  };
+
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
@@ -110,6 +230,22 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
     },
   });
 
+  const updateSplit = (index: number, changes: Partial<SplitRow>) => {
+    setSplits(prev => prev.map((split, i) => i === index ? { ...split, ...changes } : split));
+  };
+
+  const startSplit = () => {
+    const amount = form.getValues("amount") || "";
+    const category = form.getValues("category") || "other";
+    setSplits([
+      { category, amount: String(amount), notes: "" },
+      { category: "other", amount: "", notes: "" },
+    ]);
+  };
+
+  const splitRemaining = Number(form.watch("amount") || 0)
+    - splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -162,19 +298,31 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>{t("expenses.amount")}</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <span className="absolute left-3 top-2 text-muted-foreground">$</span>
+                    <div className="flex space-x-2">
+                      {!isTransfer && (
+                        <Select value={form.watch("currency")} onValueChange={(value) => form.setValue("currency", value)}>
+                          <SelectTrigger className="w-24" data-testid="select-expense-currency">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(currencies?.filter((currency) => currency.rate !== null) || [{ code: form.watch("currency") }]).map((currency) => (
+                              <SelectItem key={currency.code} value={currency.code}>
+                                {currency.code}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <FormControl>
                         <Input 
                           type="number" 
-                          step="0.01" 
+                          step={amountStep} 
                           placeholder="0.00" 
-                          className="pl-8"
                           data-testid="input-expense-amount"
                           {...field} 
                         />
-                      </div>
-                    </FormControl>
+                      </FormControl>
+                    </div>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -185,15 +333,18 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>{t("expenses.type")}</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!!expense?.transferId}>
                       <FormControl>
                         <SelectTrigger data-testid="select-expense-type">
                           <SelectValue />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="expense">Expense</SelectItem>
-                        <SelectItem value="income">Income</SelectItem>
+                        {!expense?.transferId && <SelectItem value="expense">Expense</SelectItem>}
+                        {!expense?.transferId && <SelectItem value="income">Income</SelectItem>}
+                        {(!expense?.id || expense.transferId) && accounts && accounts.length > 1 && (
+                          <SelectItem value="transfer">{t("expenses.transfer")}</SelectItem>
+                        )}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -221,13 +372,14 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                   </FormItem>
                 )}
               />
+              {!isTransfer && (
               <FormField
                 control={form.control}
                 name="category"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>{t("expenses.category")}</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-expense-category">
                           <SelectValue placeholder="Select category" />
@@ -245,8 +397,161 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                   </FormItem>
                 )}
               />
+              )}
             </div>
 
+            {/* Account */}
+            {accounts && accounts.length > 0 && (
+              <div className={cn("grid grid-cols-1 gap-4", isTransfer && "md:grid-cols-2")}>
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{isTransfer ? t("expenses.fromAccount") : t("nav.accounts")}</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Transactions on an account are entered in its currency
+                        const currency = accounts.find((account) => account.id === value)?.currency;
+                        if (currency) form.setValue("currency", currency);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-expense-account">
+                          <SelectValue placeholder={t("accounts.unassigned")} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts
+                          .filter((account) => !account.isArchived || account.id === field.value)
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {isTransfer && (
+                <FormField
+                  control={form.control}
+                  name="toAccountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("expenses.toAccount")}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-expense-to-account">
+                            <SelectValue placeholder={t("expenses.toAccount")} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accounts
+                            .filter((account) => !account.isArchived || account.id === field.value)
+                            .map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              </div>
+            )}
+
+            {/* Split across categories */}
+            {!isTransfer && (
+            <div className="space-y-3" data-testid="section-expense-splits">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{t("expenses.split")}</span>
+                {splits.length === 0 ? (
+                  <Button type="button" variant="ghost" size="sm" onClick={startSplit} data-testid="button-start-split">
+                    <Split className="w-4 h-4 mr-1" />
+                    {t("expenses.splitStart")}
+                  </Button>
+                ) : (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setSplits([])} data-testid="button-clear-split">
+                    <X className="w-4 h-4 mr-1" />
+                    {t("expenses.splitClear")}
+                  </Button>
+                )}
+              </div>
+              {splits.map((split, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`split-row-${index}`}>
+                  <div className="col-span-4">
+                    <Select value={split.category} onValueChange={(value) => updateSplit(index, { category: value })}>
+                      <SelectTrigger data-testid={`select-split-category-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-3"
+                    type="number"
+                    step={amountStep}
+                    placeholder="0.00"
+                    value={split.amount}
+                    onChange={(e) => updateSplit(index, { amount: e.target.value })}
+                    data-testid={`input-split-amount-${index}`}
+                  />
+                  <Input
+                    className="col-span-4"
+                    placeholder={t("expenses.splitNotes")}
+                    value={split.notes}
+                    onChange={(e) => updateSplit(index, { notes: e.target.value })}
+                    data-testid={`input-split-notes-${index}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-split-${index}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {splits.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSplits(prev => [...prev, { category: "other", amount: "", notes: "" }])}
+                    data-testid="button-add-split"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t("expenses.splitAdd")}
+                  </Button>
+                  <span
+                    className={cn("text-sm", Math.abs(splitRemaining) < 0.005 ? "text-muted-foreground" : "text-destructive")}
+                    data-testid="text-split-remaining"
+                  >
+                    {t("expenses.splitRemaining")}: {splitRemaining.toFixed(2)}
+                  </span>
+                </div>
+              )}
+            </div>
+            )}
+
             {/* Date and Location */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
@@ -266,6 +571,7 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                   </FormItem>
                 )}
               />
+              {!isTransfer && (
               <FormField
                 control={form.control}
                 name="location"
@@ -292,9 +598,11 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                   </FormItem>
                 )}
               />
+              )}
             </div>
 
             {/* Mood and Rating */}
+            {!isTransfer && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2">
@@ -325,7 +633,7 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>{t("expenses.mood")}</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-expense-mood">
                           <SelectValue placeholder="How do you feel?" />
@@ -344,8 +652,10 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 )}
               />
             </div>
+            )}
 
             {/* Receipt Upload */}
+            {!isTransfer && (
             <div>
               <label className="block text-sm font-medium text-foreground mb-2">
                 {t("expenses.receipt")}
@@ -392,8 +702,10 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 </label>
               </div>
             </div>
+            )}
 
             {/* Tags */}
+            {!isTransfer && (
             <FormField
               control={form.control}
               name="tags"
@@ -411,6 +723,7 @@ export function ExpenseModal({ isOpen, onClose, expense }: ExpenseModalProps) {
                 </FormItem>
               )}
             />
+            )}
 
             {/* Action Buttons */}
             <div className="flex space-x-3 pt-4">
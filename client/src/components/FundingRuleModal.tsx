@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
+import { apiRequest } from "@/lib/queryClient";
+import type { Account, Goal, GoalFundingRule } from "@shared/schema";
+import type { MoneyJSON } from "@shared/money";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface FundingPreview {
+  rules: { ruleId: string | null; goalId: string; monthly: MoneyJSON; matched: number }[];
+  total: MoneyJSON;
+  sampleStart: string;
+  sampleEnd: string;
+}
+
+interface FundingRuleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goals: Goal[];
+  rule?: GoalFundingRule | null;
+}
+
+const toDateInput = (value: Date | string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+export function FundingRuleModal({ isOpen, onClose, goals, rule }: FundingRuleModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { formatMoney } = useFormatters();
+  const queryClient = useQueryClient();
+  const [goalId, setGoalId] = useState("");
+  const [type, setType] = useState("round_up");
+  const [percentage, setPercentage] = useState("10");
+  const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState("monthly");
+  const [startDate, setStartDate] = useState(toDateInput(new Date()));
+  const [category, setCategory] = useState("all");
+  const [accountId, setAccountId] = useState("all");
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const categories = ["food", "transport", "entertainment", "shopping", "utilities", "healthcare", "education", "other"];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setGoalId(rule?.goalId || goals[0]?.id || "");
+    setType(rule?.type || "round_up");
+    setPercentage(rule?.percentage || "10");
+    setAmount(rule?.amount || "");
+    setFrequency(rule?.frequency || "monthly");
+    setStartDate(toDateInput(rule?.startDate || new Date()));
+    setCategory(rule?.category || "all");
+    setAccountId(rule?.accountId || "all");
+  }, [isOpen, rule, goals]);
+
+  const scheduled = type === "scheduled";
+  const data = {
+    goalId,
+    type,
+    percentage: type === "income_percent" ? percentage : null,
+    amount: scheduled ? amount : null,
+    frequency: scheduled ? frequency : null,
+    startDate: scheduled ? new Date(`${startDate}T00:00:00`).toISOString() : null,
+    // Schedules are not tied to transactions, so they take no filters
+    category: scheduled || category === "all" ? null : category,
+    accountId: scheduled || accountId === "all" ? null : accountId,
+  };
+
+  const canSave = !!goalId && (
+    type === "round_up"
+    || (type === "income_percent" && Number(percentage) > 0 && Number(percentage) <= 100)
+    || (scheduled && Number(amount) > 0 && !!startDate)
+  );
+
+  // Estimate of the draft rule, refreshed as it is edited
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<FundingPreview> => {
+      const response = await apiRequest("POST", "/api/goals/funding-rules/preview", data);
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen && canSave) previewMutation.mutate();
+  }, [isOpen, canSave, goalId, type, percentage, amount, frequency, category, accountId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = rule
+        ? await apiRequest("PATCH", `/api/goals/funding-rules/${rule.id}`, data)
+        : await apiRequest("POST", "/api/goals/funding-rules", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: t("common.success"),
+        description: rule ? "Saving rule updated" : "Saving rule created",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const estimate = canSave && previewMutation.data?.rules[0];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{rule ? t("goals.rules.edit") : t("goals.rules.add")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>{t("goals.rules.goal")}</Label>
+            <Select value={goalId} onValueChange={setGoalId}>
+              <SelectTrigger data-testid="select-rule-goal">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {goals.map((goal) => (
+                  <SelectItem key={goal.id} value={goal.id}>{goal.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>{t("goals.rules.type")}</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger data-testid="select-rule-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="round_up">{t("goals.rules.types.round_up")}</SelectItem>
+                <SelectItem value="income_percent">{t("goals.rules.types.income_percent")}</SelectItem>
+                <SelectItem value="scheduled">{t("goals.rules.types.scheduled")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "income_percent" && (
+            <div>
+              <Label htmlFor="rule-percentage">{t("goals.rules.percentage")}</Label>
+              <Input
+                id="rule-percentage"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={percentage}
+                onChange={(e) => setPercentage(e.target.value)}
+                data-testid="input-rule-percentage"
+              />
+            </div>
+          )}
+
+          {scheduled ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="rule-amount">{t("budgets.amount")}</Label>
+                  <Input
+                    id="rule-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-rule-amount"
+                  />
+                </div>
+                <div>
+                  <Label>{t("goals.rules.frequency")}</Label>
+                  <Select value={frequency} onValueChange={setFrequency}>
+                    <SelectTrigger data-testid="select-rule-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="weekly">{t("goals.rules.frequencies.weekly")}</SelectItem>
+                      <SelectItem value="monthly">{t("goals.rules.frequencies.monthly")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="rule-start">{t("goals.rules.startDate")}</Label>
+                <Input
+                  id="rule-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  data-testid="input-rule-start-date"
+                />
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>{t("budgets.category")}</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger data-testid="select-rule-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("budgets.allCategories")}</SelectItem>
+                    {categories.map((item) => (
+                      <SelectItem key={item} value={item}>{t(`categories.${item}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t("goals.rules.account")}</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger data-testid="select-rule-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("goals.rules.allAccounts")}</SelectItem>
+                    {accounts?.filter(account => !account.isArchived).map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {estimate && (
+            <div className="rounded-lg bg-muted p-3 text-sm" data-testid="text-rule-preview">
+              <span className="font-semibold text-foreground">≈ {formatMoney(estimate.monthly)}</span>
+              <span className="text-muted-foreground"> {t("goals.rules.perMonth")}</span>
+              {!scheduled && (
+                <p className="text-muted-foreground">
+                  {estimate.matched} {t("goals.rules.matchedRecently")}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-rule">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-save-rule"
+            >
+              {saveMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Goal } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface GoalContributionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goal: Goal | null;
+}
+
+const toDateInput = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+export function GoalContributionModal({ isOpen, onClose, goal }: GoalContributionModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [direction, setDirection] = useState("deposit");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDirection("deposit");
+    setAmount("");
+    setDate(toDateInput(new Date()));
+    setNote("");
+  }, [isOpen]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Withdrawals are stored as negative contributions
+      const response = await apiRequest("POST", `/api/goals/${goal!.id}/contributions`, {
+        amount: direction === "withdrawal" ? `-${amount}` : amount,
+        date: new Date(`${date}T12:00:00`).toISOString(),
+        note: note || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: t("common.success"),
+        description: direction === "withdrawal" ? "Withdrawal recorded" : "Contribution added",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = goal && Number(amount) > 0 && date;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{goal?.name} · {t("goals.addContribution")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t("goals.direction")}</Label>
+              <Select value={direction} onValueChange={setDirection}>
+                <SelectTrigger data-testid="select-contribution-direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deposit">{t("goals.deposit")}</SelectItem>
+                  <SelectItem value="withdrawal">{t("goals.withdrawal")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="contribution-amount">{t("budgets.amount")}</Label>
+              <Input
+                id="contribution-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-contribution-amount"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="contribution-date">{t("goals.date")}</Label>
+            <Input
+              id="contribution-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-contribution-date"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="contribution-note">{t("goals.note")}</Label>
+            <Input
+              id="contribution-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-contribution-note"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-contribution">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-save-contribution"
+            >
+              {saveMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Goal } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+interface GoalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  goal?: Goal | null;
+}
+
+// Local calendar day of a date, as used by <input type="date">
+const toDateInput = (value: Date | string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+export function GoalModal({ isOpen, onClose, goal }: GoalModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  const [startingAmount, setStartingAmount] = useState("");
+  const [deadline, setDeadline] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(goal?.name || "");
+    setTargetAmount(goal?.targetAmount || "");
+    setStartingAmount("");
+    setDeadline(goal?.deadline ? toDateInput(goal.deadline) : "");
+  }, [isOpen, goal]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name,
+        targetAmount,
+        deadline: deadline ? new Date(`${deadline}T00:00:00`).toISOString() : null,
+      };
+      // The saved amount of an existing goal only changes through contributions
+      const response = goal
+        ? await apiRequest("PATCH", `/api/goals/${goal.id}`, data)
+        : await apiRequest("POST", "/api/goals", { ...data, currentAmount: startingAmount || "0" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: t("common.success"),
+        description: goal ? "Goal updated" : "Goal created",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = name.trim() && Number(targetAmount) > 0 && (!startingAmount || Number(startingAmount) >= 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{goal ? t("goals.edit") : t("goals.addNew")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="goal-name">{t("goals.name")}</Label>
+            <Input
+              id="goal-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Emergency fund, Holiday, New laptop..."
+              data-testid="input-goal-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="goal-target">{t("goals.target")}</Label>
+              <Input
+                id="goal-target"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                data-testid="input-goal-target"
+              />
+            </div>
+            {!goal && (
+              <div>
+                <Label htmlFor="goal-starting">{t("goals.startingAmount")}</Label>
+                <Input
+                  id="goal-starting"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={startingAmount}
+                  onChange={(e) => setStartingAmount(e.target.value)}
+                  data-testid="input-goal-starting-amount"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="goal-deadline">{t("goals.deadline")}</Label>
+            <Input
+              id="goal-deadline"
+              type="date"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              data-testid="input-goal-deadline"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-goal">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-save-goal"
+            >
+              {saveMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,461 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import type { Account, CsvColumnMapping, ImportMapping, InsertExpense } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, AlertTriangle, CheckCircle } from "lucide-react";
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ImportPreviewRow {
+  rowNumber: number;
+  raw: Record<string, string>;
+  expense: InsertExpense | null;
+  errors: string[];
+  duplicates?: { expenseId: string; description: string; reasons: string[] }[];
+}
+
+interface ImportPreview {
+  headers: string[];
+  columns: CsvColumnMapping;
+  rows: ImportPreviewRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+const NONE = "__none__";
+
+const fields: { key: keyof CsvColumnMapping; required: boolean }[] = [
+  { key: "amount", required: true },
+  { key: "date", required: true },
+  { key: "description", required: true },
+  { key: "type", required: false },
+  { key: "category", required: false },
+];
+
+const dateFormats = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD.MM.YYYY"];
+
+// QFX is Quicken's branded OFX and shares its parser
+function getStatementFormat(file: File | null): "csv" | "ofx" | "qif" {
+  const extension = file?.name.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  return "csv";
+}
+
+export function ImportModal({ isOpen, onClose }: ImportModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [mappingId, setMappingId] = useState<string>(NONE);
+  const [columns, setColumns] = useState<CsvColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState("YYYY-MM-DD");
+  const [decimalSeparator, setDecimalSeparator] = useState(".");
+  const [delimiter, setDelimiter] = useState(",");
+  const [mappingName, setMappingName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [accountId, setAccountId] = useState<string>(NONE);
+  const format = getStatementFormat(file);
+
+  const { data: mappings } = useQuery<ImportMapping[]>({
+    queryKey: ["/api/import/mappings"],
+    enabled: isOpen,
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+    enabled: isOpen,
+  });
+
+  const resetState = () => {
+    setFile(null);
+    setMappingId(NONE);
+    setColumns(null);
+    setMappingName("");
+    setPreview(null);
+    setAccountId(NONE);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (options: { mappingId?: string; columns?: CsvColumnMapping | null }) => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (options.mappingId) {
+        formData.append("mappingId", options.mappingId);
+      } else {
+        formData.append("dateFormat", dateFormat);
+        formData.append("decimalSeparator", decimalSeparator);
+        formData.append("delimiter", delimiter);
+      }
+      if (options.columns) {
+        formData.append("columns", JSON.stringify(options.columns));
+      }
+      const response = await apiUpload(`/api/import/${format}/preview`, formData);
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setColumns(data.columns);
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const rows = preview!.rows.filter(row => row.expense).map(row => row.expense);
+      const response = await apiRequest("POST", "/api/import/commit", {
+        rows,
+        accountId: accountId !== NONE ? accountId : null,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: t("common.success"),
+        description: data.skipped > 0
+          ? `${data.imported} transactions imported, ${data.skipped} already present`
+          : `${data.imported} transactions imported`,
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/mappings", {
+        name: mappingName,
+        columns,
+        delimiter,
+        dateFormat,
+        decimalSeparator,
+      });
+      return response.json() as Promise<ImportMapping>;
+    },
+    onSuccess: (mapping) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/mappings"] });
+      setMappingId(mapping.id);
+      setMappingName("");
+      toast({
+        title: t("common.success"),
+        description: `Mapping "${mapping.name}" saved`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleColumnChange = (field: keyof CsvColumnMapping, value: string) => {
+    const updated = { ...columns!, [field]: value === NONE ? undefined : value };
+    setColumns(updated);
+    previewMutation.mutate({ columns: updated });
+  };
+
+  const handlePreview = () => {
+    previewMutation.mutate({
+      mappingId: format === "csv" && mappingId !== NONE ? mappingId : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">{t("import.title")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* File and saved mapping */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="import-file">{t("import.file")}</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setPreview(null);
+                }}
+                data-testid="input-import-file"
+              />
+            </div>
+            {format === "csv" && (
+              <div>
+                <Label>{t("import.savedMapping")}</Label>
+                <Select value={mappingId} onValueChange={setMappingId}>
+                  <SelectTrigger data-testid="select-import-mapping">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>{t("import.detectColumns")}</SelectItem>
+                    {mappings?.map((mapping) => (
+                      <SelectItem key={mapping.id} value={mapping.id}>
+                        {mapping.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {format === "qif" && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>{t("import.dateFormat")}</Label>
+                <Select value={dateFormat} onValueChange={setDateFormat}>
+                  <SelectTrigger data-testid="select-import-qif-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateFormats.map((format) => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {format === "csv" && mappingId === NONE && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>{t("import.dateFormat")}</Label>
+                <Select value={dateFormat} onValueChange={setDateFormat}>
+                  <SelectTrigger data-testid="select-import-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateFormats.map((format) => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t("import.decimalSeparator")}</Label>
+                <Select value={decimalSeparator} onValueChange={setDecimalSeparator}>
+                  <SelectTrigger data-testid="select-import-decimal-separator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">1,234.56</SelectItem>
+                    <SelectItem value=",">1.234,56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t("import.delimiter")}</Label>
+                <Select value={delimiter} onValueChange={setDelimiter}>
+                  <SelectTrigger data-testid="select-import-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">Comma (,)</SelectItem>
+                    <SelectItem value=";">Semicolon (;)</SelectItem>
+                    <SelectItem value="\t">Tab</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <Button
+            onClick={handlePreview}
+            disabled={!file || previewMutation.isPending}
+            className="flex items-center space-x-2"
+            data-testid="button-import-preview"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{previewMutation.isPending ? t("common.loading") : t("import.preview")}</span>
+          </Button>
+
+          {preview && (
+            <>
+              {format === "csv" && columns && (
+                <>
+                  {/* Column mapping */}
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    {fields.map(({ key, required }) => (
+                      <div key={key}>
+                        <Label className="capitalize">{t(`expenses.${key}`)}{required ? " *" : ""}</Label>
+                        <Select
+                          value={columns[key] || NONE}
+                          onValueChange={(value) => handleColumnChange(key, value)}
+                        >
+                          <SelectTrigger data-testid={`select-import-column-${key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {!required && <SelectItem value={NONE}>—</SelectItem>}
+                            {preview.headers.map((header) => (
+                              <SelectItem key={header} value={header}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Save mapping */}
+                  <div className="flex items-end space-x-3">
+                    <div className="flex-1">
+                      <Label htmlFor="mapping-name">{t("import.saveMappingAs")}</Label>
+                      <Input
+                        id="mapping-name"
+                        placeholder="e.g. My Bank checking"
+                        value={mappingName}
+                        onChange={(e) => setMappingName(e.target.value)}
+                        data-testid="input-import-mapping-name"
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => saveMappingMutation.mutate()}
+                      disabled={!mappingName || saveMappingMutation.isPending}
+                      data-testid="button-save-import-mapping"
+                    >
+                      {t("common.save")}
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {/* Preview rows */}
+              <div className="flex items-center space-x-4 text-sm">
+                <span className="flex items-center space-x-1 text-success">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>{preview.validCount} {t("import.validRows")}</span>
+                </span>
+                {preview.errorCount > 0 && (
+                  <span className="flex items-center space-x-1 text-destructive">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>{preview.errorCount} {t("import.invalidRows")}</span>
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-border rounded-lg max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>{t("expenses.date")}</TableHead>
+                      <TableHead>{t("expenses.description")}</TableHead>
+                      <TableHead>{t("expenses.category")}</TableHead>
+                      <TableHead className="text-right">{t("expenses.amount")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.rowNumber} data-testid={`row-import-preview-${row.rowNumber}`}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        {row.expense ? (
+                          <>
+                            <TableCell>{new Date(row.expense.date).toLocaleDateString()}</TableCell>
+                            <TableCell>
+                              {row.expense.description}
+                              {row.duplicates && row.duplicates.length > 0 && (
+                                <span
+                                  className="ml-2 text-xs bg-destructive/10 text-destructive px-2 py-1 rounded"
+                                  title={`${row.duplicates[0].description} (${row.duplicates[0].reasons.join(", ")})`}
+                                >
+                                  {t("duplicates.possible")}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className="capitalize">{row.expense.category}</TableCell>
+                            <TableCell className={row.expense.type === "expense" ? "text-right text-destructive" : "text-right text-success"}>
+                              {row.expense.type === "expense" ? "-" : "+"}{row.expense.amount}
+                            </TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-destructive text-sm">
+                            {row.errors.join("; ")}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {accounts && accounts.length > 0 && (
+                <div className="max-w-xs">
+                  <Label>{t("nav.accounts")}</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger data-testid="select-import-account">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>{t("accounts.unassigned")}</SelectItem>
+                      {accounts.filter((account) => !account.isArchived).map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex space-x-3">
+                <Button
+                  className="flex-1"
+                  onClick={() => commitMutation.mutate()}
+                  disabled={preview.validCount === 0 || commitMutation.isPending}
+                  data-testid="button-import-commit"
+                >
+                  {commitMutation.isPending
+                    ? t("common.loading")
+                    : `${t("import.importRows")} (${preview.validCount})`}
+                </Button>
+                <Button variant="secondary" className="flex-1" onClick={handleClose}>
+                  {t("common.cancel")}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
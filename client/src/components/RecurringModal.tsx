@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface RecurringModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function RecurringModal({ isOpen, onClose }: RecurringModalProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [type, setType] = useState("expense");
+  const [category, setCategory] = useState("utilities");
+  const [cadence, setCadence] = useState("monthly");
+  const [repeatInterval, setRepeatInterval] = useState("1");
+  const [rrule, setRrule] = useState("");
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState("");
+
+  const categories = [
+    { value: "food", label: t("categories.food") },
+    { value: "transport", label: t("categories.transport") },
+    { value: "entertainment", label: t("categories.entertainment") },
+    { value: "shopping", label: t("categories.shopping") },
+    { value: "utilities", label: t("categories.utilities") },
+    { value: "healthcare", label: t("categories.healthcare") },
+    { value: "education", label: t("categories.education") },
+    { value: "other", label: t("categories.other") },
+  ];
+
+  const reset = () => {
+    setDescription("");
+    setAmount("");
+    setType("expense");
+    setCategory("utilities");
+    setCadence("monthly");
+    setRepeatInterval("1");
+    setRrule("");
+    setStartDate(today());
+    setEndDate("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/recurring", {
+        description,
+        amount,
+        type,
+        category,
+        cadence,
+        interval: Number(repeatInterval) || 1,
+        rrule: cadence === "custom" ? rrule : null,
+        startDate,
+        endDate: endDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring/upcoming"] });
+      toast({
+        title: t("common.success"),
+        description: "Recurring transaction scheduled",
+      });
+      reset();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = description.trim() && Number(amount) > 0 && startDate && (cadence !== "custom" || rrule.trim());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("recurring.addNew")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="recurring-description">{t("expenses.description")}</Label>
+            <Input
+              id="recurring-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Rent, salary, Netflix..."
+              data-testid="input-recurring-description"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="recurring-amount">{t("expenses.amount")}</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-recurring-amount"
+              />
+            </div>
+            <div>
+              <Label>{t("recurring.type")}</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger data-testid="select-recurring-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>{t("expenses.category")}</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-recurring-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t("recurring.cadence")}</Label>
+              <Select value={cadence} onValueChange={setCadence}>
+                <SelectTrigger data-testid="select-recurring-cadence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">{t("recurring.daily")}</SelectItem>
+                  <SelectItem value="weekly">{t("recurring.weekly")}</SelectItem>
+                  <SelectItem value="monthly">{t("recurring.monthly")}</SelectItem>
+                  <SelectItem value="yearly">{t("recurring.yearly")}</SelectItem>
+                  <SelectItem value="custom">{t("recurring.custom")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {cadence === "custom" ? (
+              <div>
+                <Label htmlFor="recurring-rrule">RRULE</Label>
+                <Input
+                  id="recurring-rrule"
+                  value={rrule}
+                  onChange={(e) => setRrule(e.target.value)}
+                  placeholder="FREQ=WEEKLY;BYDAY=MO,TH"
+                  data-testid="input-recurring-rrule"
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="recurring-interval">{t("recurring.every")}</Label>
+                <Input
+                  id="recurring-interval"
+                  type="number"
+                  min="1"
+                  value={repeatInterval}
+                  onChange={(e) => setRepeatInterval(e.target.value)}
+                  data-testid="input-recurring-interval"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="recurring-start">{t("recurring.startDate")}</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-recurring-start-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="recurring-end">{t("recurring.endDate")}</Label>
+              <Input
+                id="recurring-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-recurring-end-date"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-recurring">
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canSave || createMutation.isPending}
+              data-testid="button-save-recurring"
+            >
+              {createMutation.isPending ? t("common.loading") : t("common.save")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,7 +12,8 @@ import {
   Settings, 
   Bot, 
   LogOut,
-  Wallet
+  Wallet,
+  Landmark
 } from "lucide-react";
 
 interface SidebarProps {
@@ -29,6 +30,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const navigation = [
     { name: t("nav.dashboard"), href: "/", icon: PieChart },
     { name: t("nav.expenses"), href: "/expenses", icon: Receipt },
+    { name: t("nav.accounts"), href: "/accounts", icon: Landmark },
     { name: t("nav.budgets"), href: "/budgets", icon: PiggyBank },
     { name: t("nav.analytics"), href: "/analytics", icon: TrendingUp },
     { name: t("nav.goals"), href: "/goals", icon: Target },
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { RecurringModal } from "@/components/RecurringModal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus, Repeat } from "lucide-react";
+
+interface UpcomingOccurrence {
+  recurringTransactionId: string;
+  description: string;
+  amount: string;
+  type: string;
+  category: string;
+  date: string;
+}
+
+export function UpcomingRecurring() {
+  const { t } = useLanguage();
+  const [modalOpen, setModalOpen] = useState(false);
+
+  const { data: upcoming } = useQuery<UpcomingOccurrence[]>({
+    queryKey: ["/api/recurring/upcoming"],
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  return (
+    <Card data-testid="card-upcoming-recurring">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center space-x-2">
+          <Repeat className="w-5 h-5" />
+          <span>{t("recurring.upcoming")}</span>
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setModalOpen(true)}
+          data-testid="button-add-recurring"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {t("recurring.add")}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {upcoming && upcoming.length > 0 ? (
+          <div className="space-y-3">
+            {upcoming.slice(0, 5).map((item) => (
+              <div
+                key={`${item.recurringTransactionId}-${item.date}`}
+                className="flex items-center justify-between p-3 bg-muted rounded-lg"
+                data-testid={`upcoming-recurring-${item.recurringTransactionId}`}
+              >
+                <div>
+                  <p className="font-medium text-foreground">{item.description}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(item.date).toLocaleDateString()} · {t(`categories.${item.category}`)}
+                  </p>
+                </div>
+                <span className={item.type === "expense" ? "font-semibold text-destructive" : "font-semibold text-success"}>
+                  {item.type === "expense" ? "-" : "+"}{formatCurrency(Number(item.amount))}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground py-8">
+            {t("recurring.none")}
+          </div>
+        )}
+      </CardContent>
+
+      <RecurringModal isOpen={modalOpen} onClose={() => setModalOpen(false)} />
+    </Card>
+  );
+}
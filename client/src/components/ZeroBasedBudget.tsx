@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
+import { apiRequest } from "@/lib/queryClient";
+import { DashboardWidget } from "@/components/DashboardWidget";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Banknote, Coins, HandCoins } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MoneyJSON } from "@shared/money";
+
+type CategoryFunding = "funded" | "underfunded" | "overspent";
+
+interface ZeroBasedCategory {
+  category: string;
+  assigned: MoneyJSON;
+  spent: MoneyJSON;
+  available: MoneyJSON;
+  target: MoneyJSON | null;
+  status: CategoryFunding;
+}
+
+interface ZeroBasedMonth {
+  month: string;
+  income: MoneyJSON;
+  assigned: MoneyJSON;
+  toBeAssigned: MoneyJSON;
+  categories: ZeroBasedCategory[];
+  overspent: string[];
+  underfunded: string[];
+}
+
+interface ZeroBasedBudgetProps {
+  month: string; // 'YYYY-MM'
+}
+
+const CATEGORIES = ["food", "transport", "entertainment", "shopping", "utilities", "healthcare", "education", "other"];
+
+const FUNDING_STYLES: Record<CategoryFunding, string> = {
+  funded: "bg-success/10 text-success",
+  underfunded: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  overspent: "bg-destructive/10 text-destructive",
+};
+
+export function ZeroBasedBudget({ month }: ZeroBasedBudgetProps) {
+  const { t } = useLanguage();
+  const { formatMoney } = useFormatters();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data: report, isLoading } = useQuery<ZeroBasedMonth>({
+    queryKey: ["/api/budgets", `zero-based?month=${month}`],
+  });
+
+  useEffect(() => setDrafts({}), [month]);
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ category, amount }: { category: string; amount: string }) => {
+      await apiRequest("PUT", "/api/budgets/assignments", { month, category, amount });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !report) {
+    return <div className="h-48 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  // Every known category can be assigned to, even before it has money or spending
+  const rows = [
+    ...report.categories,
+    ...CATEGORIES.filter(category => !report.categories.some(item => item.category === category)).map(category => ({
+      category,
+      assigned: { ...report.assigned, amount: "0" },
+      spent: { ...report.assigned, amount: "0" },
+      available: { ...report.assigned, amount: "0" },
+      target: null,
+      status: "funded" as CategoryFunding,
+    })),
+  ];
+
+  const saveDraft = (item: ZeroBasedCategory) => {
+    const draft = drafts[item.category];
+    if (draft === undefined || Number(draft) === Number(item.assigned.amount)) return;
+    if (!(Number(draft) >= 0)) {
+      setDrafts({ ...drafts, [item.category]: item.assigned.amount });
+      return;
+    }
+    assignMutation.mutate({ category: item.category, amount: draft || "0" });
+  };
+
+  const overAssigned = Number(report.toBeAssigned.amount) < 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <DashboardWidget
+          title={overAssigned ? t("budgets.zeroBased.overAssigned") : t("budgets.zeroBased.toBeAssigned")}
+          value={formatMoney(Math.abs(Number(report.toBeAssigned.amount)), { currency: report.toBeAssigned.currency })}
+          icon={HandCoins}
+          trend={overAssigned ? "negative" : Number(report.toBeAssigned.amount) > 0 ? "neutral" : "positive"}
+        />
+        <DashboardWidget title={t("budgets.zeroBased.income")} value={formatMoney(report.income)} icon={Banknote} />
+        <DashboardWidget title={t("budgets.zeroBased.assigned")} value={formatMoney(report.assigned)} icon={Coins} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("budgets.zeroBased.title")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 font-medium">{t("budgets.category")}</th>
+                  <th className="py-2 font-medium">{t("budgets.zeroBased.assigned")}</th>
+                  <th className="py-2 font-medium text-right">{t("budgets.spent")}</th>
+                  <th className="py-2 font-medium text-right">{t("budgets.zeroBased.available")}</th>
+                  <th className="py-2 font-medium text-right">{t("budgets.zeroBased.target")}</th>
+                  <th className="py-2 font-medium text-right"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((item) => (
+                  <tr key={item.category} className="border-b border-border last:border-0" data-testid={`row-assignment-${item.category}`}>
+                    <td className="py-2 text-foreground">{t(`categories.${item.category}`)}</td>
+                    <td className="py-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="w-32 h-8"
+                        value={drafts[item.category] ?? item.assigned.amount}
+                        onChange={(e) => setDrafts({ ...drafts, [item.category]: e.target.value })}
+                        onBlur={() => saveDraft(item)}
+                        data-testid={`input-assignment-${item.category}`}
+                      />
+                    </td>
+                    <td className="py-2 text-right text-foreground">{formatMoney(item.spent)}</td>
+                    <td
+                      className={cn("py-2 text-right font-medium", Number(item.available.amount) < 0 ? "text-destructive" : "text-foreground")}
+                      data-testid={`text-available-${item.category}`}
+                    >
+                      {formatMoney(item.available)}
+                    </td>
+                    <td className="py-2 text-right text-muted-foreground">{item.target ? formatMoney(item.target) : "—"}</td>
+                    <td className="py-2 text-right">
+                      <Badge variant="secondary" className={FUNDING_STYLES[item.status]} data-testid={`badge-funding-${item.category}`}>
+                        {t(`budgets.zeroBased.status.${item.status}`)}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ const translations = {
     // Navigation
     "nav.dashboard": "Dashboard",
     "nav.expenses": "Expenses",
+    "nav.accounts": "Accounts",
     "nav.budgets": "Budgets",
     "nav.analytics": "Analytics",
     "nav.goals": "Goals",
@@ -48,6 +49,214 @@ const translations = {
     "expenses.mood": "Mood",
     "expenses.rating": "Rating",
     "expenses.tags": "Tags",
+    "expenses.split": "Split across categories",
+    "expenses.splitStart": "Split",
+    "expenses.splitClear": "Remove split",
+    "expenses.splitAdd": "Add allocation",
+    "expenses.splitNotes": "Notes",
+    "expenses.splitRemaining": "Left to allocate",
+    "expenses.transfer": "Transfer",
+    "expenses.fromAccount": "From account",
+    "expenses.toAccount": "To account",
+    
+    // Import
+    "import.button": "Import",
+    "import.title": "Import Bank Statement",
+    "import.file": "Statement file (CSV, OFX, QFX, QIF)",
+    "import.savedMapping": "Column mapping",
+    "import.detectColumns": "Detect columns automatically",
+    "import.dateFormat": "Date format",
+    "import.decimalSeparator": "Number format",
+    "import.delimiter": "Separator",
+    "import.preview": "Preview",
+    "import.saveMappingAs": "Save this mapping as",
+    "import.validRows": "ready to import",
+    "import.invalidRows": "with errors (skipped)",
+    "import.importRows": "Import",
+    
+    // Duplicates
+    "duplicates.title": "Possible duplicates",
+    "duplicates.possible": "Possible duplicate",
+    "duplicates.merge": "Merge",
+    "duplicates.dismiss": "Not a duplicate",
+    "duplicates.warningTitle": "Possible duplicate",
+    "duplicates.warningDescription": "This looks like",
+    
+    // Accounts
+    "accounts.title": "Accounts",
+    "accounts.subtitle": "Balances of your bank accounts, cards and cash",
+    "accounts.addNew": "New Account",
+    "accounts.edit": "Edit Account",
+    "accounts.name": "Name",
+    "accounts.type": "Type",
+    "accounts.openingBalance": "Opening balance",
+    "accounts.archived": "Archived",
+    "accounts.showArchived": "Show archived",
+    "accounts.hideArchived": "Hide archived",
+    "accounts.none": "No accounts yet",
+    "accounts.ledger": "Running balance",
+    "accounts.noTransactions": "No transactions on this account",
+    "accounts.all": "All Accounts",
+    "accounts.unassigned": "No account",
+    "accounts.types.checking": "Checking",
+    "accounts.types.savings": "Savings",
+    "accounts.types.credit_card": "Credit card",
+    "accounts.types.cash": "Cash",
+    "accounts.types.investment": "Investment",
+    "accounts.types.other": "Other",
+    
+    // Recurring transactions
+    "recurring.upcoming": "Upcoming",
+    "recurring.addNew": "New Recurring Transaction",
+    "recurring.add": "Add recurring",
+    "recurring.none": "No upcoming recurring transactions",
+    "recurring.type": "Type",
+    "recurring.cadence": "Repeats",
+    "recurring.every": "Every",
+    "recurring.daily": "Daily",
+    "recurring.weekly": "Weekly",
+    "recurring.monthly": "Monthly",
+    "recurring.yearly": "Yearly",
+    "recurring.custom": "Custom (RRULE)",
+    "recurring.startDate": "Start date",
+    "recurring.endDate": "End date (optional)",
+    
+    // Budgets
+    "budgets.title": "Budgets",
+    "budgets.subtitle": "Spending limits per category and period",
+    "budgets.addNew": "New Budget",
+    "budgets.edit": "Edit Budget",
+    "budgets.name": "Name",
+    "budgets.category": "Category",
+    "budgets.allCategories": "All categories",
+    "budgets.amount": "Amount",
+    "budgets.period": "Period",
+    "budgets.startDate": "Start date",
+    "budgets.endDate": "End date (optional)",
+    "budgets.none": "No budgets yet",
+    "budgets.archived": "Archived",
+    "budgets.showArchived": "Show archived",
+    "budgets.hideArchived": "Hide archived",
+    "budgets.today": "Today",
+    "budgets.budgeted": "Budgeted",
+    "budgets.spent": "Spent",
+    "budgets.remaining": "Remaining",
+    "budgets.overspent": "Overspent",
+    "budgets.dailyPace": "Daily pace",
+    "budgets.dailyAllowance": "Per day left",
+    "budgets.projected": "Projected",
+    "budgets.carriedIn": "Carried over",
+    "budgets.rollover": "Rollover",
+    "budgets.rolloverCap": "Rollover cap",
+    "budgets.noCap": "No cap",
+    "budgets.alertThresholds": "Alert at (% used)",
+    "budgets.alertThresholdsHint": "Comma-separated percentages; leave empty for no alerts",
+    "budgets.zeroBased.enable": "Use zero-based budgeting",
+    "budgets.zeroBased.disable": "Use standard budgeting",
+    "budgets.zeroBased.title": "Assign every unit of income",
+    "budgets.zeroBased.toBeAssigned": "To be assigned",
+    "budgets.zeroBased.overAssigned": "Assigned beyond income",
+    "budgets.zeroBased.income": "Income this month",
+    "budgets.zeroBased.assigned": "Assigned",
+    "budgets.zeroBased.available": "Available",
+    "budgets.zeroBased.target": "Target",
+    "budgets.zeroBased.status.funded": "Funded",
+    "budgets.zeroBased.status.underfunded": "Underfunded",
+    "budgets.zeroBased.status.overspent": "Overspent",
+    "goals.title": "Goals",
+    "goals.subtitle": "Save towards what matters and see how you got there",
+    "goals.addNew": "New Goal",
+    "goals.edit": "Edit Goal",
+    "goals.name": "Name",
+    "goals.target": "Target amount",
+    "goals.startingAmount": "Already saved",
+    "goals.deadline": "Target date (optional)",
+    "goals.by": "By",
+    "goals.noDeadline": "No target date",
+    "goals.reached": "Reached",
+    "goals.none": "No goals yet",
+    "goals.addContribution": "Contribute",
+    "goals.direction": "Type",
+    "goals.deposit": "Contribution",
+    "goals.withdrawal": "Withdrawal",
+    "goals.date": "Date",
+    "goals.note": "Note (optional)",
+    "goals.saved": "Saved",
+    "goals.contributed": "Contributed",
+    "goals.savedOverTime": "Saved over time",
+    "goals.monthlyContributions": "Net contributions per month",
+    "goals.contributions": "Contributions",
+    "goals.noContributions": "No contributions yet",
+    "goals.linked": "Linked to a transaction",
+    "goals.requiredMonthly": "Needed per month",
+    "goals.averageMonthly": "Saving per month",
+    "goals.estimatedCompletion": "reached by",
+    "goals.noEstimate": "not reached at this pace",
+    "goals.status.completed": "Completed",
+    "goals.status.on_track": "On track",
+    "goals.status.behind": "Behind",
+    "goals.status.overdue": "Overdue",
+    "goals.status.no_deadline": "No deadline",
+    "goals.rules.title": "Automatic saving",
+    "goals.rules.add": "Add rule",
+    "goals.rules.edit": "Edit saving rule",
+    "goals.rules.none": "No saving rules yet",
+    "goals.rules.goal": "Goal",
+    "goals.rules.type": "Rule",
+    "goals.rules.types.round_up": "Round up expenses",
+    "goals.rules.types.income_percent": "Share of income",
+    "goals.rules.types.scheduled": "Fixed amount on a schedule",
+    "goals.rules.percentage": "Percentage of each income",
+    "goals.rules.ofIncome": "of income",
+    "goals.rules.frequency": "Frequency",
+    "goals.rules.frequencies.weekly": "Weekly",
+    "goals.rules.frequencies.monthly": "Monthly",
+    "goals.rules.startDate": "First contribution",
+    "goals.rules.account": "Account",
+    "goals.rules.allAccounts": "All accounts",
+    "goals.rules.perMonth": "per month",
+    "goals.rules.monthlyTotal": "Expected per month",
+    "goals.rules.matchedRecently": "matching transactions in the last 3 months",
+    "goals.rules.automatic": "Added by a saving rule",
+    "analytics.title": "Analytics",
+    "analytics.subtitle": "Compare any two periods and see what changed",
+    "analytics.compare": "Compare",
+    "analytics.groupBy": "Group by",
+    "analytics.type": "Transactions",
+    "analytics.presets.month": "This month vs last month",
+    "analytics.presets.quarter": "This quarter vs same quarter last year",
+    "analytics.presets.year": "This year vs last year",
+    "analytics.presets.last30": "Last 30 days vs the 30 before",
+    "analytics.presets.custom": "Custom periods",
+    "analytics.dimensions.category": "Category",
+    "analytics.dimensions.tag": "Tag",
+    "analytics.dimensions.account": "Account",
+    "analytics.dimensions.merchant": "Merchant",
+    "analytics.types.expense": "Expenses",
+    "analytics.types.income": "Income",
+    "analytics.currentStart": "Period from",
+    "analytics.currentEnd": "Period to",
+    "analytics.previousStart": "Compared with, from",
+    "analytics.previousEnd": "Compared with, to",
+    "analytics.invalidRange": "Each period needs a start date on or before its end date",
+    "analytics.current": "This period",
+    "analytics.previous": "Compared period",
+    "analytics.change": "Change",
+    "analytics.new": "New",
+    "analytics.byGroup": "Periods side by side",
+    "analytics.breakdown": "Breakdown",
+    "analytics.noData": "No transactions in either period",
+    "analytics.noTransactions": "No transactions",
+    "analytics.none.category": "Uncategorized",
+    "analytics.none.tag": "Untagged",
+    "analytics.none.account": "No account",
+    "analytics.none.merchant": "No description",
+    "budgets.rolloverModes.none": "Start fresh",
+    "budgets.rolloverModes.surplus": "Carry unspent",
+    "budgets.rolloverModes.surplus_and_deficit": "Carry unspent and overspent",
+    "budgets.status.on_track": "On track",
+    "budgets.status.at_risk": "At risk",
+    "budgets.status.over_budget": "Over budget",
     
     // Settings
     "settings.title": "Settings",
@@ -59,6 +268,9 @@ const translations = {
     "settings.language": "Language",
     "settings.currency": "Currency",
     "settings.timezone": "Timezone",
+    "settings.monthStartDay": "Financial month starts on day",
+    "settings.monthStartDayHint": "Set it to your payday to budget from one paycheck to the next",
+    "settings.weekStartDay": "First day of the week",
     "settings.theme": "Theme",
     
     // Auth
@@ -81,6 +293,7 @@ const translations = {
     // Navigation
     "nav.dashboard": "Dashboard",
     "nav.expenses": "Spese",
+    "nav.accounts": "Conti",
     "nav.budgets": "Budget",
     "nav.analytics": "Analisi",
     "nav.goals": "Obiettivi",
@@ -107,6 +320,214 @@ const translations = {
     "expenses.mood": "Umore",
     "expenses.rating": "Valutazione",
     "expenses.tags": "Tag",
+    "expenses.split": "Dividi tra categorie",
+    "expenses.splitStart": "Dividi",
+    "expenses.splitClear": "Rimuovi divisione",
+    "expenses.splitAdd": "Aggiungi quota",
+    "expenses.splitNotes": "Note",
+    "expenses.splitRemaining": "Da assegnare",
+    "expenses.transfer": "Trasferimento",
+    "expenses.fromAccount": "Dal conto",
+    "expenses.toAccount": "Al conto",
+    
+    // Import
+    "import.button": "Importa",
+    "import.title": "Importa Estratto Conto",
+    "import.file": "File estratto conto (CSV, OFX, QFX, QIF)",
+    "import.savedMapping": "Mappatura colonne",
+    "import.detectColumns": "Rileva colonne automaticamente",
+    "import.dateFormat": "Formato data",
+    "import.decimalSeparator": "Formato numeri",
+    "import.delimiter": "Separatore",
+    "import.preview": "Anteprima",
+    "import.saveMappingAs": "Salva questa mappatura come",
+    "import.validRows": "pronte per l'importazione",
+    "import.invalidRows": "con errori (saltate)",
+    "import.importRows": "Importa",
+    
+    // Duplicates
+    "duplicates.title": "Possibili duplicati",
+    "duplicates.possible": "Possibile duplicato",
+    "duplicates.merge": "Unisci",
+    "duplicates.dismiss": "Non è un duplicato",
+    "duplicates.warningTitle": "Possibile duplicato",
+    "duplicates.warningDescription": "Sembra uguale a",
+    
+    // Conti
+    "accounts.title": "Conti",
+    "accounts.subtitle": "Saldi di conti bancari, carte e contanti",
+    "accounts.addNew": "Nuovo Conto",
+    "accounts.edit": "Modifica Conto",
+    "accounts.name": "Nome",
+    "accounts.type": "Tipo",
+    "accounts.openingBalance": "Saldo iniziale",
+    "accounts.archived": "Archiviato",
+    "accounts.showArchived": "Mostra archiviati",
+    "accounts.hideArchived": "Nascondi archiviati",
+    "accounts.none": "Nessun conto",
+    "accounts.ledger": "Saldo progressivo",
+    "accounts.noTransactions": "Nessuna transazione su questo conto",
+    "accounts.all": "Tutti i Conti",
+    "accounts.unassigned": "Nessun conto",
+    "accounts.types.checking": "Conto corrente",
+    "accounts.types.savings": "Risparmio",
+    "accounts.types.credit_card": "Carta di credito",
+    "accounts.types.cash": "Contanti",
+    "accounts.types.investment": "Investimenti",
+    "accounts.types.other": "Altro",
+    
+    // Transazioni ricorrenti
+    "recurring.upcoming": "In Arrivo",
+    "recurring.addNew": "Nuova Transazione Ricorrente",
+    "recurring.add": "Aggiungi ricorrente",
+    "recurring.none": "Nessuna transazione ricorrente in arrivo",
+    "recurring.type": "Tipo",
+    "recurring.cadence": "Si ripete",
+    "recurring.every": "Ogni",
+    "recurring.daily": "Giornaliera",
+    "recurring.weekly": "Settimanale",
+    "recurring.monthly": "Mensile",
+    "recurring.yearly": "Annuale",
+    "recurring.custom": "Personalizzata (RRULE)",
+    "recurring.startDate": "Data di inizio",
+    "recurring.endDate": "Data di fine (opzionale)",
+    
+    // Budgets
+    "budgets.title": "Budget",
+    "budgets.subtitle": "Limiti di spesa per categoria e periodo",
+    "budgets.addNew": "Nuovo budget",
+    "budgets.edit": "Modifica budget",
+    "budgets.name": "Nome",
+    "budgets.category": "Categoria",
+    "budgets.allCategories": "Tutte le categorie",
+    "budgets.amount": "Importo",
+    "budgets.period": "Periodo",
+    "budgets.startDate": "Data di inizio",
+    "budgets.endDate": "Data di fine (opzionale)",
+    "budgets.none": "Nessun budget",
+    "budgets.archived": "Archiviato",
+    "budgets.showArchived": "Mostra archiviati",
+    "budgets.hideArchived": "Nascondi archiviati",
+    "budgets.today": "Oggi",
+    "budgets.budgeted": "Previsto",
+    "budgets.spent": "Speso",
+    "budgets.remaining": "Rimanente",
+    "budgets.overspent": "Sforato",
+    "budgets.dailyPace": "Media giornaliera",
+    "budgets.dailyAllowance": "Disponibile al giorno",
+    "budgets.projected": "Proiezione",
+    "budgets.carriedIn": "Riporto",
+    "budgets.rollover": "Riporto",
+    "budgets.rolloverCap": "Limite riporto",
+    "budgets.noCap": "Nessun limite",
+    "budgets.alertThresholds": "Avvisa al (% usato)",
+    "budgets.alertThresholdsHint": "Percentuali separate da virgole; lascia vuoto per nessun avviso",
+    "budgets.zeroBased.enable": "Usa il budget a base zero",
+    "budgets.zeroBased.disable": "Usa il budget standard",
+    "budgets.zeroBased.title": "Assegna ogni unità di entrata",
+    "budgets.zeroBased.toBeAssigned": "Da assegnare",
+    "budgets.zeroBased.overAssigned": "Assegnato oltre le entrate",
+    "budgets.zeroBased.income": "Entrate del mese",
+    "budgets.zeroBased.assigned": "Assegnato",
+    "budgets.zeroBased.available": "Disponibile",
+    "budgets.zeroBased.target": "Obiettivo",
+    "budgets.zeroBased.status.funded": "Coperto",
+    "budgets.zeroBased.status.underfunded": "Sottofinanziato",
+    "budgets.zeroBased.status.overspent": "Sforato",
+    "goals.title": "Obiettivi",
+    "goals.subtitle": "Risparmia per ciò che conta e guarda i tuoi progressi",
+    "goals.addNew": "Nuovo obiettivo",
+    "goals.edit": "Modifica obiettivo",
+    "goals.name": "Nome",
+    "goals.target": "Importo obiettivo",
+    "goals.startingAmount": "Già risparmiato",
+    "goals.deadline": "Data obiettivo (opzionale)",
+    "goals.by": "Entro il",
+    "goals.noDeadline": "Nessuna scadenza",
+    "goals.reached": "Raggiunto",
+    "goals.none": "Nessun obiettivo",
+    "goals.addContribution": "Versa",
+    "goals.direction": "Tipo",
+    "goals.deposit": "Versamento",
+    "goals.withdrawal": "Prelievo",
+    "goals.date": "Data",
+    "goals.note": "Nota (opzionale)",
+    "goals.saved": "Risparmiato",
+    "goals.contributed": "Versato",
+    "goals.savedOverTime": "Risparmio nel tempo",
+    "goals.monthlyContributions": "Versamenti netti per mese",
+    "goals.contributions": "Versamenti",
+    "goals.noContributions": "Nessun versamento",
+    "goals.linked": "Collegato a una transazione",
+    "goals.requiredMonthly": "Necessario al mese",
+    "goals.averageMonthly": "Risparmio al mese",
+    "goals.estimatedCompletion": "raggiunto entro il",
+    "goals.noEstimate": "non raggiunto a questo ritmo",
+    "goals.status.completed": "Completato",
+    "goals.status.on_track": "In linea",
+    "goals.status.behind": "In ritardo",
+    "goals.status.overdue": "Scaduto",
+    "goals.status.no_deadline": "Senza scadenza",
+    "goals.rules.title": "Risparmio automatico",
+    "goals.rules.add": "Aggiungi regola",
+    "goals.rules.edit": "Modifica regola di risparmio",
+    "goals.rules.none": "Nessuna regola di risparmio",
+    "goals.rules.goal": "Obiettivo",
+    "goals.rules.type": "Regola",
+    "goals.rules.types.round_up": "Arrotonda le spese",
+    "goals.rules.types.income_percent": "Quota delle entrate",
+    "goals.rules.types.scheduled": "Importo fisso programmato",
+    "goals.rules.percentage": "Percentuale di ogni entrata",
+    "goals.rules.ofIncome": "delle entrate",
+    "goals.rules.frequency": "Frequenza",
+    "goals.rules.frequencies.weekly": "Settimanale",
+    "goals.rules.frequencies.monthly": "Mensile",
+    "goals.rules.startDate": "Primo versamento",
+    "goals.rules.account": "Conto",
+    "goals.rules.allAccounts": "Tutti i conti",
+    "goals.rules.perMonth": "al mese",
+    "goals.rules.monthlyTotal": "Previsto al mese",
+    "goals.rules.matchedRecently": "transazioni corrispondenti negli ultimi 3 mesi",
+    "goals.rules.automatic": "Aggiunto da una regola di risparmio",
+    "analytics.title": "Analisi",
+    "analytics.subtitle": "Confronta due periodi qualsiasi e scopri cosa è cambiato",
+    "analytics.compare": "Confronta",
+    "analytics.groupBy": "Raggruppa per",
+    "analytics.type": "Transazioni",
+    "analytics.presets.month": "Questo mese e il mese scorso",
+    "analytics.presets.quarter": "Questo trimestre e lo stesso dell'anno scorso",
+    "analytics.presets.year": "Quest'anno e l'anno scorso",
+    "analytics.presets.last30": "Ultimi 30 giorni e i 30 precedenti",
+    "analytics.presets.custom": "Periodi personalizzati",
+    "analytics.dimensions.category": "Categoria",
+    "analytics.dimensions.tag": "Tag",
+    "analytics.dimensions.account": "Conto",
+    "analytics.dimensions.merchant": "Esercente",
+    "analytics.types.expense": "Spese",
+    "analytics.types.income": "Entrate",
+    "analytics.currentStart": "Periodo dal",
+    "analytics.currentEnd": "Periodo al",
+    "analytics.previousStart": "Confrontato con, dal",
+    "analytics.previousEnd": "Confrontato con, al",
+    "analytics.invalidRange": "Ogni periodo deve iniziare prima della sua fine",
+    "analytics.current": "Questo periodo",
+    "analytics.previous": "Periodo di confronto",
+    "analytics.change": "Variazione",
+    "analytics.new": "Nuovo",
+    "analytics.byGroup": "Periodi a confronto",
+    "analytics.breakdown": "Dettaglio",
+    "analytics.noData": "Nessuna transazione in entrambi i periodi",
+    "analytics.noTransactions": "Nessuna transazione",
+    "analytics.none.category": "Senza categoria",
+    "analytics.none.tag": "Senza tag",
+    "analytics.none.account": "Nessun conto",
+    "analytics.none.merchant": "Senza descrizione",
+    "budgets.rolloverModes.none": "Riparti da zero",
+    "budgets.rolloverModes.surplus": "Riporta il non speso",
+    "budgets.rolloverModes.surplus_and_deficit": "Riporta avanzi e sforamenti",
+    "budgets.status.on_track": "In linea",
+    "budgets.status.at_risk": "A rischio",
+    "budgets.status.over_budget": "Superato",
     
     // Settings
     "settings.title": "Impostazioni",
@@ -118,6 +539,9 @@ const translations = {
     "settings.language": "Lingua",
     "settings.currency": "Valuta",
     "settings.timezone": "Fuso Orario",
+    "settings.monthStartDay": "Il mese finanziario inizia il giorno",
+    "settings.monthStartDayHint": "Impostalo sul giorno di paga per pianificare da uno stipendio al successivo",
+    "settings.weekStartDay": "Primo giorno della settimana",
     "settings.theme": "Tema",
     
     // Auth
@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  DEFAULT_FORMAT_SETTINGS,
+  LOCALES,
+  formatDate,
+  formatMoney,
+  formatNumber,
+  formatPercent,
+  formatRelativeTime,
+  type FormatSettings,
+} from "@/lib/format";
+import type { User } from "@shared/schema";
+
+// Formatters bound to the signed-in user's language, currency and timezone
+export function useFormatters() {
+  const { language } = useLanguage();
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  const currency = user?.currency || DEFAULT_FORMAT_SETTINGS.currency;
+  const timeZone = user?.timezone || DEFAULT_FORMAT_SETTINGS.timeZone;
+
+  return useMemo(() => {
+    const settings: FormatSettings = {
+      locale: LOCALES[language] ?? DEFAULT_FORMAT_SETTINGS.locale,
+      currency,
+      timeZone,
+    };
+
+    return {
+      ...settings,
+      formatMoney: (amount: Parameters<typeof formatMoney>[0], options?: Parameters<typeof formatMoney>[2]) =>
+        formatMoney(amount, settings, options),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, settings, options),
+      formatPercent: (value: number, options?: Parameters<typeof formatPercent>[2]) =>
+        formatPercent(value, settings, options),
+      formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) =>
+        formatDate(value, settings, options),
+      formatRelativeTime: (value: Date | string | number, now?: Date) => formatRelativeTime(value, settings, now),
+    };
+  }, [language, currency, timeZone]);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { formatDate, formatMoney, formatPercent, formatRelativeTime, type FormatSettings } from "./format";
+
+const en: FormatSettings = { locale: "en-US", currency: "USD", timeZone: "America/New_York" };
+const italian: FormatSettings = { locale: "it-IT", currency: "EUR", timeZone: "Europe/Rome" };
+
+describe("formatMoney", () => {
+  it("uses the user's locale and currency", () => {
+    expect(formatMoney(1234.5, en)).toBe("$1,234.50");
+    expect(formatMoney("1234.5", italian)).toBe("1234,50 €");
+  });
+
+  it("puts the sign in front and honours another currency", () => {
+    expect(formatMoney(-5, en, { currency: "JPY" })).toBe("-¥5");
+    expect(formatMoney(5, en, { signed: true })).toBe("+$5.00");
+  });
+
+  it("formats API amounts in their own currency", () => {
+    expect(formatMoney({ amount: "-1500", currency: "JPY" }, en)).toBe("-¥1,500");
+  });
+});
+
+describe("formatPercent", () => {
+  it("takes percentage points", () => {
+    expect(formatPercent(12.5, en, { fractionDigits: 1 })).toBe("12.5%");
+    expect(formatPercent(-3, italian, { signed: true })).toBe("-3%");
+  });
+});
+
+describe("formatDate", () => {
+  it("shows the day in the user's time zone", () => {
+    expect(formatDate("2026-10-01T02:00:00Z", en)).toBe("Sep 30, 2026");
+    expect(formatDate("2026-10-01T02:00:00Z", italian)).toBe("1 ott 2026");
+  });
+
+  it("falls back to UTC for unknown time zones and to empty text for invalid dates", () => {
+    expect(formatDate("2026-10-01T02:00:00Z", { ...en, timeZone: "Mars/Olympus" })).toBe("Oct 1, 2026");
+    expect(formatDate("not a date", en)).toBe("");
+  });
+});
+
+describe("formatRelativeTime", () => {
+  it("picks the largest fitting unit", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+
+    expect(formatRelativeTime("2026-10-18T12:00:00Z", en, now)).toBe("yesterday");
+    expect(formatRelativeTime("2026-10-22T12:00:00Z", en, now)).toBe("in 3 days");
+    expect(formatRelativeTime("2026-10-19T10:00:00Z", italian, now)).toBe("2 ore fa");
+  });
+});
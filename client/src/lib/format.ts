@@ -0,0 +1,100 @@
+import { formatMoney as formatCurrencyAmount } from "@shared/currencies";
+import { isMoneyJSON, type MoneyJSON } from "@shared/money";
+
+export interface FormatSettings {
+  locale: string;
+  currency: string;
+  timeZone: string;
+}
+
+export const LOCALES: Record<string, string> = {
+  en: "en-US",
+  it: "it-IT",
+};
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  locale: LOCALES.en,
+  currency: "USD",
+  timeZone: "UTC",
+};
+
+// Invalid or unknown time zones fall back to UTC rather than throwing inside render
+function safeTimeZone(timeZone: string): string {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+}
+
+function toDate(value: Date | string | number): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+// Plain numbers and decimal strings are in the user's currency unless `currency` says otherwise;
+// API amounts ({ amount, currency }) carry their own
+export function formatMoney(
+  amount: number | string | MoneyJSON,
+  settings: FormatSettings,
+  options: { currency?: string | null; signed?: boolean } = {},
+): string {
+  const currency = isMoneyJSON(amount) ? amount.currency : options.currency || settings.currency;
+  const value = Number(isMoneyJSON(amount) ? amount.amount : amount) || 0;
+  const formatted = formatCurrencyAmount(Math.abs(value), currency, settings.locale);
+  if (value < 0) return `-${formatted}`;
+  return options.signed && value > 0 ? `+${formatted}` : formatted;
+}
+
+export function formatNumber(value: number, settings: FormatSettings, options: Intl.NumberFormatOptions = {}): string {
+  return new Intl.NumberFormat(settings.locale, options).format(value);
+}
+
+// `value` is in percentage points, e.g. 12.5 for 12.5%
+export function formatPercent(
+  value: number,
+  settings: FormatSettings,
+  options: { signed?: boolean; fractionDigits?: number } = {},
+): string {
+  const fractionDigits = options.fractionDigits ?? 0;
+  return new Intl.NumberFormat(settings.locale, {
+    style: "percent",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    signDisplay: options.signed ? "exceptZero" : "auto",
+  }).format((Number(value) || 0) / 100);
+}
+
+export function formatDate(
+  value: Date | string | number,
+  settings: FormatSettings,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" },
+): string {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return "";
+  return new Intl.DateTimeFormat(settings.locale, { ...options, timeZone: safeTimeZone(settings.timeZone) }).format(date);
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+  ["second", 1],
+];
+
+// "yesterday", "in 3 days", "2 hours ago" in the user's language
+export function formatRelativeTime(
+  value: Date | string | number,
+  settings: FormatSettings,
+  now: Date = new Date(),
+): string {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return "";
+
+  const seconds = (date.getTime() - now.getTime()) / 1000;
+  const [unit, unitSeconds] = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+  return new Intl.RelativeTimeFormat(settings.locale, { numeric: "auto" }).format(Math.round(seconds / unitSeconds), unit);
+}
@@ -8,7 +8,7 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
-function getAuthHeaders() {
+function getAuthHeaders(): Record<string, string> {
   const token = localStorage.getItem('authToken');
   return token ? { 'Authorization': `Bearer ${token}` } : {};
 }
@@ -33,6 +33,20 @@ export async function apiRequest(
   return res;
 }
 
+export async function apiUpload(
+  url: string,
+  data: FormData,
+): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: data,
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
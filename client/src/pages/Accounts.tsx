@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
+import { apiRequest } from "@/lib/queryClient";
+import { AccountModal } from "@/components/AccountModal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Archive, ArchiveRestore, Banknote, CreditCard, Edit, Landmark, LineChart, PiggyBank, Plus, Wallet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Account, Expense } from "@shared/schema";
+import type { MoneyJSON } from "@shared/money";
+
+type AccountWithBalance = Account & { balance: MoneyJSON; transactionCount: number };
+type LedgerEntry = Expense & { runningBalance: MoneyJSON };
+
+const isInflow = (entry: Expense) => entry.type === "income" || entry.transferDirection === "in";
+
+const ACCOUNT_ICONS: Record<string, typeof Wallet> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Banknote,
+  investment: LineChart,
+  other: Wallet,
+};
+
+export default function Accounts() {
+  const { t } = useLanguage();
+  const { formatMoney, formatDate } = useFormatters();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const { data: accounts, isLoading } = useQuery<AccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: ledger } = useQuery<LedgerEntry[]>({
+    queryKey: ["/api/accounts", selectedAccountId, "ledger"],
+    enabled: !!selectedAccountId,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (account: Account) => {
+      await apiRequest("PATCH", `/api/accounts/${account.id}`, { isArchived: !account.isArchived });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    },
+    onError: (error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleAccounts = accounts?.filter(account => showArchived || !account.isArchived) || [];
+  const selectedAccount = accounts?.find(account => account.id === selectedAccountId);
+  const hasArchived = accounts?.some(account => account.isArchived);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-accounts-title">
+            {t("accounts.title")}
+          </h1>
+          <p className="text-muted-foreground" data-testid="text-accounts-subtitle">
+            {t("accounts.subtitle")}
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-4">
+          {hasArchived && (
+            <Button
+              variant="outline"
+              onClick={() => setShowArchived(!showArchived)}
+              data-testid="button-toggle-archived"
+            >
+              {showArchived ? t("accounts.hideArchived") : t("accounts.showArchived")}
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              setEditingAccount(null);
+              setModalOpen(true);
+            }}
+            className="flex items-center space-x-2"
+            data-testid="button-add-account"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t("accounts.addNew")}</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Account Cards */}
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">{t("common.loading")}</div>
+      ) : visibleAccounts.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {visibleAccounts.map((account) => {
+            const Icon = ACCOUNT_ICONS[account.type] || Wallet;
+            return (
+              <Card
+                key={account.id}
+                className={cn(
+                  "cursor-pointer transition-colors",
+                  selectedAccountId === account.id && "border-primary",
+                  account.isArchived && "opacity-60"
+                )}
+                onClick={() => setSelectedAccountId(account.id)}
+                data-testid={`card-account-${account.id}`}
+              >
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                        <Icon className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-foreground">{account.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {t(`accounts.types.${account.type}`)} · {account.currency}
+                        </p>
+                      </div>
+                    </div>
+                    {account.isArchived && <Badge variant="secondary">{t("accounts.archived")}</Badge>}
+                  </div>
+                  <p
+                    className={cn("text-2xl font-bold mt-4", Number(account.balance.amount) < 0 ? "text-destructive" : "text-foreground")}
+                    data-testid={`text-account-balance-${account.id}`}
+                  >
+                    {formatMoney(account.balance)}
+                  </p>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-sm text-muted-foreground">
+                      {account.transactionCount} {account.transactionCount === 1 ? 'transaction' : 'transactions'}
+                    </span>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingAccount(account);
+                          setModalOpen(true);
+                        }}
+                        data-testid={`button-edit-account-${account.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          archiveMutation.mutate(account);
+                        }}
+                        disabled={archiveMutation.isPending}
+                        data-testid={`button-archive-account-${account.id}`}
+                      >
+                        {account.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="text-muted-foreground mb-4">{t("accounts.none")}</div>
+            <Button onClick={() => setModalOpen(true)} data-testid="button-add-first-account">
+              {t("accounts.addNew")}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Running Balance */}
+      {selectedAccount && (
+        <Card data-testid="card-account-ledger">
+          <CardHeader>
+            <CardTitle>{selectedAccount.name} · {t("accounts.ledger")}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {ledger && ledger.length > 0 ? (
+              <div className="divide-y divide-border">
+                {ledger.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between px-6 py-3"
+                    data-testid={`ledger-entry-${entry.id}`}
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">{entry.description}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(entry.date)} · {t(`categories.${entry.category}`)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={cn("font-semibold", isInflow(entry) ? "text-success" : "text-destructive")}>
+                        {formatMoney(isInflow(entry) ? entry.amount : -Number(entry.amount), { currency: selectedAccount.currency, signed: true })}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatMoney(entry.runningBalance)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center text-muted-foreground py-8">
+                {t("accounts.noTransactions")}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AccountModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingAccount(null);
+        }}
+        account={editingAccount}
+      />
+    </div>
+  );
+}
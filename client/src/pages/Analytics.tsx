@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useFormatters } from "@/hooks/useFormatters";
+import { DashboardWidget } from "@/components/DashboardWidget";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowDownRight, ArrowUpRight, CalendarRange, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Expense } from "@shared/schema";
+import type { MoneyJSON } from "@shared/money";
+
+type Dimension = "category" | "tag" | "account" | "merchant";
+type TransactionType = "expense" | "income";
+type Preset = "month" | "quarter" | "year" | "last30" | "custom";
+
+interface PeriodTotals {
+  start: string;
+  end: string;
+  total: MoneyJSON;
+  count: number;
+}
+
+interface ComparisonGroup {
+  key: string;
+  label: string;
+  current: MoneyJSON;
+  previous: MoneyJSON;
+  change: MoneyJSON;
+  percentChange: number | null;
+  currentCount: number;
+  previousCount: number;
+}
+
+interface PeriodComparison {
+  dimension: Dimension;
+  type: TransactionType;
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  change: MoneyJSON;
+  percentChange: number | null;
+  groups: ComparisonGroup[];
+}
+
+interface GroupTransaction {
+  expense: Expense;
+  amount: MoneyJSON;
+}
+
+interface Range {
+  start: Date;
+  end: Date;
+}
+
+const CHART_GROUPS = 8;
+
+const endOfDay = (year: number, month: number, day: number) => new Date(year, month, day, 23, 59, 59, 999);
+
+// Whole calendar periods in local time; "last30" ends today
+function presetRanges(preset: Exclude<Preset, "custom">, today: Date = new Date()): { current: Range; previous: Range } {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const day = today.getDate();
+
+  switch (preset) {
+    case "month":
+      return {
+        current: { start: new Date(year, month, 1), end: endOfDay(year, month + 1, 0) },
+        previous: { start: new Date(year, month - 1, 1), end: endOfDay(year, month, 0) },
+      };
+    case "quarter": {
+      const first = Math.floor(month / 3) * 3;
+      return {
+        current: { start: new Date(year, first, 1), end: endOfDay(year, first + 3, 0) },
+        previous: { start: new Date(year - 1, first, 1), end: endOfDay(year - 1, first + 3, 0) },
+      };
+    }
+    case "year":
+      return {
+        current: { start: new Date(year, 0, 1), end: endOfDay(year, 11, 31) },
+        previous: { start: new Date(year - 1, 0, 1), end: endOfDay(year - 1, 11, 31) },
+      };
+    case "last30":
+      return {
+        current: { start: new Date(year, month, day - 29), end: endOfDay(year, month, day) },
+        previous: { start: new Date(year, month, day - 59), end: endOfDay(year, month, day - 30) },
+      };
+  }
+}
+
+const toDateInput = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+const fromDateInputs = (start: string, end: string): Range | null =>
+  start && end ? { start: new Date(`${start}T00:00:00`), end: new Date(`${end}T23:59:59.999`) } : null;
+
+export default function Analytics() {
+  const { t } = useLanguage();
+  const { formatMoney, formatDate, formatPercent } = useFormatters();
+  const [preset, setPreset] = useState<Preset>("month");
+  const [dimension, setDimension] = useState<Dimension>("category");
+  const [type, setType] = useState<TransactionType>("expense");
+  const [custom, setCustom] = useState(() => {
+    const { current, previous } = presetRanges("month");
+    return {
+      currentStart: toDateInput(current.start),
+      currentEnd: toDateInput(current.end),
+      previousStart: toDateInput(previous.start),
+      previousEnd: toDateInput(previous.end),
+    };
+  });
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const ranges = preset === "custom"
+    ? { current: fromDateInputs(custom.currentStart, custom.currentEnd), previous: fromDateInputs(custom.previousStart, custom.previousEnd) }
+    : presetRanges(preset);
+  const valid = !!ranges.current && !!ranges.previous
+    && ranges.current.start <= ranges.current.end && ranges.previous.start <= ranges.previous.end;
+
+  const params = valid
+    ? new URLSearchParams({
+        currentStart: ranges.current!.start.toISOString(),
+        currentEnd: ranges.current!.end.toISOString(),
+        previousStart: ranges.previous!.start.toISOString(),
+        previousEnd: ranges.previous!.end.toISOString(),
+        dimension,
+        type,
+      }).toString()
+    : "";
+
+  const { data: comparison, isLoading } = useQuery<PeriodComparison>({
+    queryKey: ["/api/analytics", `compare?${params}`],
+    enabled: valid,
+  });
+
+  const drillDownParams = (range: Range | null) => new URLSearchParams({
+    start: range?.start.toISOString() ?? "",
+    end: range?.end.toISOString() ?? "",
+    dimension,
+    key: selectedKey ?? "",
+    type,
+  }).toString();
+
+  const { data: currentTransactions } = useQuery<GroupTransaction[]>({
+    queryKey: ["/api/analytics", `transactions?${drillDownParams(ranges.current)}`],
+    enabled: valid && selectedKey !== null,
+  });
+
+  const { data: previousTransactions } = useQuery<GroupTransaction[]>({
+    queryKey: ["/api/analytics", `transactions?${drillDownParams(ranges.previous)}`],
+    enabled: valid && selectedKey !== null,
+  });
+
+  const groupLabel = (group: Pick<ComparisonGroup, "key" | "label">) => {
+    if (!group.key) return t(`analytics.none.${dimension}`);
+    return dimension === "category" ? t(`categories.${group.key}`) : group.label;
+  };
+
+  // More spending is bad news, more income good news
+  const changeTone = (change: MoneyJSON) => {
+    const amount = Number(change.amount);
+    if (amount === 0) return "text-muted-foreground";
+    return (amount > 0) === (type === "income") ? "text-success" : "text-destructive";
+  };
+
+  const formatRange = (range: { start: string | Date; end: string | Date }) =>
+    `${formatDate(range.start, { dateStyle: "medium" })} – ${formatDate(range.end, { dateStyle: "medium" })}`;
+
+  const changeWidgetTrend = !comparison || Number(comparison.change.amount) === 0
+    ? "neutral"
+    : (Number(comparison.change.amount) > 0) === (type === "income") ? "positive" : "negative";
+
+  const chartData = (comparison?.groups || []).slice(0, CHART_GROUPS).map(group => ({
+    name: groupLabel(group),
+    current: Number(group.current.amount),
+    previous: Number(group.previous.amount),
+  }));
+
+  const chartConfig: ChartConfig = {
+    current: { label: t("analytics.current"), color: "var(--primary)" },
+    previous: { label: t("analytics.previous"), color: "var(--muted-foreground)" },
+  };
+
+  const selectedGroup = comparison?.groups.find(group => group.key === selectedKey);
+
+  const renderTransactions = (transactions: GroupTransaction[] | undefined, testId: string) =>
+    transactions && transactions.length > 0 ? (
+      <div className="divide-y divide-border" data-testid={testId}>
+        {transactions.map(({ expense, amount }) => (
+          <div key={expense.id} className="flex items-center justify-between py-2" data-testid={`analytics-transaction-${expense.id}`}>
+            <div>
+              <p className="font-medium text-foreground">{expense.description}</p>
+              <p className="text-sm text-muted-foreground">
+                {formatDate(expense.date)} · {t(`categories.${expense.category}`)}
+              </p>
+            </div>
+            <span className="font-semibold text-foreground">{formatMoney(amount)}</span>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="text-center text-muted-foreground py-6">{t("analytics.noTransactions")}</div>
+    );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground" data-testid="text-analytics-title">
+          {t("analytics.title")}
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-analytics-subtitle">
+          {t("analytics.subtitle")}
+        </p>
+      </div>
+
+      {/* Controls */}
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>{t("analytics.compare")}</Label>
+              <Select value={preset} onValueChange={(value) => { setPreset(value as Preset); setSelectedKey(null); }}>
+                <SelectTrigger data-testid="select-analytics-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(["month", "quarter", "year", "last30", "custom"] as Preset[]).map((item) => (
+                    <SelectItem key={item} value={item}>{t(`analytics.presets.${item}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t("analytics.groupBy")}</Label>
+              <Select value={dimension} onValueChange={(value) => { setDimension(value as Dimension); setSelectedKey(null); }}>
+                <SelectTrigger data-testid="select-analytics-dimension">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(["category", "tag", "account", "merchant"] as Dimension[]).map((item) => (
+                    <SelectItem key={item} value={item}>{t(`analytics.dimensions.${item}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t("analytics.type")}</Label>
+              <Select value={type} onValueChange={(value) => { setType(value as TransactionType); setSelectedKey(null); }}>
+                <SelectTrigger data-testid="select-analytics-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">{t("analytics.types.expense")}</SelectItem>
+                  <SelectItem value="income">{t("analytics.types.income")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {preset === "custom" && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(["currentStart", "currentEnd", "previousStart", "previousEnd"] as const).map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`analytics-${field}`}>{t(`analytics.${field}`)}</Label>
+                  <Input
+                    id={`analytics-${field}`}
+                    type="date"
+                    value={custom[field]}
+                    onChange={(e) => { setCustom({ ...custom, [field]: e.target.value }); setSelectedKey(null); }}
+                    data-testid={`input-analytics-${field}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {!valid && <p className="text-sm text-destructive">{t("analytics.invalidRange")}</p>}
+        </CardContent>
+      </Card>
+
+      {isLoading || !comparison ? (
+        valid && <div className="h-48 bg-muted rounded-lg animate-pulse" />
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <DashboardWidget
+              title={t("analytics.current")}
+              value={formatMoney(comparison.current.total)}
+              icon={CalendarRange}
+              change={comparison.percentChange !== null ? { value: comparison.percentChange, label: formatRange(comparison.current) } : undefined}
+              trend={changeWidgetTrend}
+            >
+              {comparison.percentChange === null && <p className="text-sm text-muted-foreground mt-1">{formatRange(comparison.current)}</p>}
+            </DashboardWidget>
+            <DashboardWidget title={t("analytics.previous")} value={formatMoney(comparison.previous.total)} icon={History}>
+              <p className="text-sm text-muted-foreground mt-1">{formatRange(comparison.previous)}</p>
+            </DashboardWidget>
+            <DashboardWidget
+              title={t("analytics.change")}
+              value={formatMoney(comparison.change, { signed: true })}
+              icon={Number(comparison.change.amount) > 0 ? ArrowUpRight : ArrowDownRight}
+              trend={changeWidgetTrend}
+            />
+          </div>
+
+          {/* Chart */}
+          {chartData.length > 0 && (
+            <Card data-testid="card-analytics-chart">
+              <CardHeader>
+                <CardTitle>{t("analytics.byGroup")} · {t(`analytics.dimensions.${dimension}`)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-72 w-full">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={60} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatMoney(Number(value))} />} />
+                    <Bar dataKey="previous" fill="var(--color-previous)" radius={4} />
+                    <Bar dataKey="current" fill="var(--color-current)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Comparison Table */}
+          <Card data-testid="card-analytics-table">
+            <CardHeader>
+              <CardTitle>{t("analytics.breakdown")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {comparison.groups.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b border-border">
+                        <th className="py-2 font-medium">{t(`analytics.dimensions.${dimension}`)}</th>
+                        <th className="py-2 font-medium text-right">{t("analytics.previous")}</th>
+                        <th className="py-2 font-medium text-right">{t("analytics.current")}</th>
+                        <th className="py-2 font-medium text-right">{t("analytics.change")}</th>
+                        <th className="py-2 font-medium text-right">%</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.groups.map((group) => (
+                        <tr
+                          key={group.key}
+                          className={cn(
+                            "border-b border-border last:border-0 cursor-pointer hover:bg-muted/50",
+                            selectedKey === group.key && "bg-muted",
+                          )}
+                          onClick={() => setSelectedKey(selectedKey === group.key ? null : group.key)}
+                          data-testid={`row-analytics-group-${group.key || "none"}`}
+                        >
+                          <td className="py-2 text-foreground">{groupLabel(group)}</td>
+                          <td className="py-2 text-right text-muted-foreground">{formatMoney(group.previous)}</td>
+                          <td className="py-2 text-right text-foreground">{formatMoney(group.current)}</td>
+                          <td className={cn("py-2 text-right font-medium", changeTone(group.change))}>
+                            {formatMoney(group.change, { signed: true })}
+                          </td>
+                          <td className={cn("py-2 text-right", changeTone(group.change))}>
+                            {group.percentChange === null ? t("analytics.new") : formatPercent(group.percentChange, { signed: true, fractionDigits: 1 })}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">{t("analytics.noData")}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Drill-down */}
+          {selectedGroup && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card data-testid="card-analytics-current-transactions">
+                <CardHeader>
+                  <CardTitle>{groupLabel(selectedGroup)} · {t("analytics.current")}</CardTitle>
+                  <p className="text-sm text-muted-foreground">{formatRange(comparison.current)}</p>
+                </CardHeader>
+                <CardContent>{renderTransactions(currentTransactions, "list-analytics-current")}</CardContent>
+              </Card>
+              <Card data-testid="card-analytics-previous-transactions">
+                <CardHeader>
+                  <CardTitle>{groupLabel(selectedGroup)} · {t("analytics.previous")}</CardTitle>
+                  <p className="text-sm text-muted-foreground">{formatRange(comparison.previous)}</p>
+                </CardHeader>
+                <CardContent>{renderTransactions(previousTransactions, "list-analytics-previous")}</CardContent>
+              </Card>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
+import { apiRequest } from "@/lib/queryClient";
+import { BudgetModal } from "@/components/BudgetModal";
+import { ZeroBasedBudget } from "@/components/ZeroBasedBudget";
+import { calendarOf, dayKey, localDay, periodStart } from "@shared/periods";
+import { DashboardWidget } from "@/components/DashboardWidget";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Archive, ArchiveRestore, ChevronLeft, ChevronRight, Edit, PiggyBank, Plus, Trash2, TrendingDown, Wallet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Budget, User } from "@shared/schema";
+import type { MoneyJSON } from "@shared/money";
+
+type BudgetStatus = "on_track" | "at_risk" | "over_budget";
+
+interface BudgetProgress {
+  budgetId: string;
+  name: string;
+  category: string | null;
+  period: string;
+  periodStart: string;
+  periodEnd: string;
+  daysRemaining: number;
+  closed: boolean;
+  baseAmount: MoneyJSON;
+  carriedIn: MoneyJSON;
+  budgeted: MoneyJSON;
+  spent: MoneyJSON;
+  remaining: MoneyJSON;
+  percentUsed: number;
+  dailyPace: MoneyJSON;
+  dailyAllowance: MoneyJSON;
+  projectedSpend: MoneyJSON;
+  status: BudgetStatus;
+}
+
+interface BudgetSummary {
+  budgeted: MoneyJSON;
+  spent: MoneyJSON;
+  remaining: MoneyJSON;
+  percentUsed: number;
+  budgets: BudgetProgress[];
+}
+
+const STATUS_STYLES: Record<BudgetStatus, string> = {
+  on_track: "bg-success/10 text-success",
+  at_risk: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  over_budget: "bg-destructive/10 text-destructive",
+};
+
+// The same day `offset` months from today, clamped to the end of shorter months
+function shiftMonths(offset: number): Date {
+  const today = new Date();
+  const lastDay = new Date(today.getFullYear(), today.getMonth() + offset + 1, 0).getDate();
+  return new Date(today.getFullYear(), today.getMonth() + offset, Math.min(today.getDate(), lastDay), 12);
+}
+
+export default function Budgets() {
+  const { t } = useLanguage();
+  const { formatMoney, formatDate, formatPercent } = useFormatters();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [monthOffset, setMonthOffset] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  // Zero-based months are financial months, named after the calendar month they start in
+  const viewDate = shiftMonths(monthOffset);
+  const { timeZone, ...cycles } = calendarOf(user);
+  const viewMonth = dayKey(periodStart(localDay(viewDate, timeZone), "month", cycles)).slice(0, 7);
+  const zeroBased = user?.budgetingMode === "zero_based";
+
+  const { data: budgets } = useQuery<Budget[]>({
+    queryKey: ["/api/budgets"],
+  });
+
+  // Periods are looked up for the viewed day, so every budget shows the period containing it
+  const { data: summary, isLoading } = useQuery<BudgetSummary>({
+    queryKey: ["/api/budgets", `summary?date=${encodeURIComponent(viewDate.toISOString())}`],
+  });
+
+  const invalidateBudgets = () => queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const modeMutation = useMutation({
+    mutationFn: async (budgetingMode: string) => {
+      await apiRequest("PATCH", "/api/auth/user", { budgetingMode });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: showError,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      await apiRequest("PATCH", `/api/budgets/${budget.id}`, { isActive: budget.isActive === false });
+    },
+    onSuccess: invalidateBudgets,
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/budgets/${id}`);
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+      toast({
+        title: t("common.success"),
+        description: "Budget deleted",
+      });
+    },
+    onError: showError,
+  });
+
+  const openEditor = (budget: Budget | null) => {
+    setEditingBudget(budget);
+    setModalOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this budget?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const findBudget = (id: string) => budgets?.find(budget => budget.id === id) || null;
+  const archivedBudgets = budgets?.filter(budget => budget.isActive === false) || [];
+  const progress = summary?.budgets || [];
+
+  const renderActions = (budget: Budget | null) => budget && (
+    <div className="flex space-x-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => openEditor(budget)}
+        data-testid={`button-edit-budget-${budget.id}`}
+      >
+        <Edit className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => archiveMutation.mutate(budget)}
+        disabled={archiveMutation.isPending}
+        data-testid={`button-archive-budget-${budget.id}`}
+      >
+        {budget.isActive === false ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => handleDelete(budget.id)}
+        disabled={deleteMutation.isPending}
+        data-testid={`button-delete-budget-${budget.id}`}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-budgets-title">
+            {t("budgets.title")}
+          </h1>
+          <p className="text-muted-foreground" data-testid="text-budgets-subtitle">
+            {t("budgets.subtitle")}
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => modeMutation.mutate(zeroBased ? "standard" : "zero_based")}
+            disabled={!user || modeMutation.isPending}
+            data-testid="button-toggle-budgeting-mode"
+          >
+            {zeroBased ? t("budgets.zeroBased.disable") : t("budgets.zeroBased.enable")}
+          </Button>
+          {archivedBudgets.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => setShowArchived(!showArchived)}
+              data-testid="button-toggle-archived-budgets"
+            >
+              {showArchived ? t("budgets.hideArchived") : t("budgets.showArchived")}
+            </Button>
+          )}
+          <Button
+            onClick={() => openEditor(null)}
+            className="flex items-center space-x-2"
+            data-testid="button-add-budget"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t("budgets.addNew")}</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Period Navigation */}
+      <div className="flex items-center justify-center space-x-4">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setMonthOffset(monthOffset - 1)}
+          data-testid="button-previous-period"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-lg font-semibold text-foreground min-w-40 text-center" data-testid="text-viewed-period">
+          {formatDate(viewDate, { month: "long", year: "numeric" })}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setMonthOffset(monthOffset + 1)}
+          data-testid="button-next-period"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        {monthOffset !== 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setMonthOffset(0)} data-testid="button-current-period">
+            {t("budgets.today")}
+          </Button>
+        )}
+      </div>
+
+      {zeroBased && <ZeroBasedBudget month={viewMonth} />}
+
+      {/* Totals */}
+      {summary && progress.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <DashboardWidget title={t("budgets.budgeted")} value={formatMoney(summary.budgeted)} icon={Wallet} />
+          <DashboardWidget
+            title={t("budgets.spent")}
+            value={formatMoney(summary.spent)}
+            icon={TrendingDown}
+            trend={summary.percentUsed > 100 ? "negative" : "neutral"}
+          />
+          <DashboardWidget
+            title={t("budgets.remaining")}
+            value={formatMoney(summary.remaining)}
+            icon={PiggyBank}
+            trend={Number(summary.remaining.amount) < 0 ? "negative" : "positive"}
+          />
+        </div>
+      )}
+
+      {/* Budget Cards */}
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">{t("common.loading")}</div>
+      ) : progress.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {progress.map((item) => {
+            const overspent = Number(item.remaining.amount) < 0;
+            return (
+              <Card key={item.budgetId} data-testid={`card-budget-${item.budgetId}`}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-semibold text-foreground">{item.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.category ? t(`categories.${item.category}`) : t("budgets.allCategories")} · {t(`recurring.${item.period}`)}
+                      </p>
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={cn("border-transparent", STATUS_STYLES[item.status])}
+                      data-testid={`badge-budget-status-${item.budgetId}`}
+                    >
+                      {t(`budgets.status.${item.status}`)}
+                    </Badge>
+                  </div>
+
+                  <div>
+                    <div className="flex items-baseline justify-between mb-2">
+                      <span className="text-2xl font-bold text-foreground" data-testid={`text-budget-spent-${item.budgetId}`}>
+                        {formatMoney(item.spent)}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        / {formatMoney(item.budgeted)} · {formatPercent(item.percentUsed)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={Math.min(100, item.percentUsed)}
+                      className={cn("h-2", overspent && "[&>div]:bg-destructive")}
+                      data-testid={`progress-budget-${item.budgetId}`}
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {formatDate(item.periodStart)} – {formatDate(item.periodEnd)}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <span className="text-muted-foreground">{overspent ? t("budgets.overspent") : t("budgets.remaining")}</span>
+                    <span
+                      className={cn("text-right font-medium", overspent ? "text-destructive" : "text-foreground")}
+                      data-testid={`text-budget-remaining-${item.budgetId}`}
+                    >
+                      {formatMoney(Math.abs(Number(item.remaining.amount)), { currency: item.remaining.currency })}
+                    </span>
+                    {Number(item.carriedIn.amount) !== 0 && (
+                      <>
+                        <span className="text-muted-foreground">{t("budgets.carriedIn")}</span>
+                        <span
+                          className={cn("text-right", Number(item.carriedIn.amount) < 0 ? "text-destructive" : "text-foreground")}
+                          data-testid={`text-budget-carried-in-${item.budgetId}`}
+                        >
+                          {formatMoney(item.carriedIn, { signed: true })}
+                        </span>
+                      </>
+                    )}
+                    <span className="text-muted-foreground">{t("budgets.dailyPace")}</span>
+                    <span className="text-right text-foreground">{formatMoney(item.dailyPace)}</span>
+                    {item.daysRemaining > 0 && !overspent && (
+                      <>
+                        <span className="text-muted-foreground">{t("budgets.dailyAllowance")}</span>
+                        <span className="text-right text-foreground">{formatMoney(item.dailyAllowance)}</span>
+                      </>
+                    )}
+                    {item.daysRemaining > 0 && (
+                      <>
+                        <span className="text-muted-foreground">{t("budgets.projected")}</span>
+                        <span className="text-right text-foreground">{formatMoney(item.projectedSpend)}</span>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="flex justify-end">
+                    {renderActions(findBudget(item.budgetId))}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="text-muted-foreground mb-4">{t("budgets.none")}</div>
+            <Button onClick={() => openEditor(null)} data-testid="button-add-first-budget">
+              {t("budgets.addNew")}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Archived Budgets */}
+      {showArchived && archivedBudgets.length > 0 && (
+        <Card data-testid="card-archived-budgets">
+          <CardHeader>
+            <CardTitle>{t("budgets.archived")}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="divide-y divide-border">
+              {archivedBudgets.map((budget) => (
+                <div
+                  key={budget.id}
+                  className="flex items-center justify-between px-6 py-3 opacity-60"
+                  data-testid={`archived-budget-${budget.id}`}
+                >
+                  <div>
+                    <p className="font-medium text-foreground">{budget.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatMoney(budget.amount)} · {t(`recurring.${budget.period}`)}
+                    </p>
+                  </div>
+                  {renderActions(budget)}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <BudgetModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingBudget(null);
+        }}
+        budget={editingBudget}
+      />
+    </div>
+  );
+}
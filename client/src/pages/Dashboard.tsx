@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useFormatters } from "@/hooks/useFormatters";
 import { DashboardWidget } from "@/components/DashboardWidget";
 import { ExpenseItem } from "@/components/ExpenseItem";
 import { AIAssistant } from "@/components/AIAssistant";
+import { UpcomingRecurring } from "@/components/UpcomingRecurring";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { 
   DollarSign, 
   TrendingDown, 
@@ -17,10 +20,32 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { Link } from "wouter";
-import type { Expense } from "@shared/schema";
+import type { Expense, Goal } from "@shared/schema";
+import type { MoneyJSON } from "@shared/money";
+
+type GoalStatus = "completed" | "on_track" | "behind" | "overdue" | "no_deadline";
+
+type GoalWithProjection = Goal & {
+  projection: {
+    remaining: MoneyJSON;
+    averageMonthlySaving: MoneyJSON;
+    estimatedCompletion: string | null;
+    requiredMonthly: MoneyJSON | null;
+    status: GoalStatus;
+  };
+};
+
+const GOAL_STATUS_STYLES: Record<GoalStatus, string> = {
+  completed: "bg-success/10 text-success",
+  on_track: "bg-success/10 text-success",
+  behind: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  overdue: "bg-destructive/10 text-destructive",
+  no_deadline: "bg-muted-foreground/10 text-muted-foreground",
+};
 
 export default function Dashboard() {
   const { t } = useLanguage();
+  const { formatMoney, formatPercent, formatDate } = useFormatters();
   const [aiAssistantOpen, setAiAssistantOpen] = useState(false);
   const [widgetVisibility, setWidgetVisibility] = useState({
     balance: true,
@@ -42,7 +67,7 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/category-breakdown"],
   });
 
-  const { data: goals } = useQuery({
+  const { data: goals } = useQuery<GoalWithProjection[]>({
     queryKey: ["/api/goals"],
   });
 
@@ -51,14 +76,7 @@ export default function Dashboard() {
   });
 
   const recentExpenses = expenses?.slice(0, 5) || [];
-  const activeGoals = goals?.slice(0, 3) || [];
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
+  const activeGoals = goals?.filter(goal => goal.projection.status !== "completed").slice(0, 3) || [];
 
   const toggleWidgetVisibility = (widget: keyof typeof widgetVisibility) => {
     setWidgetVisibility(prev => ({
@@ -106,7 +124,7 @@ export default function Dashboard() {
         {widgetVisibility.balance && (
           <DashboardWidget
             title={t("dashboard.totalBalance")}
-            value={formatCurrency(stats?.totalBalance || 0)}
+            value={formatMoney(stats?.totalBalance || 0)}
             icon={DollarSign}
             trend="positive"
             change={{
@@ -119,7 +137,7 @@ export default function Dashboard() {
         {widgetVisibility.expenses && (
           <DashboardWidget
             title={t("dashboard.thisMonthExpenses")}
-            value={formatCurrency(stats?.thisMonthExpenses || 0)}
+            value={formatMoney(stats?.thisMonthExpenses || 0)}
             icon={TrendingDown}
             trend="negative"
             change={{
@@ -132,7 +150,7 @@ export default function Dashboard() {
         {widgetVisibility.income && (
           <DashboardWidget
             title={t("dashboard.thisMonthIncome")}
-            value={formatCurrency(stats?.thisMonthIncome || 0)}
+            value={formatMoney(stats?.thisMonthIncome || 0)}
             icon={TrendingUp}
             trend="positive"
             change={{
@@ -145,7 +163,7 @@ export default function Dashboard() {
         {widgetVisibility.savings && (
           <DashboardWidget
             title={t("dashboard.savingsGoal")}
-            value={`${Math.round(stats?.savingsRate || 0)}%`}
+            value={formatPercent(stats?.savingsRate || 0)}
             icon={Target}
             trend="positive"
             change={{
@@ -192,10 +210,10 @@ export default function Dashboard() {
                   </div>
                   <div className="text-right">
                     <p className="font-semibold text-foreground">
-                      {formatCurrency(category.amount)}
+                      {formatMoney(category.amount)}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {Math.round(category.percentage)}%
+                      {formatPercent(category.percentage)}
                     </p>
                   </div>
                 </div>
@@ -244,39 +262,61 @@ export default function Dashboard() {
           </Card>
         </div>
 
-        {/* Active Goals */}
-        <Card>
-          <CardHeader>
-            <CardTitle>{t("dashboard.activeGoals")}</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {activeGoals.length > 0 ? (
-                activeGoals.map((goal: any) => {
-                  const progress = (Number(goal.currentAmount) / Number(goal.targetAmount)) * 100;
-                  return (
-                    <div key={goal.id} className="p-4 bg-muted rounded-lg">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="font-medium text-foreground">{goal.name}</span>
-                        <span className="text-sm text-muted-foreground">
-                          {Math.round(progress)}%
-                        </span>
+        <div className="space-y-6">
+          {/* Active Goals */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("dashboard.activeGoals")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {activeGoals.length > 0 ? (
+                  activeGoals.map((goal) => {
+                    const progress = (Number(goal.currentAmount) / Number(goal.targetAmount)) * 100;
+                    const { projection } = goal;
+                    return (
+                      <div key={goal.id} className="p-4 bg-muted rounded-lg" data-testid={`dashboard-goal-${goal.id}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-medium text-foreground">{goal.name}</span>
+                          <Badge
+                            variant="secondary"
+                            className={GOAL_STATUS_STYLES[projection.status]}
+                            data-testid={`badge-goal-status-${goal.id}`}
+                          >
+                            {t(`goals.status.${projection.status}`)}
+                          </Badge>
+                        </div>
+                        <Progress value={Math.min(100, Math.max(0, progress))} className="mb-2" />
+                        <p className="text-sm text-muted-foreground">
+                          {formatMoney(Number(goal.currentAmount))} of {formatMoney(Number(goal.targetAmount))} · {formatPercent(progress)}
+                        </p>
+                        {projection.requiredMonthly && (
+                          <p className="text-sm text-muted-foreground" data-testid={`text-goal-required-${goal.id}`}>
+                            {t("goals.requiredMonthly")}: {formatMoney(projection.requiredMonthly)}
+                          </p>
+                        )}
+                        <p className="text-sm text-muted-foreground" data-testid={`text-goal-estimate-${goal.id}`}>
+                          {t("goals.averageMonthly")}: {formatMoney(projection.averageMonthlySaving)}
+                          {" · "}
+                          {projection.estimatedCompletion
+                            ? `${t("goals.estimatedCompletion")} ${formatDate(projection.estimatedCompletion)}`
+                            : t("goals.noEstimate")}
+                        </p>
                       </div>
-                      <Progress value={progress} className="mb-2" />
-                      <p className="text-sm text-muted-foreground">
-                        {formatCurrency(Number(goal.currentAmount))} of {formatCurrency(Number(goal.targetAmount))}
-                      </p>
-                    </div>
-                  );
-                })
-              ) : (
-                <div className="text-center text-muted-foreground py-8">
-                  No active goals
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                    );
+                  })
+                ) : (
+                  <div className="text-center text-muted-foreground py-8">
+                    No active goals
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Upcoming Recurring Transactions */}
+          <UpcomingRecurring />
+        </div>
       </div>
 
       {/* AI Insights */}
@@ -2,29 +2,42 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
 import { apiRequest } from "@/lib/queryClient";
 import { ExpenseItem } from "@/components/ExpenseItem";
 import { ExpenseModal } from "@/components/ExpenseModal";
+import { ImportModal } from "@/components/ImportModal";
+import { DuplicateReview } from "@/components/DuplicateReview";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Filter, Download, Plus } from "lucide-react";
-import type { Expense } from "@shared/schema";
+import { Search, Filter, Download, Plus, Upload } from "lucide-react";
+import type { Account, Expense } from "@shared/schema";
+import { Money } from "@shared/money";
 
 export default function Expenses() {
   const { t } = useLanguage();
   const { toast } = useToast();
+  const { formatMoney, currency } = useFormatters();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState("");
+  // "all" stands for no filter; Radix Select does not allow an empty item value
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [accountFilter, setAccountFilter] = useState("all");
   const [periodFilter, setPeriodFilter] = useState("thisMonth");
   const [expenseModalOpen, setExpenseModalOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
 
-  // Fetch expenses with filters
+  // The period is resolved on the server, in the user's time zone and financial month;
+  // search, category and account are filtered here
   const { data: expenses, isLoading } = useQuery({
-    queryKey: ["/api/expenses", { category: categoryFilter, period: periodFilter, search: searchTerm }],
+    queryKey: ["/api/expenses", `?period=${periodFilter}`],
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
   });
 
   const deleteExpenseMutation = useMutation({
@@ -34,6 +47,8 @@ export default function Expenses() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       toast({
         title: t("common.success"),
         description: "Expense deleted successfully",
@@ -79,11 +94,21 @@ export default function Expenses() {
       expense.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
       expense.location?.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesCategory = !categoryFilter || expense.category === categoryFilter;
+    const matchesCategory = categoryFilter === "all" || expense.category === categoryFilter;
+
+    const matchesAccount = accountFilter === "all"
+      || (accountFilter === "none" ? !expense.accountId : expense.accountId === accountFilter);
     
-    return matchesSearch && matchesCategory;
+    return matchesSearch && matchesCategory && matchesAccount;
   }) || [];
 
+  // Net of the listed entries in the user's currency; transfers move money without changing it
+  const filteredTotal = filteredExpenses.reduce((total: Money, expense: Expense) => {
+    const amount = Money.of(expense.normalizedAmount ?? expense.amount, currency);
+    if (expense.type === "transfer") return total;
+    return expense.type === "expense" ? total.minus(amount) : total.plus(amount);
+  }, Money.zero(currency));
+
   const categories = [
     { value: "food", label: t("categories.food") },
     { value: "transport", label: t("categories.transport") },
@@ -109,6 +134,15 @@ export default function Expenses() {
         </div>
         
         <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => setImportModalOpen(true)}
+            className="flex items-center space-x-2"
+            data-testid="button-import-expenses"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{t("import.button")}</span>
+          </Button>
           <Button
             onClick={() => setExpenseModalOpen(true)}
             className="flex items-center space-x-2"
@@ -142,7 +176,7 @@ export default function Expenses() {
                 <SelectValue placeholder="All Categories" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">All Categories</SelectItem>
+                <SelectItem value="all">All Categories</SelectItem>
                 {categories.map((category) => (
                   <SelectItem key={category.value} value={category.value}>
                     {category.label}
@@ -151,6 +185,24 @@ export default function Expenses() {
               </SelectContent>
             </Select>
             
+            {/* Account Filter */}
+            {accounts && accounts.length > 0 && (
+              <Select value={accountFilter} onValueChange={setAccountFilter}>
+                <SelectTrigger className="w-48" data-testid="select-account-filter">
+                  <SelectValue placeholder={t("accounts.all")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("accounts.all")}</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="none">{t("accounts.unassigned")}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            
             {/* Period Filter */}
             <Select value={periodFilter} onValueChange={setPeriodFilter}>
               <SelectTrigger className="w-48" data-testid="select-period-filter">
@@ -178,12 +230,23 @@ export default function Expenses() {
         </CardContent>
       </Card>
 
+      {/* Suspected Duplicates */}
+      <DuplicateReview />
+
       {/* Expense List */}
       <Card>
         <CardHeader className="flex items-center justify-between">
           <CardTitle>{t("expenses.transactionHistory")}</CardTitle>
           <div className="text-sm text-muted-foreground">
             {filteredExpenses.length} {filteredExpenses.length === 1 ? 'transaction' : 'transactions'}
+            {filteredExpenses.length > 0 && (
+              <>
+                {" • "}
+                <span data-testid="text-expenses-net-total">
+                  {formatMoney(filteredTotal.toJSON(), { signed: true })}
+                </span>
+              </>
+            )}
           </div>
         </CardHeader>
         <CardContent className="p-0">
@@ -206,7 +269,7 @@ export default function Expenses() {
           ) : (
             <div className="text-center py-12">
               <div className="text-muted-foreground mb-4">
-                {searchTerm || categoryFilter 
+                {searchTerm || categoryFilter !== "all" || accountFilter !== "all"
                   ? "No expenses match your filters" 
                   : "No expenses recorded yet"
                 }
@@ -231,6 +294,12 @@ export default function Expenses() {
         }}
         expense={editingExpense}
       />
+
+      {/* Import Modal */}
+      <ImportModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+      />
     </div>
   );
 }
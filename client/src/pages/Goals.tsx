@@ -0,0 +1,492 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatters } from "@/hooks/useFormatters";
+import { apiRequest } from "@/lib/queryClient";
+import { GoalModal } from "@/components/GoalModal";
+import { GoalContributionModal } from "@/components/GoalContributionModal";
+import { FundingRuleModal, type FundingPreview } from "@/components/FundingRuleModal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Edit, Link2, Plus, PlusCircle, Sparkles, Target, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Goal, GoalContribution, GoalFundingRule } from "@shared/schema";
+
+const monthKey = (value: Date | string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export default function Goals() {
+  const { t } = useLanguage();
+  const { formatMoney, formatDate, formatPercent } = useFormatters();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [contributionGoal, setContributionGoal] = useState<Goal | null>(null);
+  const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
+  const [ruleModalOpen, setRuleModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<GoalFundingRule | null>(null);
+
+  const { data: goals, isLoading } = useQuery<Goal[]>({
+    queryKey: ["/api/goals"],
+  });
+
+  const { data: contributions } = useQuery<GoalContribution[]>({
+    queryKey: ["/api/goals", selectedGoalId, "contributions"],
+    enabled: !!selectedGoalId,
+  });
+
+  const { data: rules } = useQuery<GoalFundingRule[]>({
+    queryKey: ["/api/goals", "funding-rules"],
+  });
+
+  const { data: rulePreview } = useQuery<FundingPreview>({
+    queryKey: ["/api/goals", "funding-rules", "preview"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/goals/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (id === selectedGoalId) setSelectedGoalId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: t("common.success"),
+        description: "Goal deleted",
+      });
+    },
+    onError: showError,
+  });
+
+  const removeContributionMutation = useMutation({
+    mutationFn: async (contribution: GoalContribution) => {
+      await apiRequest("DELETE", `/api/goals/${contribution.goalId}/contributions/${contribution.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: showError,
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async (rule: GoalFundingRule) => {
+      await apiRequest("PATCH", `/api/goals/funding-rules/${rule.id}`, { isActive: rule.isActive === false });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: showError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/goals/funding-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: t("common.success"),
+        description: "Saving rule deleted",
+      });
+    },
+    onError: showError,
+  });
+
+  const handleDeleteRule = (id: string) => {
+    if (confirm("Delete this saving rule? Contributions it already made are kept.")) {
+      deleteRuleMutation.mutate(id);
+    }
+  };
+
+  const describeRule = (rule: GoalFundingRule) => {
+    const filters = [rule.category && t(`categories.${rule.category}`)].filter(Boolean);
+    const summary = rule.type === "income_percent"
+      ? `${formatPercent(Number(rule.percentage))} ${t("goals.rules.ofIncome")}`
+      : rule.type === "scheduled"
+        ? `${formatMoney(rule.amount || "0")} ${t(`goals.rules.frequencies.${rule.frequency}`).toLowerCase()}`
+        : t("goals.rules.types.round_up");
+    return filters.length > 0 ? `${summary} · ${filters.join(", ")}` : summary;
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this goal and its contributions?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleRemoveContribution = (contribution: GoalContribution) => {
+    if (confirm("Remove this contribution?")) {
+      removeContributionMutation.mutate(contribution);
+    }
+  };
+
+  const selectedGoal = goals?.find(goal => goal.id === selectedGoalId);
+
+  // Saved amount after each contribution, and net contributions per month
+  let runningTotal = 0;
+  const balanceHistory = (contributions || []).map((contribution) => {
+    runningTotal += Number(contribution.amount);
+    return { date: formatDate(contribution.date, { dateStyle: "short" }), balance: runningTotal };
+  });
+  const monthlyTotals = new Map<string, number>();
+  for (const contribution of contributions || []) {
+    const key = monthKey(contribution.date);
+    monthlyTotals.set(key, (monthlyTotals.get(key) ?? 0) + Number(contribution.amount));
+  }
+  const monthlyHistory = Array.from(monthlyTotals, ([month, amount]) => ({
+    month: formatDate(new Date(`${month}-01T12:00:00`), { month: "short", year: "2-digit" }),
+    amount,
+  }));
+
+  const chartConfig: ChartConfig = {
+    balance: { label: t("goals.saved"), color: "var(--primary)" },
+    amount: { label: t("goals.contributed"), color: "var(--primary)" },
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-goals-title">
+            {t("goals.title")}
+          </h1>
+          <p className="text-muted-foreground" data-testid="text-goals-subtitle">
+            {t("goals.subtitle")}
+          </p>
+        </div>
+
+        <Button
+          onClick={() => {
+            setEditingGoal(null);
+            setModalOpen(true);
+          }}
+          className="flex items-center space-x-2"
+          data-testid="button-add-goal"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t("goals.addNew")}</span>
+        </Button>
+      </div>
+
+      {/* Goal Cards */}
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">{t("common.loading")}</div>
+      ) : goals && goals.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {goals.map((goal) => {
+            const percent = (Number(goal.currentAmount) / Number(goal.targetAmount)) * 100 || 0;
+            const reached = percent >= 100;
+            return (
+              <Card
+                key={goal.id}
+                className={cn("cursor-pointer transition-colors", selectedGoalId === goal.id && "border-primary")}
+                onClick={() => setSelectedGoalId(goal.id)}
+                data-testid={`card-goal-${goal.id}`}
+              >
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                        <Target className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-foreground">{goal.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {goal.deadline ? `${t("goals.by")} ${formatDate(goal.deadline)}` : t("goals.noDeadline")}
+                        </p>
+                      </div>
+                    </div>
+                    {reached && <Badge variant="secondary" className="bg-success/10 text-success">{t("goals.reached")}</Badge>}
+                  </div>
+
+                  <div>
+                    <div className="flex items-baseline justify-between mb-2">
+                      <span className="text-2xl font-bold text-foreground" data-testid={`text-goal-saved-${goal.id}`}>
+                        {formatMoney(goal.currentAmount || "0")}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        / {formatMoney(goal.targetAmount)} · {formatPercent(percent)}
+                      </span>
+                    </div>
+                    <Progress value={Math.min(100, Math.max(0, percent))} className="h-2" data-testid={`progress-goal-${goal.id}`} />
+                  </div>
+
+                  <div className="flex justify-between">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setContributionGoal(goal);
+                      }}
+                      className="flex items-center space-x-1"
+                      data-testid={`button-contribute-goal-${goal.id}`}
+                    >
+                      <PlusCircle className="w-4 h-4" />
+                      <span>{t("goals.addContribution")}</span>
+                    </Button>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingGoal(goal);
+                          setModalOpen(true);
+                        }}
+                        data-testid={`button-edit-goal-${goal.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(goal.id);
+                        }}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-goal-${goal.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="text-muted-foreground mb-4">{t("goals.none")}</div>
+            <Button onClick={() => setModalOpen(true)} data-testid="button-add-first-goal">
+              {t("goals.addNew")}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Funding Rules */}
+      {goals && goals.length > 0 && (
+        <Card data-testid="card-funding-rules">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>{t("goals.rules.title")}</CardTitle>
+              {rulePreview && rules && rules.length > 0 && (
+                <p className="text-sm text-muted-foreground mt-1" data-testid="text-rules-monthly-total">
+                  {t("goals.rules.monthlyTotal")}: {formatMoney(rulePreview.total)}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditingRule(null);
+                setRuleModalOpen(true);
+              }}
+              className="flex items-center space-x-1"
+              data-testid="button-add-rule"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t("goals.rules.add")}</span>
+            </Button>
+          </CardHeader>
+          <CardContent className="p-0">
+            {rules && rules.length > 0 ? (
+              <div className="divide-y divide-border">
+                {rules.map((rule) => {
+                  const estimate = rulePreview?.rules.find(item => item.ruleId === rule.id);
+                  return (
+                    <div key={rule.id} className="flex items-center justify-between px-6 py-3" data-testid={`funding-rule-${rule.id}`}>
+                      <div className="flex items-center space-x-3">
+                        <Sparkles className="w-4 h-4 text-primary" />
+                        <div>
+                          <p className="font-medium text-foreground">{describeRule(rule)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {goals.find(goal => goal.id === rule.goalId)?.name}
+                            {estimate && ` · ≈ ${formatMoney(estimate.monthly)} ${t("goals.rules.perMonth")}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={rule.isActive !== false}
+                          onCheckedChange={() => toggleRuleMutation.mutate(rule)}
+                          disabled={toggleRuleMutation.isPending}
+                          data-testid={`switch-rule-active-${rule.id}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setRuleModalOpen(true);
+                          }}
+                          data-testid={`button-edit-rule-${rule.id}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteRule(rule.id)}
+                          disabled={deleteRuleMutation.isPending}
+                          data-testid={`button-delete-rule-${rule.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center text-muted-foreground py-8">{t("goals.rules.none")}</div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* History */}
+      {selectedGoal && (
+        <>
+          {balanceHistory.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card data-testid="card-goal-balance-chart">
+                <CardHeader>
+                  <CardTitle>{selectedGoal.name} · {t("goals.savedOverTime")}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-64 w-full">
+                    <AreaChart data={balanceHistory}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={60} />
+                      <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatMoney(Number(value))} />} />
+                      <ReferenceLine y={Number(selectedGoal.targetAmount)} stroke="var(--success)" strokeDasharray="4 4" />
+                      <Area dataKey="balance" type="stepAfter" stroke="var(--color-balance)" fill="var(--color-balance)" fillOpacity={0.2} />
+                    </AreaChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-goal-monthly-chart">
+                <CardHeader>
+                  <CardTitle>{t("goals.monthlyContributions")}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-64 w-full">
+                    <BarChart data={monthlyHistory}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={60} />
+                      <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatMoney(Number(value), { signed: true })} />} />
+                      <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          <Card data-testid="card-goal-contributions">
+            <CardHeader>
+              <CardTitle>{selectedGoal.name} · {t("goals.contributions")}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {contributions && contributions.length > 0 ? (
+                <div className="divide-y divide-border">
+                  {[...contributions].reverse().map((contribution) => {
+                    const withdrawal = Number(contribution.amount) < 0;
+                    return (
+                      <div
+                        key={contribution.id}
+                        className="flex items-center justify-between px-6 py-3"
+                        data-testid={`goal-contribution-${contribution.id}`}
+                      >
+                        <div>
+                          <p className="font-medium text-foreground flex items-center space-x-2">
+                            <span>{contribution.note || (withdrawal ? t("goals.withdrawal") : t("goals.deposit"))}</span>
+                            {contribution.ruleId && (
+                              <Sparkles className="w-4 h-4 text-muted-foreground" aria-label={t("goals.rules.automatic")} />
+                            )}
+                            {(contribution.expenseId || contribution.transferId) && (
+                              <Link2 className="w-4 h-4 text-muted-foreground" aria-label={t("goals.linked")} />
+                            )}
+                          </p>
+                          <p className="text-sm text-muted-foreground">{formatDate(contribution.date)}</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={cn("font-semibold", withdrawal ? "text-destructive" : "text-success")}>
+                            {formatMoney(contribution.amount, { signed: true })}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveContribution(contribution)}
+                            disabled={removeContributionMutation.isPending}
+                            data-testid={`button-remove-contribution-${contribution.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">{t("goals.noContributions")}</div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <GoalModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingGoal(null);
+        }}
+        goal={editingGoal}
+      />
+
+      <FundingRuleModal
+        isOpen={ruleModalOpen}
+        onClose={() => {
+          setRuleModalOpen(false);
+          setEditingRule(null);
+        }}
+        goals={goals || []}
+        rule={editingRule}
+      />
+
+      <GoalContributionModal
+        isOpen={!!contributionGoal}
+        onClose={() => setContributionGoal(null)}
+        goal={contributionGoal}
+      />
+    </div>
+  );
+}
@@ -25,12 +25,20 @@ import {
   Trash2,
   AlertTriangle
 } from "lucide-react";
+import { CURRENCIES } from "@shared/currencies";
+import { MAX_MONTH_START_DAY, calendarOf } from "@shared/periods";
+import type { User as Profile } from "@shared/schema";
+import { useFormatters } from "@/hooks/useFormatters";
+
+// Preferences that move period boundaries
+const CALENDAR_FIELDS = ["timezone", "monthStartDay", "weekStartDay"];
 
 export default function Settings() {
   const { user } = useAuth();
   const { t, language, setLanguage } = useLanguage();
   const { theme, toggleTheme } = useTheme();
   const { toast } = useToast();
+  const { locale } = useFormatters();
   const queryClient = useQueryClient();
   const [activeSection, setActiveSection] = useState("profile");
 
@@ -39,8 +47,12 @@ export default function Settings() {
       const response = await apiRequest("PATCH", "/api/auth/user", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_user, data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      // Totals, budgets and lists are all cut into periods by these
+      if (CALENDAR_FIELDS.some((field) => field in data)) {
+        queryClient.invalidateQueries();
+      }
       toast({
         title: t("common.success"),
         description: "Settings updated successfully",
@@ -78,8 +90,8 @@ export default function Settings() {
     updateUserMutation.mutate({ [field]: value });
   };
 
-  const handleExportData = () => {
-    window.open('/api/user/export', '_blank');
+  const handleExportData = (format: "json" | "qif" | "ofx" = "json") => {
+    window.open(`/api/user/export?format=${format}`, '_blank');
   };
 
   const handleDeleteAllData = () => {
@@ -97,12 +109,19 @@ export default function Settings() {
     { id: "help", label: t("settings.help"), icon: HelpCircle },
   ];
 
-  const currencies = [
-    { value: "USD", label: "USD ($)" },
-    { value: "EUR", label: "EUR (€)" },
-    { value: "GBP", label: "GBP (£)" },
-    { value: "JPY", label: "JPY (¥)" },
-  ];
+  const currencies = CURRENCIES.map((currency) => ({
+    value: currency.code,
+    label: `${currency.code} (${currency.symbol}) - ${currency.name}`,
+  }));
+
+  const calendar = calendarOf(user as Profile | undefined);
+  const monthStartDays = Array.from({ length: MAX_MONTH_START_DAY }, (_, index) => index + 1);
+
+  // 7 January 2024 was a Sunday
+  const weekdays = Array.from({ length: 7 }, (_, day) => ({
+    value: day,
+    label: new Intl.DateTimeFormat(locale, { weekday: "long", timeZone: "UTC" }).format(new Date(Date.UTC(2024, 0, 7 + day))),
+  }));
 
   const timezones = [
     { value: "America/New_York", label: "Eastern Time (ET)" },
@@ -274,6 +293,47 @@ export default function Settings() {
                   </Select>
                 </div>
 
+                {/* Financial month and week */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>{t("settings.monthStartDay")}</Label>
+                    <Select
+                      defaultValue={String(calendar.monthStartDay)}
+                      onValueChange={(value) => handleUpdateProfile("monthStartDay", Number(value))}
+                    >
+                      <SelectTrigger data-testid="select-month-start-day">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {monthStartDays.map((day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground mt-1">{t("settings.monthStartDayHint")}</p>
+                  </div>
+                  <div>
+                    <Label>{t("settings.weekStartDay")}</Label>
+                    <Select
+                      defaultValue={String(calendar.weekStartDay)}
+                      onValueChange={(value) => handleUpdateProfile("weekStartDay", Number(value))}
+                    >
+                      <SelectTrigger data-testid="select-week-start-day">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {weekdays.map((weekday) => (
+                          <SelectItem key={weekday.value} value={String(weekday.value)}>
+                            {weekday.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 {/* Theme Toggle */}
                 <div className="flex items-center justify-between">
                   <div>
@@ -365,13 +425,31 @@ export default function Settings() {
                   <div className="flex space-x-3">
                     <Button 
                       variant="outline" 
-                      onClick={handleExportData}
+                      onClick={() => handleExportData("json")}
                       className="flex items-center space-x-2"
                       data-testid="button-export-json"
                     >
                       <Download className="w-4 h-4" />
                       <span>Export JSON</span>
                     </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={() => handleExportData("qif")}
+                      className="flex items-center space-x-2"
+                      data-testid="button-export-qif"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>Export QIF</span>
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={() => handleExportData("ofx")}
+                      className="flex items-center space-x-2"
+                      data-testid="button-export-ofx"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>Export OFX</span>
+                    </Button>
                   </div>
                 </div>
 
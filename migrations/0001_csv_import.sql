@@ -0,0 +1,15 @@
+CREATE TABLE "import_mappings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"columns" jsonb NOT NULL,
+	"delimiter" varchar DEFAULT ',',
+	"date_format" varchar DEFAULT 'YYYY-MM-DD',
+	"decimal_separator" varchar DEFAULT '.',
+	"has_header" boolean DEFAULT true,
+	"default_category" varchar DEFAULT 'other',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "import_mappings" ADD CONSTRAINT "import_mappings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "expenses" ADD COLUMN "external_id" varchar;
\ No newline at end of file
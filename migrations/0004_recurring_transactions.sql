@@ -0,0 +1,22 @@
+CREATE TABLE "recurring_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"type" varchar NOT NULL,
+	"description" text NOT NULL,
+	"category" varchar NOT NULL,
+	"cadence" varchar NOT NULL,
+	"interval" integer DEFAULT 1,
+	"rrule" text,
+	"start_date" timestamp NOT NULL,
+	"next_run_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "recurring_transaction_id" varchar;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_recurring_transaction_id_recurring_transactions_id_fk" FOREIGN KEY ("recurring_transaction_id") REFERENCES "public"."recurring_transactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_expense_recurring_occurrence" ON "expenses" USING btree ("recurring_transaction_id","date");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "expense_splits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"expense_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"category" varchar NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"tags" text[],
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "expense_splits" ADD CONSTRAINT "expense_splits_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_splits" ADD CONSTRAINT "expense_splits_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_expense_split_expense" ON "expense_splits" USING btree ("expense_id");
\ No newline at end of file
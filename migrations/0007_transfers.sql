@@ -0,0 +1,3 @@
+ALTER TABLE "expenses" ADD COLUMN "transfer_id" varchar;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "transfer_direction" varchar;--> statement-breakpoint
+CREATE INDEX "IDX_expense_transfer" ON "expenses" USING btree ("transfer_id");
\ No newline at end of file
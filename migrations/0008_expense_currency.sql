@@ -0,0 +1,3 @@
+ALTER TABLE "expenses" ADD COLUMN "currency" varchar(3);--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "exchange_rate" numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "normalized_amount" numeric(12, 2);
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "exchange_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"date" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_exchange_rate_day" ON "exchange_rates" USING btree ("currency","date");
\ No newline at end of file
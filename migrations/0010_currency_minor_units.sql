@@ -0,0 +1,3 @@
+ALTER TABLE "expense_splits" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "normalized_amount" SET DATA TYPE numeric(14, 3);
\ No newline at end of file
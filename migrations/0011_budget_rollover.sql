@@ -0,0 +1,19 @@
+CREATE TABLE "budget_ledger" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"budget_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"amount" numeric(12, 3) NOT NULL,
+	"carried_in" numeric(12, 3) NOT NULL,
+	"spent" numeric(12, 3) NOT NULL,
+	"carried_out" numeric(12, 3) NOT NULL,
+	"rollover_mode" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "rollover_mode" varchar DEFAULT 'none';--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "rollover_cap" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "budget_ledger" ADD CONSTRAINT "budget_ledger_budget_id_budgets_id_fk" FOREIGN KEY ("budget_id") REFERENCES "public"."budgets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_ledger" ADD CONSTRAINT "budget_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_budget_ledger_period" ON "budget_ledger" USING btree ("budget_id","period_start");
\ No newline at end of file
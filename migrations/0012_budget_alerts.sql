@@ -0,0 +1,13 @@
+CREATE TABLE "budget_alerts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"budget_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"threshold" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "alert_thresholds" integer[] DEFAULT '{50,80,100}';--> statement-breakpoint
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_budget_id_budgets_id_fk" FOREIGN KEY ("budget_id") REFERENCES "public"."budgets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_budget_alerts_threshold" ON "budget_alerts" USING btree ("budget_id","period_start","threshold");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "budget_assignments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"month" varchar(7) NOT NULL,
+	"category" varchar NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "budgeting_mode" varchar DEFAULT 'standard';--> statement-breakpoint
+ALTER TABLE "budget_assignments" ADD CONSTRAINT "budget_assignments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_budget_assignments_category" ON "budget_assignments" USING btree ("user_id","month","category");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "goal_contributions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"goal_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL,
+	"note" varchar,
+	"expense_id" varchar,
+	"transfer_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_goal_id_goals_id_fk" FOREIGN KEY ("goal_id") REFERENCES "public"."goals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_goal_contribution_goal" ON "goal_contributions" USING btree ("goal_id");
\ No newline at end of file
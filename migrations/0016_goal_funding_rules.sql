@@ -0,0 +1,23 @@
+CREATE TABLE "goal_funding_rules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"goal_id" varchar NOT NULL,
+	"type" varchar NOT NULL,
+	"percentage" numeric(5, 2),
+	"amount" numeric(12, 2),
+	"frequency" varchar,
+	"start_date" timestamp,
+	"next_run_date" timestamp,
+	"category" varchar,
+	"account_id" varchar,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD COLUMN "rule_id" varchar;--> statement-breakpoint
+ALTER TABLE "goal_funding_rules" ADD CONSTRAINT "goal_funding_rules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_funding_rules" ADD CONSTRAINT "goal_funding_rules_goal_id_goals_id_fk" FOREIGN KEY ("goal_id") REFERENCES "public"."goals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_funding_rules" ADD CONSTRAINT "goal_funding_rules_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_rule_id_goal_funding_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."goal_funding_rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_goal_contribution_rule_expense" ON "goal_contributions" USING btree ("rule_id","expense_id");
\ No newline at end of file
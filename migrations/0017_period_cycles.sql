@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "month_start_day" integer DEFAULT 1;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "week_start_day" integer DEFAULT 1;
\ No newline at end of file
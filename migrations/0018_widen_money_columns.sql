@@ -0,0 +1,9 @@
+ALTER TABLE "accounts" ALTER COLUMN "opening_balance" SET DATA TYPE numeric(14, 3);--> statement-breakpoint
+ALTER TABLE "budget_assignments" ALTER COLUMN "amount" SET DATA TYPE numeric(14, 3);--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "rollover_cap" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "goal_contributions" ALTER COLUMN "amount" SET DATA TYPE numeric(14, 3);--> statement-breakpoint
+ALTER TABLE "goal_funding_rules" ALTER COLUMN "amount" SET DATA TYPE numeric(14, 3);--> statement-breakpoint
+ALTER TABLE "goals" ALTER COLUMN "target_amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "goals" ALTER COLUMN "current_amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 3);
\ No newline at end of file
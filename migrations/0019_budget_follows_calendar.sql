@@ -0,0 +1,9 @@
+ALTER TABLE "budgets" ADD COLUMN "follows_calendar" boolean DEFAULT false;--> statement-breakpoint
+UPDATE "budgets" AS "b" SET "follows_calendar" = true
+FROM "users" AS "u"
+WHERE "u"."id" = "b"."user_id"
+  AND "u"."timezone" IN (SELECT "name" FROM "pg_timezone_names")
+  AND (
+    ("b"."period" = 'monthly' AND EXTRACT(DAY FROM ("b"."start_date" AT TIME ZONE 'UTC') AT TIME ZONE "u"."timezone") = COALESCE("u"."month_start_day", 1))
+    OR ("b"."period" = 'weekly' AND EXTRACT(DOW FROM ("b"."start_date" AT TIME ZONE 'UTC') AT TIME ZONE "u"."timezone") = COALESCE("u"."week_start_day", 1))
+  );
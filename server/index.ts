@@ -6,6 +6,9 @@ import { setupVite, serveStatic, log } from "./vite";
 import session from "express-session";
 import { MemoryStore } from "memorystore";
 import { setupAuth } from "./localAuth";
+import { recurringService } from "./services/recurringService";
+import { currencyService } from "./services/currencyService";
+import { fundingRuleService } from "./services/fundingRuleService";
 
 // Log startup process
 console.log("🚀 Starting server...");
@@ -76,6 +79,9 @@ app.use((req, res, next) => {
   app.listen(port, "0.0.0.0", () => {
     console.log(`✅ Server running on http://0.0.0.0:${port}`);
     console.log(`📁 Serving static files from: ${process.env.NODE_ENV === "production" ? "dist/public" : "client"}`);
+    recurringService.start();
+    currencyService.start();
+    fundingRuleService.start();
   }).on('error', (err: any) => {
     console.error("❌ Server failed to start:", err);
     if (err.code === 'EADDRINUSE') {
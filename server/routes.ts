@@ -1,11 +1,38 @@
 import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ExpenseFilters } from "./storage";
 import { setupAuth, isAuthenticated } from "./localAuth";
 import { aiService } from "./services/aiService";
 import { currencyService } from "./services/currencyService";
-import { insertExpenseSchema, insertBudgetSchema, insertGoalSchema, insertCategorySchema } from "@shared/schema";
+import { importService, type CsvImportOptions, type ImportPreview } from "./services/importService";
+import { exportService } from "./services/exportService";
+import { duplicateService } from "./services/duplicateService";
+import { recurringService } from "./services/recurringService";
+import { budgetService, BUDGET_PERIODS, ROLLOVER_MODES } from "./services/budgetService";
+import { alertService } from "./services/alertService";
+import { zeroBasedService, isMonth, toMonth } from "./services/zeroBasedService";
+import { goalService } from "./services/goalService";
+import { fundingRuleService } from "./services/fundingRuleService";
+import { analyticsService, ANALYTICS_DIMENSIONS, ANALYTICS_TYPES, type AnalyticsDimension, type AnalyticsType, type DateRange } from "./services/analyticsService";
+import { insertExpenseSchema, insertBudgetSchema, insertBudgetAssignmentSchema, insertGoalSchema, insertGoalContributionSchema, insertGoalFundingRuleSchema, insertCategorySchema, insertImportMappingSchema, insertRecurringTransactionSchema, insertAccountSchema, insertTransferSchema, expenseSplitInputSchema, csvColumnMappingSchema, type InsertExpense, type InsertBudget, type InsertGoalFundingRule, type InsertTransfer, type Expense, type ExpenseSplitInput } from "@shared/schema";
+import { getCurrencyInfo, getMinorUnits, hasValidMinorUnits } from "@shared/currencies";
+import { Money } from "@shared/money";
+import { FUNDING_RULE_TYPES, FUNDING_FREQUENCIES } from "@shared/fundingRules";
+import {
+  GRANULARITIES,
+  addMonths,
+  calendarOf,
+  isMonthStartDay,
+  isTimeZone,
+  isWeekStartDay,
+  localDay,
+  periodBounds,
+  periodsBetween,
+  startOfLocalDay,
+  type Granularity,
+  type UserCalendar,
+} from "@shared/periods";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -16,16 +43,18 @@ if (!fs.existsSync("uploads/")) {
 }
 
 // Configure multer for file uploads
+const uploadStorage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    cb(null, 'uploads/');
+  },
+  filename: function (req, file, cb) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
+  }
+});
+
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: function (req, file, cb) {
-      cb(null, 'uploads/');
-    },
-    filename: function (req, file, cb) {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-    }
-  }),
+  storage: uploadStorage,
   limits: {
     fileSize: 10 * 1024 * 1024 // 10MB limit
   },
@@ -39,6 +68,291 @@ const upload = multer({
   }
 });
 
+// Bank statement uploads share the receipt storage but only accept statement files
+const statementUpload = multer({
+  storage: uploadStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (['.csv', '.ofx', '.qfx', '.qif'].includes(extension) || file.mimetype === 'text/csv') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV, OFX, QFX and QIF statement files are allowed!'));
+    }
+  }
+});
+
+// Import settings arrive as multipart text fields alongside the statement file
+function parseImportOptions(body: any): Partial<CsvImportOptions> {
+  const options: Partial<CsvImportOptions> = {};
+  if (body.columns) options.columns = csvColumnMappingSchema.parse(JSON.parse(body.columns));
+  if (body.delimiter) options.delimiter = body.delimiter === '\\t' ? '\t' : body.delimiter;
+  if (body.dateFormat) options.dateFormat = body.dateFormat;
+  if (body.decimalSeparator) options.decimalSeparator = body.decimalSeparator;
+  if (body.hasHeader !== undefined) options.hasHeader = body.hasHeader !== 'false';
+  if (body.defaultCategory) options.defaultCategory = body.defaultCategory;
+  return options;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Looks up recorded expenses near the given date that resemble it
+async function findExpenseDuplicates(userId: string, expense: InsertExpense, excludeId?: string) {
+  const date = new Date(expense.date).getTime();
+  const window = duplicateService.windowDays * DAY_MS;
+  const nearby = await storage.getExpensesByDateRange(userId, new Date(date - window), new Date(date + window));
+  const currency = (await storage.getUser(userId))?.currency || "USD";
+  return duplicateService.findDuplicates(expense, nearby.filter(other => other.id !== excludeId), { currency });
+}
+
+// Attaches duplicate warnings to every importable row of a statement preview
+async function flagImportDuplicates(userId: string, preview: ImportPreview): Promise<ImportPreview> {
+  const dates = preview.rows.flatMap(row => row.expense ? [new Date(row.expense.date).getTime()] : []);
+  if (dates.length === 0) {
+    return preview;
+  }
+
+  const window = duplicateService.windowDays * DAY_MS;
+  const existing = await storage.getExpensesByDateRange(
+    userId,
+    new Date(Math.min(...dates) - window),
+    new Date(Math.max(...dates) + window)
+  );
+  const currency = (await storage.getUser(userId))?.currency || "USD";
+
+  return {
+    ...preview,
+    rows: preview.rows.map(row => row.expense
+      ? { ...row, duplicates: duplicateService.findDuplicates(row.expense, existing, { currency }) }
+      : row),
+  };
+}
+
+// Amounts are kept as exact decimal strings; JSON clients may still send numbers
+function decimalField(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value).trim();
+}
+
+// Fields an import row may set; accounts, transfer and recurring links and normalized amounts are the server's
+const IMPORT_ROW_FIELDS = ["date", "description", "amount", "currency", "category", "type", "tags", "externalId"] as const;
+
+// Split allocations arrive as an array, or as a JSON string in multipart requests
+function parseSplits(value: unknown): ExpenseSplitInput[] {
+  if (value === undefined || value === null || value === '') return [];
+  const list = typeof value === 'string' ? JSON.parse(value) : value;
+  return expenseSplitInputSchema.array().parse(
+    (list as any[]).map(split => ({ ...split, amount: String(split.amount) }))
+  );
+}
+
+// Allocations must add up to the expense they divide, compared in cents
+function validateSplits(amount: string | number, splits: Pick<ExpenseSplitInput, "amount">[]): string | null {
+  if (splits.some(split => !(Number(split.amount) > 0))) {
+    return "Split amounts must be positive";
+  }
+
+  // Compared in thousandths, the smallest unit of any supported currency
+  const total = splits.reduce((sum, split) => sum + Math.round(Number(split.amount) * 1000), 0);
+  if (total !== Math.round(Number(amount) * 1000)) {
+    return `Splits add up to ${total / 1000} but the expense amount is ${Number(amount)}`;
+  }
+  return null;
+}
+
+// New splits on an update replace the old ones; an amount change alone must still match the existing splits
+async function resolveSplitUpdate(userId: string, expense: Expense, amount: unknown, rawSplits: unknown): Promise<{ error?: string; splits?: ExpenseSplitInput[] }> {
+  const newAmount = amount !== undefined && amount !== null && amount !== '' ? String(amount) : expense.amount;
+
+  if (rawSplits !== undefined) {
+    const splits = parseSplits(rawSplits);
+    const error = splits.length > 0 ? validateSplits(newAmount, splits) : null;
+    return error ? { error } : { splits };
+  }
+
+  const existing = await storage.getExpenseSplits(expense.id, userId);
+  if (existing.length > 0 && validateSplits(newAmount, existing)) {
+    return { error: "Update the splits together with the amount" };
+  }
+  return {};
+}
+
+// Expenses may only be booked on one of the user's own accounts
+async function isOwnAccount(userId: string, accountId: unknown): Promise<boolean> {
+  if (!accountId) return true;
+  return !!(await storage.getAccountById(String(accountId), userId));
+}
+
+// Account balances add up amounts as entered, so a transaction booked on an account must be in its currency
+async function accountCurrencyError(userId: string, accountId: unknown, currency: string): Promise<string | null> {
+  if (!accountId) return null;
+  const account = await storage.getAccountById(String(accountId), userId);
+  const accountCurrency = account?.currency || 'USD';
+  return account && accountCurrency !== currency ? `Transactions on this account must be in ${accountCurrency}` : null;
+}
+
+// Both accounts of a transfer must belong to the user and share a currency, since one amount
+// leaves the first and arrives in the second; the amount is rounded to that currency's minor units
+async function transferAmount(userId: string, transfer: InsertTransfer): Promise<{ error?: string; currency?: string; amount?: string }> {
+  const from = await storage.getAccountById(transfer.fromAccountId, userId);
+  const to = await storage.getAccountById(transfer.toAccountId, userId);
+  if (!from || !to) {
+    return { error: "Account not found" };
+  }
+
+  const currency = from.currency || 'USD';
+  if ((to.currency || 'USD') !== currency) {
+    return { error: "Transfers between accounts in different currencies are not supported" };
+  }
+  if (!hasValidMinorUnits(transfer.amount, currency)) {
+    return { error: `${currency} amounts allow at most ${getMinorUnits(currency)} decimal places` };
+  }
+  return { currency, amount: Money.of(transfer.amount, currency).toString() };
+}
+
+// Entry currency, exchange rate and amount in the user's currency for an expense being saved;
+// edits keep the rate captured at entry unless the currency itself changes
+async function normalizeExpenseAmount(userId: string, amount: unknown, currency: unknown, date: unknown, existing?: Expense): Promise<{ error?: string; normalized?: Pick<Expense, "currency" | "exchangeRate" | "normalizedAmount"> }> {
+  const user = await storage.getUser(userId);
+  const userCurrency = user?.currency || 'USD';
+  const entryCurrency = String(currency || existing?.currency || userCurrency).toUpperCase();
+  if (!getCurrencyInfo(entryCurrency)) {
+    return { error: `Unsupported currency: ${entryCurrency}` };
+  }
+  if (!currencyService.hasRate(entryCurrency)) {
+    return { error: `No exchange rate available for ${entryCurrency}` };
+  }
+
+  const rawAmount = amount !== undefined && amount !== null && amount !== '' ? amount : existing?.amount;
+  if (!hasValidMinorUnits(String(rawAmount), entryCurrency)) {
+    return { error: `${entryCurrency} amounts allow at most ${getMinorUnits(entryCurrency)} decimal places` };
+  }
+
+  // Converted at the rates of the transaction's own date, so backdated entries use that day's snapshot
+  const entryDate = date !== undefined && date !== null && date !== '' ? new Date(date as string | Date) : existing ? new Date(existing.date) : new Date();
+  if (isNaN(entryDate.getTime())) {
+    return { error: "Invalid date" };
+  }
+
+  const entryAmount = String(rawAmount);
+  const sameDate = existing && new Date(existing.date).getTime() === entryDate.getTime();
+  if (existing?.exchangeRate && sameDate && (existing.currency || userCurrency) === entryCurrency) {
+    const normalizedAmount = Money.of(entryAmount, entryCurrency).convert(existing.exchangeRate, userCurrency).toString();
+    return { normalized: { currency: entryCurrency, exchangeRate: existing.exchangeRate, normalizedAmount } };
+  }
+
+  const { exchangeRate, normalizedAmount } = await currencyService.normalize(entryAmount, entryCurrency, userCurrency, entryDate);
+  return { normalized: { currency: entryCurrency, exchangeRate, normalizedAmount } };
+}
+
+// Budgets need a positive amount, a known period and rollover mode, a positive cap when one is set,
+// whole-percent alert thresholds and an end date that does not precede the start
+function validateBudget(
+  budget: Pick<InsertBudget, "amount" | "period" | "startDate" | "endDate" | "rolloverMode" | "rolloverCap" | "alertThresholds">,
+): string | null {
+  if (!(Number(budget.amount) > 0)) {
+    return "Budget amount must be positive";
+  }
+  if (!BUDGET_PERIODS.includes(budget.period)) {
+    return `Budget period must be one of ${BUDGET_PERIODS.join(", ")}`;
+  }
+  if (budget.rolloverMode && !ROLLOVER_MODES.includes(budget.rolloverMode)) {
+    return `Rollover mode must be one of ${ROLLOVER_MODES.join(", ")}`;
+  }
+  if (budget.rolloverCap !== null && budget.rolloverCap !== undefined && !(Number(budget.rolloverCap) > 0)) {
+    return "Rollover cap must be positive";
+  }
+  if (budget.alertThresholds?.some(threshold => !Number.isInteger(threshold) || threshold < 1 || threshold > 1000)) {
+    return "Alert thresholds must be whole percentages between 1 and 1000";
+  }
+  if (budget.endDate && budget.endDate < budget.startDate) {
+    return "Budget end date is before its start date";
+  }
+  return null;
+}
+
+// Funding rules need a known type and the settings that type uses: a percentage of at most 100 for income
+// rules, and a positive amount, known frequency and start date for scheduled ones
+function validateFundingRule(
+  rule: Pick<InsertGoalFundingRule, "type" | "percentage" | "amount" | "frequency" | "startDate">,
+): string | null {
+  if (!FUNDING_RULE_TYPES.includes(rule.type)) {
+    return `Rule type must be one of ${FUNDING_RULE_TYPES.join(", ")}`;
+  }
+  if (rule.type === "income_percent" && !(Number(rule.percentage) > 0 && Number(rule.percentage) <= 100)) {
+    return "Percentage must be between 0 and 100";
+  }
+  if (rule.type === "scheduled") {
+    if (!(Number(rule.amount) > 0)) {
+      return "Scheduled amount must be positive";
+    }
+    if (!rule.frequency || !FUNDING_FREQUENCIES.includes(rule.frequency)) {
+      return `Frequency must be one of ${FUNDING_FREQUENCIES.join(", ")}`;
+    }
+    if (!rule.startDate) {
+      return "Scheduled rules need a start date";
+    }
+  }
+  return null;
+}
+
+// Scheduled rules begin at their first run from today on; runs already past are not back-posted
+function firstFundingRun(rule: Pick<InsertGoalFundingRule, "type" | "frequency" | "startDate">): Date | null {
+  if (rule.type !== "scheduled") return null;
+  const now = new Date();
+  return fundingRuleService.nextRun(rule, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())));
+}
+
+// Largest number of periods one spending trends request may return
+const MAX_TREND_PERIODS = 1000;
+
+// Date range from two query parameters; null unless both are valid dates in order
+function parseDateRange(start: unknown, end: unknown): DateRange | null {
+  if (!start || !end) return null;
+  const range = { start: new Date(String(start)), end: new Date(String(end)) };
+  if (isNaN(range.start.getTime()) || isNaN(range.end.getTime()) || range.start > range.end) return null;
+  return range;
+}
+
+// Named periods the expense list can be filtered to
+const EXPENSE_PERIODS = ["thisMonth", "lastMonth", "last3Months", "thisYear"];
+
+// First and last millisecond of a named period in the user's calendar, months starting on their month start day
+function expensePeriodRange(period: string, calendar: UserCalendar, now: Date = new Date()): DateRange | null {
+  const { timeZone, ...cycles } = calendar;
+  const monthBefore = (start: Date) => periodBounds(new Date(start.getTime() - 1), "month", timeZone, cycles);
+  const thisMonth = periodBounds(now, "month", timeZone, cycles);
+
+  let range: DateRange;
+  switch (period) {
+    case "thisMonth":
+      range = thisMonth;
+      break;
+    case "lastMonth":
+      range = monthBefore(thisMonth.start);
+      break;
+    case "last3Months":
+      range = { start: monthBefore(monthBefore(thisMonth.start).start).start, end: thisMonth.end };
+      break;
+    case "thisYear":
+      range = periodBounds(now, "year", timeZone, cycles);
+      break;
+    default:
+      return null;
+  }
+  return { start: range.start, end: new Date(range.end.getTime() - 1) };
+}
+
+// Alerts never hold up or fail the expense request that triggered them
+function checkBudgetAlerts(userId: string, expense: Expense) {
+  alertService.checkExpense(userId, expense).catch((error) => console.error("Error checking budget alerts:", error));
+}
+
+function checkBatchBudgetAlerts(userId: string, expenses: Expense[]) {
+  alertService.checkExpenses(userId, expenses).catch((error) => console.error("Error checking budget alerts:", error));
+}
+
 export function registerRoutes(app: Express): Server {
   const server = createServer(app);
 
@@ -49,13 +363,34 @@ export function registerRoutes(app: Express): Server {
       const expenseData = {
         ...req.body,
         userId,
-        amount: parseFloat(req.body.amount),
+        amount: decimalField(req.body.amount),
         receiptUrl: req.file ? `/uploads/${req.file.filename}` : null
       };
 
       const validatedData = insertExpenseSchema.parse(expenseData);
-      const expense = await storage.createExpense(validatedData);
-      res.json(expense);
+      if (!(await isOwnAccount(userId, validatedData.accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      const splits = parseSplits(req.body.splits);
+      const splitError = splits.length > 0 ? validateSplits(validatedData.amount, splits) : null;
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const { error: currencyError, normalized } = await normalizeExpenseAmount(userId, validatedData.amount, validatedData.currency, validatedData.date);
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+      const accountError = await accountCurrencyError(userId, validatedData.accountId, normalized!.currency!);
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+
+      const expense = await storage.createExpense({ ...validatedData, ...normalized }, splits);
+      checkBudgetAlerts(userId, expense);
+      const duplicates = await findExpenseDuplicates(userId, { ...validatedData, ...normalized }, expense.id);
+      res.json({ ...expense, duplicates });
     } catch (error) {
       console.error("Error creating expense:", error);
       res.status(500).json({ message: "Failed to create expense" });
@@ -65,7 +400,21 @@ export function registerRoutes(app: Express): Server {
   app.get('/api/expenses', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
-      const expenses = await storage.getExpenses(userId);
+      const { accountId, period } = req.query;
+      const filters: ExpenseFilters = {};
+      if (accountId) {
+        filters.accountId = accountId as string;
+      }
+      if (period) {
+        const range = expensePeriodRange(String(period), await storage.getUserCalendar(userId));
+        if (!range) {
+          return res.status(400).json({ message: `Period must be one of ${EXPENSE_PERIODS.join(", ")}` });
+        }
+        filters.startDate = range.start;
+        filters.endDate = range.end;
+      }
+
+      const expenses = await storage.getExpenses(userId, filters);
       res.json(expenses);
     } catch (error) {
       console.error("Error fetching expenses:", error);
@@ -77,14 +426,48 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = req.user.userId;
       const expenseId = req.params.id;
+      const existing = await storage.getExpenseById(expenseId, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      if (existing.transferId) {
+        return res.status(400).json({ message: "Transfers are edited through /api/transfers" });
+      }
+
+      const { splits: rawSplits, ...body } = req.body;
+      if (!(await isOwnAccount(userId, body.accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      const { error: splitError, splits } = await resolveSplitUpdate(userId, existing, body.amount, rawSplits);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const { error: currencyError, normalized } = await normalizeExpenseAmount(userId, body.amount, body.currency, body.date, existing);
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+      const accountId = body.accountId !== undefined ? body.accountId : existing.accountId;
+      const accountError = await accountCurrencyError(userId, accountId, normalized!.currency!);
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
 
       const expenseData = {
-        ...req.body,
-        amount: parseFloat(req.body.amount),
-        receiptUrl: req.file ? `/uploads/${req.file.filename}` : req.body.receiptUrl
+        ...body,
+        ...normalized,
+        amount: decimalField(body.amount),
+        receiptUrl: req.file ? `/uploads/${req.file.filename}` : body.receiptUrl
       };
 
       const expense = await storage.updateExpense(expenseId, userId, expenseData);
+      if (splits) {
+        await storage.replaceExpenseSplits(expenseId, userId, splits);
+      }
+      checkBudgetAlerts(userId, expense);
       res.json(expense);
     } catch (error) {
       console.error("Error updating expense:", error);
@@ -96,7 +479,14 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = req.user.userId;
       const expenseId = req.params.id;
-      await storage.deleteExpense(expenseId, userId);
+      const expense = await storage.getExpenseById(expenseId, userId);
+
+      // Removing either leg of a transfer removes the whole transfer
+      if (expense?.transferId) {
+        await storage.deleteTransfer(expense.transferId, userId);
+      } else {
+        await storage.deleteExpense(expenseId, userId);
+      }
       res.json({ message: "Expense deleted successfully" });
     } catch (error) {
       console.error("Error deleting expense:", error);
@@ -108,8 +498,22 @@ export function registerRoutes(app: Express): Server {
   app.post('/api/budgets', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
-      const budgetData = insertBudgetSchema.parse({ ...req.body, userId });
-      const budget = await storage.createBudget(budgetData);
+      const calendar = await storage.getUserCalendar(userId);
+      const budgetData = insertBudgetSchema.parse({
+        ...req.body,
+        userId,
+        startDate: req.body.startDate
+          ? new Date(req.body.startDate)
+          : budgetService.cycleStart(req.body.period || "monthly", calendar),
+        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
+        rolloverCap: req.body.rolloverCap ? decimalField(req.body.rolloverCap) : null,
+      });
+      const budgetError = validateBudget(budgetData);
+      if (budgetError) {
+        return res.status(400).json({ message: budgetError });
+      }
+
+      const budget = await storage.createBudget({ ...budgetData, followsCalendar: budgetService.startsOnCycle(budgetData, calendar) });
       res.json(budget);
     } catch (error) {
       console.error("Error creating budget:", error);
@@ -121,13 +525,174 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = req.user.userId;
       const budgets = await storage.getBudgets(userId);
-      res.json(budgets);
+      const { timeZone, ...cycles } = await storage.getUserCalendar(userId);
+      const now = new Date();
+      const budgetsWithSpending = await Promise.all(budgets.map(async (budget) => {
+        const { start, end } = budgetService.getPeriod(budget, now, timeZone, cycles);
+        const spent = await storage.getCategorySpending(userId, start, end, budget.category);
+        return { ...budget, spent };
+      }));
+      res.json(budgetsWithSpending);
     } catch (error) {
       console.error("Error fetching budgets:", error);
       res.status(500).json({ message: "Failed to fetch budgets" });
     }
   });
 
+  app.get('/api/budgets/summary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const asOf = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const summary = await budgetService.getSummary(userId, asOf);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching budget summary:", error);
+      res.status(500).json({ message: "Failed to fetch budget summary" });
+    }
+  });
+
+  // Zero-based budgeting: income to assign, and what each category was given, spent and has left
+  app.get('/api/budgets/zero-based', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const month = (req.query.month as string) || toMonth(new Date(), await storage.getUserCalendar(userId));
+      if (!isMonth(month)) {
+        return res.status(400).json({ message: "Invalid month" });
+      }
+
+      const report = await zeroBasedService.getMonth(userId, month);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching zero-based budget:", error);
+      res.status(500).json({ message: "Failed to fetch zero-based budget" });
+    }
+  });
+
+  app.put('/api/budgets/assignments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      if (!isMonth(String(req.body.month))) {
+        return res.status(400).json({ message: "Invalid month" });
+      }
+
+      const assignment = insertBudgetAssignmentSchema.parse({
+        ...req.body,
+        userId,
+        amount: decimalField(req.body.amount),
+      });
+      if (!(Number(assignment.amount) >= 0)) {
+        return res.status(400).json({ message: "Assigned amount cannot be negative" });
+      }
+
+      const saved = await storage.setBudgetAssignment(assignment);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error assigning budget:", error);
+      res.status(500).json({ message: "Failed to assign budget" });
+    }
+  });
+
+  app.get('/api/budgets/:id/progress', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const budget = await storage.getBudgetById(req.params.id, userId);
+
+      if (!budget) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      const asOf = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const progress = await budgetService.getProgress(userId, budget, asOf);
+      res.json(progress);
+    } catch (error) {
+      console.error("Error fetching budget progress:", error);
+      res.status(500).json({ message: "Failed to fetch budget progress" });
+    }
+  });
+
+  app.get('/api/budgets/:id/ledger', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const budget = await storage.getBudgetById(req.params.id, userId);
+
+      if (!budget) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      const ledger = await storage.getBudgetLedger(budget.id, userId);
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching budget ledger:", error);
+      res.status(500).json({ message: "Failed to fetch budget ledger" });
+    }
+  });
+
+  // Archiving is an update of `isActive`; archived budgets keep their history but leave the summary
+  app.patch('/api/budgets/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getBudgetById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      const updates = insertBudgetSchema.partial().parse({
+        ...req.body,
+        userId,
+        ...(req.body.startDate && { startDate: new Date(req.body.startDate) }),
+        ...(req.body.endDate !== undefined && { endDate: req.body.endDate ? new Date(req.body.endDate) : null }),
+        ...(req.body.rolloverCap !== undefined && { rolloverCap: req.body.rolloverCap ? decimalField(req.body.rolloverCap) : null }),
+      });
+      const budgetError = validateBudget({ ...existing, ...updates });
+      if (budgetError) {
+        return res.status(400).json({ message: budgetError });
+      }
+
+      // Closed periods keep their figures through amount and rollover edits, but a new period length
+      // or start date redraws every period, so the old ledger no longer lines up
+      const periodsChanged = (updates.period !== undefined && updates.period !== existing.period)
+        || (updates.startDate !== undefined && updates.startDate.getTime() !== new Date(existing.startDate).getTime());
+      if (periodsChanged) {
+        await storage.clearBudgetLedger(id, userId);
+        updates.followsCalendar = budgetService.startsOnCycle({ ...existing, ...updates }, await storage.getUserCalendar(userId));
+      }
+
+      const budget = await storage.updateBudget(id, userId, updates);
+      res.json(budget);
+    } catch (error) {
+      console.error("Error updating budget:", error);
+      res.status(500).json({ message: "Failed to update budget" });
+    }
+  });
+
+  app.delete('/api/budgets/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getBudgetById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      await storage.deleteBudget(id, userId);
+      res.json({ message: "Budget deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting budget:", error);
+      res.status(500).json({ message: "Failed to delete budget" });
+    }
+  });
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -145,7 +710,24 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
       const updates = req.body;
+      if (updates.monthStartDay !== undefined && !isMonthStartDay(updates.monthStartDay)) {
+        return res.status(400).json({ message: "Month start day must be between 1 and 28" });
+      }
+      if (updates.weekStartDay !== undefined && !isWeekStartDay(updates.weekStartDay)) {
+        return res.status(400).json({ message: "Week start day must be between 0 (Sunday) and 6 (Saturday)" });
+      }
+
+      const previous = await storage.getUserCalendar(userId);
       const user = await storage.updateUserPreferences(userId, updates);
+
+      // Budgets following the user's calendar are redrawn on the new cycles, so their closed periods no longer line up
+      const calendar = calendarOf(user);
+      if (calendar.monthStartDay !== previous.monthStartDay || calendar.weekStartDay !== previous.weekStartDay) {
+        const budgets = (await storage.getBudgets(userId)).filter(budget => budget.followsCalendar);
+        for (const budget of budgets) {
+          await storage.clearBudgetLedger(budget.id, userId);
+        }
+      }
       res.json(user);
     } catch (error) {
       console.error("Error updating user:", error);
@@ -178,87 +760,697 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get('/api/expenses', isAuthenticated, async (req: any, res) => {
+  app.get('/api/expenses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const filters = req.query;
+
+      // Convert date strings to Date objects
+      if (filters.startDate) filters.startDate = new Date(filters.startDate);
+      if (filters.endDate) filters.endDate = new Date(filters.endDate);
+      if (filters.tags) filters.tags = filters.tags.split(',');
+
+      const expenses = await storage.getExpenses(userId, filters);
+      res.json(expenses);
+    } catch (error) {
+      console.error("Error fetching expenses:", error);
+      res.status(500).json({ message: "Failed to fetch expenses" });
+    }
+  });
+
+  // Duplicate review routes (registered before /api/expenses/:id so "duplicates" is not taken as an id)
+  app.get('/api/expenses/duplicates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const expenses = await storage.getExpenses(userId);
+      const dismissals = await storage.getDuplicateDismissals(userId);
+      const dismissedPairs = new Set(dismissals.map(dismissal => duplicateService.pairKey(dismissal.expenseId, dismissal.duplicateId)));
+      const currency = (await storage.getUser(userId))?.currency || "USD";
+      const pairs = duplicateService.findDuplicatePairs(expenses, dismissedPairs, { currency });
+      res.json(pairs);
+    } catch (error) {
+      console.error("Error finding duplicate expenses:", error);
+      res.status(500).json({ message: "Failed to find duplicate expenses" });
+    }
+  });
+
+  app.post('/api/expenses/duplicates/dismiss', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { expenseId, duplicateId } = req.body;
+      const expense = await storage.getExpenseById(expenseId, userId);
+      const duplicate = await storage.getExpenseById(duplicateId, userId);
+
+      if (!expense || !duplicate) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const dismissal = await storage.dismissDuplicate({ userId, expenseId, duplicateId });
+      res.json(dismissal);
+    } catch (error) {
+      console.error("Error dismissing duplicate:", error);
+      res.status(500).json({ message: "Failed to dismiss duplicate" });
+    }
+  });
+
+  app.post('/api/expenses/duplicates/merge', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { keepId, duplicateId } = req.body;
+      const keep = await storage.getExpenseById(keepId, userId);
+      const duplicate = await storage.getExpenseById(duplicateId, userId);
+
+      if (!keep || !duplicate || keepId === duplicateId) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      // Removing one leg of a transfer would leave the other unbalanced
+      if (keep.transferId || duplicate.transferId) {
+        return res.status(400).json({ message: "Transfers cannot be merged" });
+      }
+
+      const updates = duplicateService.mergeFields(keep, duplicate);
+      const expense = await storage.mergeExpenses(keepId, duplicateId, userId, updates);
+      res.json(expense);
+    } catch (error) {
+      console.error("Error merging duplicate expenses:", error);
+      res.status(500).json({ message: "Failed to merge duplicate expenses" });
+    }
+  });
+
+  app.get('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const { id } = req.params;
+      const expense = await storage.getExpenseById(id, userId);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      res.json(expense);
+    } catch (error) {
+      console.error("Error fetching expense:", error);
+      res.status(500).json({ message: "Failed to fetch expense" });
+    }
+  });
+
+  app.get('/api/expenses/:id/splits', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const expense = await storage.getExpenseById(id, userId);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const splits = await storage.getExpenseSplits(id, userId);
+      res.json(splits);
+    } catch (error) {
+      console.error("Error fetching expense splits:", error);
+      res.status(500).json({ message: "Failed to fetch expense splits" });
+    }
+  });
+
+  app.put('/api/expenses/:id/splits', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const expense = await storage.getExpenseById(id, userId);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const splits = parseSplits(req.body.splits);
+      const splitError = splits.length > 0 ? validateSplits(expense.amount, splits) : null;
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const savedSplits = await storage.replaceExpenseSplits(id, userId, splits);
+      checkBudgetAlerts(userId, expense);
+      res.json(savedSplits);
+    } catch (error) {
+      console.error("Error saving expense splits:", error);
+      res.status(500).json({ message: "Failed to save expense splits" });
+    }
+  });
+
+  app.patch('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const { id } = req.params;
+      const existing = await storage.getExpenseById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      if (existing.transferId) {
+        return res.status(400).json({ message: "Transfers are edited through /api/transfers" });
+      }
+
+      const { splits: rawSplits, ...updates } = req.body;
+      if (!(await isOwnAccount(userId, updates.accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      const { error: splitError, splits } = await resolveSplitUpdate(userId, existing, updates.amount, rawSplits);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      const { error: currencyError, normalized } = await normalizeExpenseAmount(userId, updates.amount, updates.currency, updates.date, existing);
+      if (currencyError) {
+        return res.status(400).json({ message: currencyError });
+      }
+      const accountId = updates.accountId !== undefined ? updates.accountId : existing.accountId;
+      const accountError = await accountCurrencyError(userId, accountId, normalized!.currency!);
+      if (accountError) {
+        return res.status(400).json({ message: accountError });
+      }
+
+      const expense = await storage.updateExpense(id, userId, {
+        ...updates,
+        ...normalized,
+        amount: decimalField(updates.amount),
+        ...(updates.date && { date: new Date(updates.date) }),
+      });
+      if (splits) {
+        await storage.replaceExpenseSplits(id, userId, splits);
+      }
+      checkBudgetAlerts(userId, expense);
+      res.json(expense);
+    } catch (error) {
+      console.error("Error updating expense:", error);
+      res.status(500).json({ message: "Failed to update expense" });
+    }
+  });
+
+  app.delete('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const { id } = req.params;
+      await storage.deleteExpense(id, userId);
+      res.json({ message: "Expense deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  // File upload route
+  app.post('/api/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const fileUrl = `/uploads/${req.file.filename}`;
+      const fileInfo = {
+        url: fileUrl,
+        originalName: req.file.originalname,
+        filename: req.file.filename,
+        size: req.file.size,
+        mimetype: req.file.mimetype,
+        uploadedAt: new Date().toISOString()
+      };
+
+      res.json(fileInfo);
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  // Statement import routes
+  app.post('/api/import/csv/preview', isAuthenticated, statementUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let options = parseImportOptions(req.body);
+      if (req.body.mappingId) {
+        const mapping = await storage.getImportMappingById(req.body.mappingId, userId);
+        if (!mapping) {
+          return res.status(404).json({ message: "Import mapping not found" });
+        }
+        options = {
+          columns: mapping.columns,
+          delimiter: mapping.delimiter ?? undefined,
+          dateFormat: mapping.dateFormat ?? undefined,
+          decimalSeparator: mapping.decimalSeparator ?? undefined,
+          hasHeader: mapping.hasHeader ?? undefined,
+          defaultCategory: mapping.defaultCategory ?? undefined,
+          ...options,
+        };
+      }
+
+      // Statements are read in the user's currency
+      const currency = (await storage.getUser(userId))?.currency || 'USD';
+      const content = await fs.promises.readFile(req.file.path, 'utf8');
+      const preview = importService.preview(content, userId, { currency, ...options });
+      res.json(await flagImportDuplicates(userId, preview));
+    } catch (error) {
+      console.error("Error previewing import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+      }
+    }
+  });
+
+  app.post('/api/import/ofx/preview', isAuthenticated, statementUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const currency = (await storage.getUser(userId))?.currency || 'USD';
+      const content = await fs.promises.readFile(req.file.path, 'utf8');
+      const preview = importService.previewOfx(content, userId, req.body.defaultCategory, currency);
+      const fitIds = preview.rows.flatMap(row => row.expense?.externalId ? [row.expense.externalId] : []);
+      const existingIds = await storage.getExistingExternalIds(userId, fitIds);
+      res.json(await flagImportDuplicates(userId, importService.excludeExisting(preview, existingIds)));
+    } catch (error) {
+      console.error("Error previewing OFX import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+      }
+    }
+  });
+
+  app.post('/api/import/qif/preview', isAuthenticated, statementUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const currency = (await storage.getUser(userId))?.currency || 'USD';
+      const content = await fs.promises.readFile(req.file.path, 'utf8');
+      const preview = importService.previewQif(content, userId, req.body.dateFormat, req.body.defaultCategory, currency);
+      res.json(await flagImportDuplicates(userId, preview));
+    } catch (error) {
+      console.error("Error previewing QIF import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    } finally {
+      if (req.file) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+      }
+    }
+  });
+
+  app.post('/api/import/commit', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const rows = Array.isArray(req.body.rows) ? req.body.rows : [];
+      const accountId = req.body.accountId || null;
+
+      if (!(await isOwnAccount(userId, accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      // Rows go through the same checks and currency normalization as a single new expense
+      const errors: { index: number; errors: string[] }[] = [];
+      const expenseList: InsertExpense[] = [];
+      for (const [index, row] of rows.entries()) {
+        const fields = Object.fromEntries(IMPORT_ROW_FIELDS.filter(field => row?.[field] !== undefined).map(field => [field, row[field]]));
+        const result = insertExpenseSchema.safeParse({ ...fields, userId, accountId, amount: decimalField(row?.amount), date: new Date(row?.date) });
+        if (!result.success) {
+          errors.push({ index, errors: result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`) });
+          continue;
+        }
+        if (result.data.type !== 'expense' && result.data.type !== 'income') {
+          errors.push({ index, errors: ["type: must be expense or income"] });
+          continue;
+        }
+
+        const { error: currencyError, normalized } = await normalizeExpenseAmount(userId, result.data.amount, result.data.currency, result.data.date);
+        const accountError = currencyError ? null : await accountCurrencyError(userId, accountId, normalized!.currency!);
+        if (currencyError || accountError) {
+          errors.push({ index, errors: [(currencyError || accountError)!] });
+          continue;
+        }
+        expenseList.push({ ...result.data, ...normalized });
+      }
+
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Some rows are invalid", errors });
+      }
+
+      // Statement rows seen before (same FITID), imported earlier or repeated in this batch, are skipped rather than inserted twice
+      const externalIds = expenseList.flatMap(expense => expense.externalId ? [expense.externalId] : []);
+      const seenIds = new Set(await storage.getExistingExternalIds(userId, externalIds));
+      const newExpenses = expenseList.filter(expense => {
+        if (!expense.externalId) return true;
+        if (seenIds.has(expense.externalId)) return false;
+        seenIds.add(expense.externalId);
+        return true;
+      });
+
+      const created = await storage.createExpenses(newExpenses);
+      checkBatchBudgetAlerts(userId, created);
+      res.json({ imported: created.length, skipped: expenseList.length - newExpenses.length, expenses: created });
+    } catch (error) {
+      console.error("Error committing import:", error);
+      res.status(500).json({ message: "Failed to import expenses" });
+    }
+  });
+
+  app.get('/api/import/mappings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const mappings = await storage.getImportMappings(userId);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ message: "Failed to fetch import mappings" });
+    }
+  });
+
+  app.post('/api/import/mappings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const mappingData = insertImportMappingSchema.parse({ ...req.body, userId });
+      const mapping = await storage.createImportMapping(mappingData);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error creating import mapping:", error);
+      res.status(500).json({ message: "Failed to create import mapping" });
+    }
+  });
+
+  app.patch('/api/import/mappings/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const updates = insertImportMappingSchema.partial().parse({ ...req.body, userId });
+      const mapping = await storage.updateImportMapping(id, userId, updates);
+
+      if (!mapping) {
+        return res.status(404).json({ message: "Import mapping not found" });
+      }
+
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error updating import mapping:", error);
+      res.status(500).json({ message: "Failed to update import mapping" });
+    }
+  });
+
+  app.delete('/api/import/mappings/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      await storage.deleteImportMapping(id, userId);
+      res.json({ message: "Import mapping deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ message: "Failed to delete import mapping" });
+    }
+  });
+
+  // Accounts
+  app.get('/api/accounts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const accounts = await storage.getAccounts(userId);
+      const balances = new Map((await storage.getAccountBalances(userId)).map(balance => [balance.accountId, balance]));
+      res.json(accounts.map(account => ({
+        ...account,
+        balance: balances.get(account.id)?.balance ?? Money.of(account.openingBalance || 0, account.currency || 'USD'),
+        transactionCount: balances.get(account.id)?.transactionCount ?? 0,
+      })));
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post('/api/accounts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const accountData = insertAccountSchema.parse({ ...req.body, userId });
+      const account = await storage.createAccount(accountData);
+      res.json(account);
+    } catch (error) {
+      console.error("Error creating account:", error);
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.get('/api/accounts/:id/ledger', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const account = await storage.getAccountById(id, userId);
+
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const ledger = await storage.getAccountLedger(id, userId);
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching account ledger:", error);
+      res.status(500).json({ message: "Failed to fetch account ledger" });
+    }
+  });
+
+  app.patch('/api/accounts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const updates = insertAccountSchema.partial().parse({ ...req.body, userId });
+      const existing = await storage.getAccountById(id, userId);
+      if (existing && updates.currency && updates.currency !== (existing.currency || 'USD')) {
+        const balance = (await storage.getAccountBalances(userId)).find(item => item.accountId === id);
+        if (balance && balance.transactionCount > 0) {
+          return res.status(400).json({ message: "The currency of an account with transactions cannot be changed" });
+        }
+      }
+
+      const account = await storage.updateAccount(id, userId, updates);
+
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      res.json(account);
+    } catch (error) {
+      console.error("Error updating account:", error);
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+
+  // Transactions of a deleted account are kept and become unassigned
+  app.delete('/api/accounts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      await storage.deleteAccount(id, userId);
+      res.json({ message: "Account deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Transfers between accounts
+  app.post('/api/transfers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const parsed = insertTransferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+
+      const { error, currency, amount } = await transferAmount(userId, parsed.data);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const transfer = await storage.createTransfer(userId, { ...parsed.data, amount: amount! }, currency!);
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error creating transfer:", error);
+      res.status(500).json({ message: "Failed to create transfer" });
+    }
+  });
+
+  app.get('/api/transfers/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const transfer = await storage.getTransfer(req.params.id, userId);
+
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching transfer:", error);
+      res.status(500).json({ message: "Failed to fetch transfer" });
+    }
+  });
+
+  app.patch('/api/transfers/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const filters = req.query;
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getTransfer(id, userId);
 
-      // Convert date strings to Date objects
-      if (filters.startDate) filters.startDate = new Date(filters.startDate);
-      if (filters.endDate) filters.endDate = new Date(filters.endDate);
-      if (filters.tags) filters.tags = filters.tags.split(',');
+      if (!existing) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
 
-      const expenses = await storage.getExpenses(userId, filters);
-      res.json(expenses);
+      const parsed = insertTransferSchema.safeParse({
+        fromAccountId: existing.fromAccountId,
+        toAccountId: existing.toAccountId,
+        amount: existing.amount,
+        date: existing.date,
+        description: existing.description,
+        ...req.body,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+
+      const { error, currency, amount } = await transferAmount(userId, parsed.data);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const transfer = await storage.updateTransfer(id, userId, { ...parsed.data, amount: amount! }, currency!);
+      res.json(transfer);
     } catch (error) {
-      console.error("Error fetching expenses:", error);
-      res.status(500).json({ message: "Failed to fetch expenses" });
+      console.error("Error updating transfer:", error);
+      res.status(500).json({ message: "Failed to update transfer" });
     }
   });
 
-  app.get('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/transfers/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const { id } = req.params;
-      const expense = await storage.getExpenseById(id, userId);
-
-      if (!expense) {
-        return res.status(404).json({ message: "Expense not found" });
-      }
+      const userId = req.user.userId;
+      await storage.deleteTransfer(req.params.id, userId);
+      res.json({ message: "Transfer deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting transfer:", error);
+      res.status(500).json({ message: "Failed to delete transfer" });
+    }
+  });
 
-      res.json(expense);
+  // Recurring transactions
+  app.get('/api/recurring', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const recurring = await storage.getRecurringTransactions(userId);
+      res.json(recurring);
     } catch (error) {
-      console.error("Error fetching expense:", error);
-      res.status(500).json({ message: "Failed to fetch expense" });
+      console.error("Error fetching recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch recurring transactions" });
     }
   });
 
-  app.patch('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/recurring/upcoming', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const { id } = req.params;
-      const updates = req.body;
-      const expense = await storage.updateExpense(id, userId, updates);
-      res.json(expense);
+      const userId = req.user.userId;
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 366);
+      const upcoming = await recurringService.getUpcoming(userId, days);
+      res.json(upcoming);
     } catch (error) {
-      console.error("Error updating expense:", error);
-      res.status(500).json({ message: "Failed to update expense" });
+      console.error("Error fetching upcoming recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch upcoming recurring transactions" });
     }
   });
 
-  app.delete('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/recurring', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const { id } = req.params;
-      await storage.deleteExpense(id, userId);
-      res.json({ message: "Expense deleted successfully" });
+      const userId = req.user.userId;
+      const recurringData = insertRecurringTransactionSchema.parse({
+        ...req.body,
+        userId,
+        startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
+        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
+      });
+
+      let nextRunDate: Date | null;
+      try {
+        nextRunDate = recurringService.nextOccurrence(recurringData, recurringData.startDate, recurringData.endDate);
+      } catch (ruleError: any) {
+        return res.status(400).json({ message: ruleError.message });
+      }
+
+      if (!nextRunDate) {
+        return res.status(400).json({ message: "Schedule has no occurrences" });
+      }
+
+      const recurring = await storage.createRecurringTransaction({ ...recurringData, nextRunDate });
+      res.json(recurring);
     } catch (error) {
-      console.error("Error deleting expense:", error);
-      res.status(500).json({ message: "Failed to delete expense" });
+      console.error("Error creating recurring transaction:", error);
+      res.status(500).json({ message: "Failed to create recurring transaction" });
     }
   });
 
-  // File upload route
-  app.post('/api/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.patch('/api/recurring/:id', isAuthenticated, async (req: any, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getRecurringTransactionById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
       }
 
-      const fileUrl = `/uploads/${req.file.filename}`;
-      const fileInfo = {
-        url: fileUrl,
-        originalName: req.file.originalname,
-        filename: req.file.filename,
-        size: req.file.size,
-        mimetype: req.file.mimetype,
-        uploadedAt: new Date().toISOString()
-      };
+      const updates = insertRecurringTransactionSchema.partial().parse({
+        ...req.body,
+        userId,
+        ...(req.body.startDate && { startDate: new Date(req.body.startDate) }),
+        ...(req.body.endDate !== undefined && { endDate: req.body.endDate ? new Date(req.body.endDate) : null }),
+      });
 
-      res.json(fileInfo);
+      // Schedule changes recompute the next run from the pending one, or from today if that is still ahead
+      let nextRunDate: Date | null = existing.nextRunDate;
+      if (updates.cadence || updates.interval || updates.rrule !== undefined || updates.startDate || updates.endDate !== undefined) {
+        const schedule = { ...existing, ...updates };
+        const today = new Date();
+        try {
+          nextRunDate = recurringService.nextOccurrence(schedule, existing.nextRunDate > today ? today : existing.nextRunDate, schedule.endDate);
+        } catch (ruleError: any) {
+          return res.status(400).json({ message: ruleError.message });
+        }
+      }
+
+      const recurring = await storage.updateRecurringTransaction(id, userId, {
+        ...updates,
+        ...(nextRunDate ? { nextRunDate } : { isActive: false }),
+      });
+      res.json(recurring);
     } catch (error) {
-      console.error("Error uploading file:", error);
-      res.status(500).json({ message: "Failed to upload file" });
+      console.error("Error updating recurring transaction:", error);
+      res.status(500).json({ message: "Failed to update recurring transaction" });
+    }
+  });
+
+  app.delete('/api/recurring/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      await storage.deleteRecurringTransaction(id, userId);
+      res.json({ message: "Recurring transaction deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting recurring transaction:", error);
+      res.status(500).json({ message: "Failed to delete recurring transaction" });
     }
   });
 
@@ -327,8 +1519,10 @@ export function registerRoutes(app: Express): Server {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
       const { startDate, endDate } = req.query;
 
-      const start = startDate ? new Date(startDate as string) : new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+      // Defaults to the current month so far, in the user's time zone
       const end = endDate ? new Date(endDate as string) : new Date();
+      const { timeZone, ...cycles } = await storage.getUserCalendar(userId);
+      const start = startDate ? new Date(startDate as string) : periodBounds(end, "month", timeZone, cycles).start;
 
       const breakdown = await storage.getCategoryBreakdown(userId, start, end);
       res.json(breakdown);
@@ -338,11 +1532,46 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Without a date range, covers the last `months` months (6 by default) up to today
   app.get('/api/dashboard/spending-trends', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const granularity = (req.query.granularity || "month") as Granularity;
+      const { timeZone: userTimeZone, ...cycles } = await storage.getUserCalendar(userId);
+      const timeZone = req.query.timeZone ? String(req.query.timeZone) : userTimeZone;
+      const { category, type } = req.query;
+
+      if (!GRANULARITIES.includes(granularity)) {
+        return res.status(400).json({ message: `Granularity must be one of ${GRANULARITIES.join(", ")}` });
+      }
+      if (!isTimeZone(timeZone)) {
+        return res.status(400).json({ message: `Unknown time zone: ${timeZone}` });
+      }
+
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
       const months = parseInt(req.query.months as string) || 6;
-      const trends = await storage.getSpendingTrends(userId, months);
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : isNaN(endDate.getTime()) ? endDate : startOfLocalDay(addMonths(localDay(endDate, timeZone), 1 - months), timeZone);
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (type && type !== "expense" && type !== "income") {
+        return res.status(400).json({ message: "Type must be expense or income" });
+      }
+      if (periodsBetween(startDate, endDate, granularity, timeZone, cycles, MAX_TREND_PERIODS + 1).length > MAX_TREND_PERIODS) {
+        return res.status(400).json({ message: `At most ${MAX_TREND_PERIODS} periods; choose a shorter range or a coarser granularity` });
+      }
+
+      const trends = await storage.getSpendingTrends(userId, {
+        granularity,
+        startDate,
+        endDate,
+        timeZone,
+        cycles,
+        category: category ? String(category) : undefined,
+        type: type || undefined,
+      });
       res.json(trends);
     } catch (error) {
       console.error("Error fetching spending trends:", error);
@@ -350,6 +1579,59 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Analytics routes
+  app.get('/api/analytics/compare', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const current = parseDateRange(req.query.currentStart, req.query.currentEnd);
+      const previous = parseDateRange(req.query.previousStart, req.query.previousEnd);
+      const dimension = (req.query.dimension || "category") as AnalyticsDimension;
+      const type = (req.query.type || "expense") as AnalyticsType;
+
+      if (!current || !previous) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (!ANALYTICS_DIMENSIONS.includes(dimension)) {
+        return res.status(400).json({ message: `Dimension must be one of ${ANALYTICS_DIMENSIONS.join(", ")}` });
+      }
+      if (!ANALYTICS_TYPES.includes(type)) {
+        return res.status(400).json({ message: `Type must be one of ${ANALYTICS_TYPES.join(", ")}` });
+      }
+
+      const comparison = await analyticsService.compare(userId, current, previous, dimension, type);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing periods:", error);
+      res.status(500).json({ message: "Failed to compare periods" });
+    }
+  });
+
+  // Drill-down into one group of a comparison; an empty key selects untagged or unassigned transactions
+  app.get('/api/analytics/transactions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const range = parseDateRange(req.query.start, req.query.end);
+      const dimension = (req.query.dimension || "category") as AnalyticsDimension;
+      const type = (req.query.type || "expense") as AnalyticsType;
+
+      if (!range) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (!ANALYTICS_DIMENSIONS.includes(dimension)) {
+        return res.status(400).json({ message: `Dimension must be one of ${ANALYTICS_DIMENSIONS.join(", ")}` });
+      }
+      if (!ANALYTICS_TYPES.includes(type)) {
+        return res.status(400).json({ message: `Type must be one of ${ANALYTICS_TYPES.join(", ")}` });
+      }
+
+      const transactions = await analyticsService.getTransactions(userId, range, dimension, String(req.query.key ?? ""), type);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching analytics transactions:", error);
+      res.status(500).json({ message: "Failed to fetch analytics transactions" });
+    }
+  });
+
   // AI routes
   app.post('/api/ai/analyze-expense', isAuthenticated, async (req: any, res) => {
     try {
@@ -366,7 +1648,7 @@ export function registerRoutes(app: Express): Server {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
       const { question } = req.body;
-      const userExpenses = await storage.getExpenses(userId);
+      const userExpenses = (await storage.getExpenses(userId)).filter(expense => expense.type !== 'transfer');
       const advice = await aiService.getFinancialAdvice(userExpenses, question);
       res.json(advice);
     } catch (error) {
@@ -378,7 +1660,7 @@ export function registerRoutes(app: Express): Server {
   app.get('/api/ai/spending-insights', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const userExpenses = await storage.getExpenses(userId);
+      const userExpenses = (await storage.getExpenses(userId)).filter(expense => expense.type !== 'transfer');
       const insights = await aiService.generateSpendingInsights(userExpenses);
       res.json(insights);
     } catch (error) {
@@ -400,8 +1682,19 @@ export function registerRoutes(app: Express): Server {
 
   app.post('/api/currencies/convert', isAuthenticated, async (req, res) => {
     try {
-      const { amount, from, to } = req.body;
-      const conversion = await currencyService.convert(amount, from, to);
+      const { amount, from, to, date } = req.body;
+      if (decimalField(amount) === undefined || isNaN(Number(amount))) {
+        return res.status(400).json({ message: "Invalid amount" });
+      }
+      const onDate = date ? new Date(String(date)) : undefined;
+      if (onDate && isNaN(onDate.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const unsupported = [from, to].find(code => typeof code !== 'string' || !getCurrencyInfo(code) || !currencyService.hasRate(code));
+      if (unsupported !== undefined) {
+        return res.status(400).json({ message: `Unsupported currency: ${unsupported}` });
+      }
+      const conversion = await currencyService.convert(amount, from, to, onDate);
       res.json(conversion);
     } catch (error) {
       console.error("Error converting currency:", error);
@@ -437,7 +1730,17 @@ export function registerRoutes(app: Express): Server {
   app.post('/api/goals', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const goalData = insertGoalSchema.parse({ ...req.body, userId });
+      const goalData = insertGoalSchema.parse({
+        ...req.body,
+        userId,
+        targetAmount: decimalField(req.body.targetAmount),
+        currentAmount: decimalField(req.body.currentAmount),
+        deadline: req.body.deadline ? new Date(req.body.deadline) : null,
+      });
+      if (!(Number(goalData.targetAmount) > 0)) {
+        return res.status(400).json({ message: "Goal target must be positive" });
+      }
+
       const goal = await storage.createGoal(goalData);
       res.json(goal);
     } catch (error) {
@@ -449,7 +1752,7 @@ export function registerRoutes(app: Express): Server {
   app.get('/api/goals', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
-      const goals = await storage.getGoals(userId);
+      const goals = await goalService.getGoalsWithProjections(userId);
       res.json(goals);
     } catch (error) {
       console.error("Error fetching goals:", error);
@@ -457,6 +1760,282 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Goal funding rules
+  app.get('/api/goals/funding-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const rules = await storage.getGoalFundingRules(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching goal funding rules:", error);
+      res.status(500).json({ message: "Failed to fetch goal funding rules" });
+    }
+  });
+
+  app.get('/api/goals/funding-rules/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const preview = await fundingRuleService.getPreview(userId);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing goal funding rules:", error);
+      res.status(500).json({ message: "Failed to preview goal funding rules" });
+    }
+  });
+
+  // Previews a rule before it is saved
+  app.post('/api/goals/funding-rules/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const ruleData = insertGoalFundingRuleSchema.parse({
+        ...req.body,
+        userId,
+        percentage: decimalField(req.body.percentage),
+        amount: decimalField(req.body.amount),
+        startDate: req.body.startDate ? new Date(req.body.startDate) : null,
+      });
+      const ruleError = validateFundingRule(ruleData);
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+
+      const preview = await fundingRuleService.preview(userId, [{
+        ...ruleData,
+        percentage: ruleData.percentage ?? null,
+        amount: ruleData.amount ?? null,
+        frequency: ruleData.frequency ?? null,
+        category: ruleData.category ?? null,
+        accountId: ruleData.accountId ?? null,
+      }]);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing goal funding rule:", error);
+      res.status(500).json({ message: "Failed to preview goal funding rule" });
+    }
+  });
+
+  app.post('/api/goals/funding-rules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const ruleData = insertGoalFundingRuleSchema.parse({
+        ...req.body,
+        userId,
+        percentage: decimalField(req.body.percentage),
+        amount: decimalField(req.body.amount),
+        startDate: req.body.startDate ? new Date(req.body.startDate) : null,
+        category: req.body.category || null,
+        accountId: req.body.accountId || null,
+      });
+      const ruleError = validateFundingRule(ruleData);
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      if (!(await storage.getGoalById(ruleData.goalId, userId))) {
+        return res.status(400).json({ message: "Goal not found" });
+      }
+      if (!(await isOwnAccount(userId, ruleData.accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      const rule = await storage.createGoalFundingRule({ ...ruleData, nextRunDate: firstFundingRun(ruleData) });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating goal funding rule:", error);
+      res.status(500).json({ message: "Failed to create goal funding rule" });
+    }
+  });
+
+  app.patch('/api/goals/funding-rules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getGoalFundingRuleById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Funding rule not found" });
+      }
+
+      const updates = insertGoalFundingRuleSchema.partial().parse({
+        ...req.body,
+        userId,
+        percentage: decimalField(req.body.percentage),
+        amount: decimalField(req.body.amount),
+        ...(req.body.startDate !== undefined && { startDate: req.body.startDate ? new Date(req.body.startDate) : null }),
+        ...(req.body.category !== undefined && { category: req.body.category || null }),
+        ...(req.body.accountId !== undefined && { accountId: req.body.accountId || null }),
+      });
+      const rule = { ...existing, ...updates };
+      const ruleError = validateFundingRule(rule);
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      if (updates.goalId && !(await storage.getGoalById(updates.goalId, userId))) {
+        return res.status(400).json({ message: "Goal not found" });
+      }
+      if (!(await isOwnAccount(userId, updates.accountId))) {
+        return res.status(400).json({ message: "Account not found" });
+      }
+
+      // A changed schedule starts over from today
+      const rescheduled = updates.type || updates.frequency || updates.startDate !== undefined;
+      const updated = await storage.updateGoalFundingRule(id, userId, {
+        ...updates,
+        ...(rescheduled && { nextRunDate: firstFundingRun(rule) }),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating goal funding rule:", error);
+      res.status(500).json({ message: "Failed to update goal funding rule" });
+    }
+  });
+
+  app.delete('/api/goals/funding-rules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      await storage.deleteGoalFundingRule(req.params.id, userId);
+      res.json({ message: "Funding rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting goal funding rule:", error);
+      res.status(500).json({ message: "Failed to delete goal funding rule" });
+    }
+  });
+
+  app.get('/api/goals/:id/projection', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const goal = await storage.getGoalById(req.params.id, userId);
+
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const projection = await goalService.getProjection(userId, goal);
+      res.json(projection);
+    } catch (error) {
+      console.error("Error fetching goal projection:", error);
+      res.status(500).json({ message: "Failed to fetch goal projection" });
+    }
+  });
+
+  // The saved amount follows the contributions, so it is not editable here
+  app.patch('/api/goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getGoalById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const { currentAmount, ...body } = req.body;
+      const updates = insertGoalSchema.partial().parse({
+        ...body,
+        userId,
+        targetAmount: decimalField(body.targetAmount),
+        ...(body.deadline !== undefined && { deadline: body.deadline ? new Date(body.deadline) : null }),
+      });
+      if (updates.targetAmount !== undefined && !(Number(updates.targetAmount) > 0)) {
+        return res.status(400).json({ message: "Goal target must be positive" });
+      }
+
+      const goal = await storage.updateGoal(id, userId, updates);
+      res.json(goal);
+    } catch (error) {
+      console.error("Error updating goal:", error);
+      res.status(500).json({ message: "Failed to update goal" });
+    }
+  });
+
+  app.delete('/api/goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { id } = req.params;
+      const existing = await storage.getGoalById(id, userId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      await storage.deleteGoal(id, userId);
+      res.json({ message: "Goal deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting goal:", error);
+      res.status(500).json({ message: "Failed to delete goal" });
+    }
+  });
+
+  app.get('/api/goals/:id/contributions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const goal = await storage.getGoalById(req.params.id, userId);
+
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const contributions = await storage.getGoalContributions(goal.id, userId);
+      res.json(contributions);
+    } catch (error) {
+      console.error("Error fetching goal contributions:", error);
+      res.status(500).json({ message: "Failed to fetch goal contributions" });
+    }
+  });
+
+  // Withdrawals are contributions with a negative amount
+  app.post('/api/goals/:id/contributions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const goal = await storage.getGoalById(req.params.id, userId);
+
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const contributionData = insertGoalContributionSchema.parse({
+        ...req.body,
+        goalId: goal.id,
+        userId,
+        amount: decimalField(req.body.amount),
+        date: req.body.date ? new Date(req.body.date) : undefined,
+        expenseId: req.body.expenseId || null,
+        transferId: req.body.transferId || null,
+      });
+      if (!Number(contributionData.amount)) {
+        return res.status(400).json({ message: "Contribution amount must not be zero" });
+      }
+      if (contributionData.expenseId && !(await storage.getExpenseById(contributionData.expenseId, userId))) {
+        return res.status(400).json({ message: "Expense not found" });
+      }
+      if (contributionData.transferId && !(await storage.getTransfer(contributionData.transferId, userId))) {
+        return res.status(400).json({ message: "Transfer not found" });
+      }
+
+      const contribution = await storage.addGoalContribution(contributionData);
+      res.json(contribution);
+    } catch (error) {
+      console.error("Error adding goal contribution:", error);
+      res.status(500).json({ message: "Failed to add goal contribution" });
+    }
+  });
+
+  app.delete('/api/goals/:id/contributions/:contributionId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const goal = await storage.getGoalById(req.params.id, userId);
+
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      await storage.deleteGoalContribution(req.params.contributionId, goal.id, userId);
+      res.json({ message: "Contribution removed successfully" });
+    } catch (error) {
+      console.error("Error removing goal contribution:", error);
+      res.status(500).json({ message: "Failed to remove goal contribution" });
+    }
+  });
+
   // Category routes
   app.post('/api/categories', isAuthenticated, async (req: any, res) => {
     try {
@@ -498,9 +2077,19 @@ export function registerRoutes(app: Express): Server {
 
   app.get('/api/currency/rates', async (req, res) => {
     try {
-      const { from, to } = req.query;
-      const rate = await currencyService.getExchangeRate(from as string, to as string);
-      res.json({ rate });
+      const { from, to, date } = req.query;
+      const onDate = date ? new Date(date as string) : undefined;
+      if (onDate && isNaN(onDate.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      if (from && to) {
+        const rate = await currencyService.getExchangeRate(from as string, to as string, onDate);
+        return res.json({ rate });
+      }
+
+      const rates = await currencyService.getRatesOn(onDate);
+      res.json({ base: "USD", date: onDate || new Date(), rates });
     } catch (error) {
       console.error("Error fetching currency rate:", error);
       res.status(500).json({ message: "Failed to fetch currency rate" });
@@ -546,8 +2135,21 @@ export function registerRoutes(app: Express): Server {
   app.get('/api/user/export', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId; // Assuming userId is stored in req.user after local authentication
+      const format = (req.query.format as string) || 'json';
       const exportData = await storage.exportUserData(userId);
 
+      if (format === 'qif') {
+        res.setHeader('Content-Type', 'application/qif');
+        res.setHeader('Content-Disposition', `attachment; filename="expense-data-${Date.now()}.qif"`);
+        return res.send(exportService.toQif(exportData.expenses, exportData.user));
+      }
+
+      if (format === 'ofx') {
+        res.setHeader('Content-Type', 'application/x-ofx');
+        res.setHeader('Content-Disposition', `attachment; filename="expense-data-${Date.now()}.ofx"`);
+        return res.send(exportService.toOfx(exportData.expenses, exportData.user));
+      }
+
       res.setHeader('Content-Type', 'application/json');
       res.setHeader('Content-Disposition', `attachment; filename="expense-data-${Date.now()}.json"`);
       res.json(exportData);
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Budget, Expense } from "@shared/schema";
+import { Money } from "@shared/money";
+import { DEFAULT_CYCLES } from "@shared/periods";
+import { storage } from "../storage";
+import { alertService } from "./alertService";
+import { budgetService, type BudgetProgress } from "./budgetService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getExpenseSplits: vi.fn(),
+    getBudgets: vi.fn(),
+    getUserCalendar: vi.fn(),
+    recordBudgetAlerts: vi.fn(),
+    createNotification: vi.fn(),
+  },
+}));
+
+const usd = (amount: string) => Money.of(amount, "USD");
+
+const budget = (overrides: Partial<Budget>): Budget => ({
+  id: "budget-1",
+  userId: "user-1",
+  name: "Groceries",
+  category: "groceries",
+  amount: "200.00",
+  period: "monthly",
+  startDate: new Date("2026-01-01T00:00:00Z"),
+  endDate: null,
+  followsCalendar: false,
+  rolloverMode: "none",
+  rolloverCap: null,
+  alertThresholds: [50, 80, 100],
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const progress = (spent: string, percentUsed: number): BudgetProgress => ({
+  budgetId: "budget-1",
+  name: "Groceries",
+  category: "groceries",
+  period: "monthly",
+  periodStart: new Date("2026-10-01T00:00:00Z"),
+  periodEnd: new Date(new Date("2026-11-01T00:00:00Z").getTime() - 1),
+  totalDays: 31,
+  daysElapsed: 10,
+  daysRemaining: 21,
+  closed: false,
+  baseAmount: usd("200"),
+  carriedIn: usd("0"),
+  budgeted: usd("200"),
+  spent: usd(spent),
+  remaining: usd("200").minus(usd(spent)),
+  percentUsed,
+  dailyPace: usd(spent).dividedBy(10),
+  dailyAllowance: usd("0"),
+  projectedSpend: usd(spent).times(31).dividedBy(10),
+  status: percentUsed >= 100 ? "over_budget" : "at_risk",
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: "user-1",
+  amount: "30.00",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Market",
+  category: "groceries",
+  date: new Date("2026-10-09T00:00:00Z"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-10T12:00:00Z"));
+  vi.mocked(storage.recordBudgetAlerts).mockReset();
+  vi.mocked(storage.createNotification).mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("AlertService.checkBudget", () => {
+  it("records every crossed threshold and notifies on the highest new one", async () => {
+    vi.spyOn(budgetService, "getProgress").mockResolvedValue(progress("170", 85));
+    vi.mocked(storage.recordBudgetAlerts).mockResolvedValue([80]);
+
+    await alertService.checkBudget("user-1", budget({}));
+
+    expect(storage.recordBudgetAlerts).toHaveBeenCalledWith([50, 80].map(threshold => ({
+      budgetId: "budget-1",
+      userId: "user-1",
+      periodStart: new Date("2026-10-01T00:00:00Z"),
+      threshold,
+    })));
+    expect(storage.createNotification).toHaveBeenCalledWith({
+      userId: "user-1",
+      title: "Groceries budget at 80%",
+      message: "You have used 85% of your Groceries budget: $170.00 of $200.00 spent this period.",
+      type: "warning",
+    });
+  });
+
+  it("sends one notification when several thresholds are crossed at once", async () => {
+    vi.spyOn(budgetService, "getProgress").mockResolvedValue(progress("250", 125));
+    vi.mocked(storage.recordBudgetAlerts).mockResolvedValue([50, 80, 100]);
+
+    await alertService.checkBudget("user-1", budget({}));
+
+    expect(storage.createNotification).toHaveBeenCalledTimes(1);
+    expect(storage.createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: "Groceries budget used up", type: "error" }));
+  });
+
+  it("stays quiet when the thresholds already alerted this period", async () => {
+    vi.spyOn(budgetService, "getProgress").mockResolvedValue(progress("170", 85));
+    vi.mocked(storage.recordBudgetAlerts).mockResolvedValue([]);
+
+    await alertService.checkBudget("user-1", budget({}));
+
+    expect(storage.createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe("AlertService.checkExpense", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "UTC", ...DEFAULT_CYCLES });
+    vi.mocked(storage.getExpenseSplits).mockResolvedValue([]);
+    vi.mocked(storage.getBudgets).mockResolvedValue([
+      budget({ id: "groceries" }),
+      budget({ id: "overall", category: null }),
+      budget({ id: "travel", category: "travel" }),
+      budget({ id: "archived", isActive: false }),
+    ]);
+  });
+
+  it("checks the active budgets the expense counts towards", async () => {
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    await alertService.checkExpense("user-1", expense({}));
+
+    expect(checkBudget.mock.calls.map(([, checked]) => checked.id)).toEqual(["groceries", "overall"]);
+  });
+
+  it("includes the categories of splits", async () => {
+    vi.mocked(storage.getExpenseSplits).mockResolvedValue([
+      { id: "split-1", expenseId: "expense-1", userId: "user-1", category: "travel", amount: "10.00", tags: null, notes: null, createdAt: null },
+    ]);
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    await alertService.checkExpense("user-1", expense({}));
+
+    expect(checkBudget.mock.calls.map(([, checked]) => checked.id)).toEqual(["groceries", "overall", "travel"]);
+  });
+
+  it("ignores income and spending in periods that have ended", async () => {
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    await alertService.checkExpense("user-1", expense({ type: "income" }));
+    await alertService.checkExpense("user-1", expense({ date: new Date("2026-09-30T00:00:00Z") }));
+
+    expect(checkBudget).not.toHaveBeenCalled();
+  });
+
+  it("decides whether a period has ended in the user's time zone", async () => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "Pacific/Auckland", ...DEFAULT_CYCLES });
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    // 20:00 UTC on 30 September is already 1 October in Auckland
+    await alertService.checkExpense("user-1", expense({ date: new Date("2026-09-30T20:00:00Z") }));
+
+    expect(checkBudget).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("AlertService.checkExpenses", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "UTC", ...DEFAULT_CYCLES });
+    vi.mocked(storage.getExpenseSplits).mockResolvedValue([]);
+    vi.mocked(storage.getBudgets).mockReset().mockResolvedValue([
+      budget({ id: "groceries" }),
+      budget({ id: "overall", category: null }),
+      budget({ id: "travel", category: "travel" }),
+    ]);
+  });
+
+  it("checks each budget once per period, as of the latest expense in it", async () => {
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    await alertService.checkExpenses("user-1", [
+      expense({ id: "expense-1", date: new Date("2026-10-12T00:00:00Z") }),
+      expense({ id: "expense-2", date: new Date("2026-10-14T00:00:00Z") }),
+      expense({ id: "expense-3", category: "travel", date: new Date("2026-10-13T00:00:00Z") }),
+      expense({ id: "expense-4", date: new Date("2026-09-14T00:00:00Z") }),
+    ]);
+
+    expect(checkBudget.mock.calls.map(([, checked, asOf]) => [checked.id, asOf?.toISOString()])).toEqual([
+      ["groceries", "2026-10-14T00:00:00.000Z"],
+      ["overall", "2026-10-14T00:00:00.000Z"],
+      ["travel", "2026-10-13T00:00:00.000Z"],
+    ]);
+  });
+
+  it("does nothing for a batch without spending", async () => {
+    const checkBudget = vi.spyOn(alertService, "checkBudget").mockResolvedValue();
+
+    await alertService.checkExpenses("user-1", [expense({ type: "income" })]);
+
+    expect(storage.getBudgets).not.toHaveBeenCalled();
+    expect(checkBudget).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import type { Budget, Expense } from "@shared/schema";
+import { formatMoney } from "@shared/currencies";
+import { storage } from "../storage";
+import { budgetService, type BudgetProgress } from "./budgetService";
+
+export const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+export class AlertService {
+  // Re-evaluates the budgets an expense counts towards and notifies on thresholds crossed in the
+  // expense's period. Each threshold alerts once per period, however often the budget is re-evaluated.
+  async checkExpense(userId: string, expense: Expense): Promise<void> {
+    await this.checkExpenses(userId, [expense]);
+  }
+
+  // The same for a batch of new expenses, such as an import or a recurring run: each budget is checked
+  // once per period the batch touches, as of the batch's latest expense in that period
+  async checkExpenses(userId: string, expenses: Expense[]): Promise<void> {
+    const spending = expenses.filter(expense => expense.type === "expense");
+    if (spending.length === 0) return;
+
+    const budgets = (await storage.getBudgets(userId)).filter(budget => budget.isActive !== false);
+    const { timeZone, ...cycles } = await storage.getUserCalendar(userId);
+    const now = new Date();
+    const checks = new Map<string, { budget: Budget; asOf: Date }>();
+    for (const expense of spending) {
+      const splits = await storage.getExpenseSplits(expense.id, userId);
+      const categories = new Set([expense.category, ...splits.map(split => split.category)]);
+      for (const budget of budgets) {
+        if (budget.category && !categories.has(budget.category)) continue;
+        const period = budgetService.getPeriod(budget, expense.date, timeZone, cycles);
+        // Spending added to a period that has already ended is history, not something to warn about
+        if (period.end < now) continue;
+        const key = `${budget.id}:${period.start.getTime()}`;
+        const check = checks.get(key);
+        if (!check || expense.date > check.asOf) checks.set(key, { budget, asOf: expense.date });
+      }
+    }
+
+    for (const { budget, asOf } of Array.from(checks.values())) {
+      await this.checkBudget(userId, budget, asOf);
+    }
+  }
+
+  async checkBudget(userId: string, budget: Budget, asOf: Date = new Date()): Promise<void> {
+    const thresholds = budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+    if (thresholds.length === 0) return;
+
+    const progress = await budgetService.getProgress(userId, budget, asOf);
+    const crossed = thresholds.filter(threshold => progress.percentUsed >= threshold);
+    const recorded = await storage.recordBudgetAlerts(
+      crossed.map(threshold => ({ budgetId: budget.id, userId, periodStart: progress.periodStart, threshold })),
+    );
+    if (recorded.length === 0) return;
+
+    // A jump past several thresholds at once sends a single notification for the highest
+    await storage.createNotification({ userId, ...this.describe(progress, Math.max(...recorded)) });
+  }
+
+  private describe(progress: BudgetProgress, threshold: number) {
+    const spent = formatMoney(progress.spent.toNumber(), progress.spent.currency);
+    const budgeted = formatMoney(progress.budgeted.toNumber(), progress.budgeted.currency);
+    return {
+      title: threshold >= 100 ? `${progress.name} budget used up` : `${progress.name} budget at ${threshold}%`,
+      message: `You have used ${Math.round(progress.percentUsed)}% of your ${progress.name} budget: ${spent} of ${budgeted} spent this period.`,
+      type: threshold >= 100 ? "error" : "warning",
+    };
+  }
+}
+
+export const alertService = new AlertService();
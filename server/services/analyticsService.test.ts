@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Account, Expense, User } from "@shared/schema";
+import { Money } from "@shared/money";
+import { storage, type Allocation } from "../storage";
+import { analyticsService } from "./analyticsService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getUser: vi.fn(),
+    getAccounts: vi.fn(),
+    getAllocations: vi.fn(),
+  },
+}));
+
+const user: User = {
+  id: "user-1",
+  email: "ada@example.com",
+  password: null,
+  firstName: "Ada",
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
+  language: "en",
+  currency: "USD",
+  timezone: "UTC",
+  monthStartDay: 1,
+  weekStartDay: 1,
+  theme: "light",
+  onboardingCompleted: true,
+  budgetingMode: "standard",
+};
+
+const account: Account = {
+  id: "account-1",
+  userId: user.id,
+  name: "Checking",
+  type: "checking",
+  currency: "USD",
+  openingBalance: "0",
+  isArchived: false,
+  createdAt: null,
+  updatedAt: null,
+};
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: user.id,
+  amount: "50.00",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Train",
+  category: "travel",
+  date: new Date("2026-10-05T00:00:00Z"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const allocation = (item: Expense, category: string, amount: string): Allocation => ({ expense: item, category, amount: Money.of(amount, "USD") });
+
+const current = { start: new Date("2026-10-01T00:00:00Z"), end: new Date("2026-10-31T23:59:59.999Z") };
+const previous = { start: new Date("2026-09-01T00:00:00Z"), end: new Date("2026-09-30T23:59:59.999Z") };
+
+// A trip split between travel and food, a coffee, and last month's coffee under another spelling
+const trip = expense({ id: "trip", tags: ["work", "trip", "work"], accountId: "account-1" });
+const coffee = expense({ id: "coffee", amount: "10.00", description: "Corner Cafe ", category: "food", date: new Date("2026-10-02T00:00:00Z") });
+const oldCoffee = expense({ id: "old-coffee", amount: "20.00", description: "corner  cafe", category: "food", date: new Date("2026-09-10T00:00:00Z") });
+
+beforeEach(() => {
+  vi.mocked(storage.getUser).mockResolvedValue(user);
+  vi.mocked(storage.getAccounts).mockResolvedValue([account]);
+  vi.mocked(storage.getAllocations).mockImplementation(async (_userId, start) => start.getTime() === current.start.getTime()
+    ? [allocation(trip, "travel", "20.00"), allocation(trip, "food", "30.00"), allocation(coffee, "food", "10.00")]
+    : [allocation(oldCoffee, "food", "20.00")]);
+});
+
+const summarize = ({ groups }: { groups: { key: string; label: string; current: Money; previous: Money; percentChange: number | null; currentCount: number }[] }) =>
+  groups.map(group => [group.key, group.label, group.current.toString(), group.previous.toString(), group.percentChange, group.currentCount]);
+
+describe("AnalyticsService.compare", () => {
+  it("compares split categories, counting each transaction once in the totals", async () => {
+    const comparison = await analyticsService.compare(user.id, current, previous, "category", "expense");
+
+    expect(storage.getAllocations).toHaveBeenCalledWith(user.id, current.start, current.end, "expense");
+    expect(summarize(comparison)).toEqual([
+      ["food", "food", "40.00", "20.00", 100, 2],
+      ["travel", "travel", "20.00", "0.00", null, 1],
+    ]);
+    expect(comparison.current).toMatchObject({ count: 2 });
+    expect([comparison.current.total, comparison.previous.total, comparison.change].map(String)).toEqual(["60.00", "20.00", "40.00"]);
+    expect(comparison.percentChange).toBe(200);
+  });
+
+  it("counts a transaction towards each of its tags", async () => {
+    expect(summarize(await analyticsService.compare(user.id, current, previous, "tag", "expense"))).toEqual([
+      ["work", "work", "50.00", "0.00", null, 1],
+      ["trip", "trip", "50.00", "0.00", null, 1],
+      ["", "", "10.00", "20.00", -50, 1],
+    ]);
+  });
+
+  it("names accounts and matches merchants ignoring case and spacing", async () => {
+    expect(summarize(await analyticsService.compare(user.id, current, previous, "account", "expense"))).toEqual([
+      ["account-1", "Checking", "50.00", "0.00", null, 1],
+      ["", "", "10.00", "20.00", -50, 1],
+    ]);
+    expect(summarize(await analyticsService.compare(user.id, current, previous, "merchant", "expense"))).toEqual([
+      ["train", "Train", "50.00", "0.00", null, 1],
+      ["corner cafe", "Corner Cafe", "10.00", "20.00", -50, 1],
+    ]);
+  });
+});
+
+describe("AnalyticsService.getTransactions", () => {
+  it("lists a group's transactions once, with the part that falls in the group", async () => {
+    const transactions = await analyticsService.getTransactions(user.id, current, "tag", "work", "expense");
+
+    expect(transactions.map(({ expense, amount }) => [expense.id, amount.toString()])).toEqual([["trip", "50.00"]]);
+  });
+});
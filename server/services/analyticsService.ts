@@ -0,0 +1,173 @@
+import type { Expense } from "@shared/schema";
+import { Money } from "@shared/money";
+import { storage, type Allocation } from "../storage";
+
+export type AnalyticsDimension = "category" | "tag" | "account" | "merchant";
+export type AnalyticsType = "expense" | "income";
+
+export const ANALYTICS_DIMENSIONS: AnalyticsDimension[] = ["category", "tag", "account", "merchant"];
+export const ANALYTICS_TYPES: AnalyticsType[] = ["expense", "income"];
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface PeriodTotals extends DateRange {
+  total: Money;
+  count: number; // Transactions, each counted once however it is split or tagged
+}
+
+export interface ComparisonGroup {
+  key: string; // Empty for transactions without a tag or account
+  label: string;
+  current: Money;
+  previous: Money;
+  change: Money;
+  percentChange: number | null; // null when nothing was recorded in the previous period
+  currentCount: number;
+  previousCount: number;
+}
+
+export interface PeriodComparison {
+  dimension: AnalyticsDimension;
+  type: AnalyticsType;
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  change: Money;
+  percentChange: number | null;
+  groups: ComparisonGroup[];
+}
+
+export interface GroupTransaction {
+  expense: Expense;
+  amount: Money; // The part of the transaction that falls in the group
+}
+
+interface GroupKey {
+  key: string;
+  label: string;
+}
+
+// Merchants are told apart by description, ignoring case and spacing
+const merchantKey = (description: string) => description.trim().replace(/\s+/g, " ").toLowerCase();
+
+const percentChange = (current: Money, previous: Money) =>
+  previous.isZero() ? null : current.minus(previous).ratio(previous) * 100;
+
+export class AnalyticsService {
+  // Totals per group in two periods. A transaction with several tags counts towards each of them, so tag
+  // groups can add up to more than the period total.
+  async compare(
+    userId: string,
+    current: DateRange,
+    previous: DateRange,
+    dimension: AnalyticsDimension,
+    type: AnalyticsType,
+  ): Promise<PeriodComparison> {
+    const currency = (await storage.getUser(userId))?.currency || "USD";
+    const accountNames = await this.getAccountNames(userId, dimension);
+    const currentRows = await storage.getAllocations(userId, current.start, current.end, type);
+    const previousRows = await storage.getAllocations(userId, previous.start, previous.end, type);
+
+    const groups = new Map<string, { label: string; current: Money[]; previous: Money[]; currentIds: Set<string>; previousIds: Set<string> }>();
+    const collect = (rows: Allocation[], period: "current" | "previous") => {
+      for (const row of rows) {
+        for (const { key, label } of this.keysOf(row, dimension, accountNames)) {
+          if (!groups.has(key)) {
+            groups.set(key, { label, current: [], previous: [], currentIds: new Set(), previousIds: new Set() });
+          }
+          const group = groups.get(key)!;
+          group[period].push(row.amount);
+          group[period === "current" ? "currentIds" : "previousIds"].add(row.expense.id);
+        }
+      }
+    };
+    collect(currentRows, "current");
+    collect(previousRows, "previous");
+
+    const comparison = Array.from(groups, ([key, group]): ComparisonGroup => {
+      const currentTotal = Money.sum(group.current, currency);
+      const previousTotal = Money.sum(group.previous, currency);
+      return {
+        key,
+        label: group.label,
+        current: currentTotal,
+        previous: previousTotal,
+        change: currentTotal.minus(previousTotal),
+        percentChange: percentChange(currentTotal, previousTotal),
+        currentCount: group.currentIds.size,
+        previousCount: group.previousIds.size,
+      };
+    }).sort((a, b) => b.current.compare(a.current) || b.previous.compare(a.previous));
+
+    const currentTotals = this.totals(current, currentRows, currency);
+    const previousTotals = this.totals(previous, previousRows, currency);
+    return {
+      dimension,
+      type,
+      current: currentTotals,
+      previous: previousTotals,
+      change: currentTotals.total.minus(previousTotals.total),
+      percentChange: percentChange(currentTotals.total, previousTotals.total),
+      groups: comparison,
+    };
+  }
+
+  // The transactions behind one group of a comparison, newest first
+  async getTransactions(
+    userId: string,
+    range: DateRange,
+    dimension: AnalyticsDimension,
+    key: string,
+    type: AnalyticsType,
+  ): Promise<GroupTransaction[]> {
+    const accountNames = await this.getAccountNames(userId, dimension);
+    const rows = await storage.getAllocations(userId, range.start, range.end, type);
+
+    const transactions = new Map<string, GroupTransaction>();
+    for (const row of rows) {
+      if (!this.keysOf(row, dimension, accountNames).some(group => group.key === key)) continue;
+      const existing = transactions.get(row.expense.id);
+      transactions.set(row.expense.id, {
+        expense: row.expense,
+        amount: existing ? existing.amount.plus(row.amount) : row.amount,
+      });
+    }
+    return Array.from(transactions.values());
+  }
+
+  private totals(range: DateRange, rows: Allocation[], currency: string): PeriodTotals {
+    return {
+      ...range,
+      total: Money.sum(rows.map(row => row.amount), currency),
+      count: new Set(rows.map(row => row.expense.id)).size,
+    };
+  }
+
+  private async getAccountNames(userId: string, dimension: AnalyticsDimension): Promise<Map<string, string>> {
+    if (dimension !== "account") return new Map();
+    const accounts = await storage.getAccounts(userId);
+    return new Map(accounts.map(account => [account.id, account.name]));
+  }
+
+  // Groups an allocation belongs to; merchants take the spelling of their most recent transaction
+  private keysOf(row: Allocation, dimension: AnalyticsDimension, accountNames: Map<string, string>): GroupKey[] {
+    switch (dimension) {
+      case "category":
+        return [{ key: row.category, label: row.category }];
+      case "tag": {
+        const tags = Array.from(new Set(row.expense.tags || []));
+        return tags.length > 0 ? tags.map(tag => ({ key: tag, label: tag })) : [{ key: "", label: "" }];
+      }
+      case "account": {
+        const accountId = row.expense.accountId;
+        return [{ key: accountId || "", label: accountId ? accountNames.get(accountId) || "" : "" }];
+      }
+      case "merchant":
+        return [{ key: merchantKey(row.expense.description), label: row.expense.description.trim() }];
+    }
+  }
+}
+
+export const analyticsService = new AnalyticsService();
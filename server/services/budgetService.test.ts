@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Budget, BudgetLedgerEntry, User } from "@shared/schema";
+import { Money } from "@shared/money";
+import { DEFAULT_CYCLES } from "@shared/periods";
+import { storage } from "../storage";
+import { budgetService } from "./budgetService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getCategorySpending: vi.fn(),
+    getCategorySpendingByPeriod: vi.fn(),
+    getUser: vi.fn(),
+    getUserCalendar: vi.fn(),
+    getBudgetLedger: vi.fn(),
+    addBudgetLedgerEntry: vi.fn(),
+  },
+}));
+
+const user: User = {
+  id: "user-1",
+  email: "ada@example.com",
+  password: null,
+  firstName: "Ada",
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
+  language: "en",
+  currency: "USD",
+  timezone: "UTC",
+  monthStartDay: 1,
+  weekStartDay: 1,
+  theme: "light",
+  onboardingCompleted: true,
+  budgetingMode: "standard",
+};
+
+const AUCKLAND = "Pacific/Auckland";
+const LOS_ANGELES = "America/Los_Angeles";
+
+// Midnight UTC of a day, and the last millisecond before it
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const before = (iso: string) => new Date(day(iso).getTime() - 1);
+
+const budget = (overrides: Partial<Budget>): Budget => ({
+  id: "budget-1",
+  userId: "user-1",
+  name: "Groceries",
+  category: "groceries",
+  amount: "300.00",
+  period: "monthly",
+  startDate: day("2026-10-01"),
+  endDate: null,
+  followsCalendar: false,
+  rolloverMode: "none",
+  rolloverCap: null,
+  alertThresholds: [50, 80, 100],
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+// Progress runs as of Oct 10, 2026; periods that ended before then get closed
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-10-10T12:00:00Z"));
+  vi.mocked(storage.getUser).mockResolvedValue(user);
+  vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "UTC", ...DEFAULT_CYCLES });
+  vi.mocked(storage.getCategorySpending).mockReset();
+  vi.mocked(storage.getCategorySpendingByPeriod).mockReset().mockImplementation(async (_userId, periods) => periods.map(() => Money.zero("USD")));
+  vi.mocked(storage.getBudgetLedger).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.addBudgetLedgerEntry).mockReset().mockImplementation(async entry => ({ ...entry, id: "entry-1", createdAt: null }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("BudgetService.getPeriod", () => {
+  const period = (overrides: Partial<Budget>, asOf: string, timeZone: string, cycles = DEFAULT_CYCLES) => {
+    const { start, end } = budgetService.getPeriod(budget(overrides), new Date(asOf), timeZone, cycles);
+    return { start: start.toISOString(), end: end.toISOString() };
+  };
+
+  it("clamps a start on the 31st to the end of shorter months", () => {
+    expect(period({ startDate: day("2026-01-31") }, "2026-02-15T12:00:00Z", "UTC")).toEqual({
+      start: "2026-01-31T00:00:00.000Z",
+      end: "2026-02-27T23:59:59.999Z",
+    });
+    expect(period({ startDate: day("2026-01-31") }, "2026-03-01T12:00:00Z", "UTC")).toEqual({
+      start: "2026-02-28T00:00:00.000Z",
+      end: "2026-03-30T23:59:59.999Z",
+    });
+  });
+
+  it("uses the first period before the start and stops at the end of the budget's last day", () => {
+    const ending = { period: "yearly", endDate: day("2027-03-10") };
+
+    expect(period(ending, "2026-01-01T00:00:00Z", "UTC").start).toBe("2026-10-01T00:00:00.000Z");
+    expect(period(ending, "2030-01-01T00:00:00Z", "UTC")).toEqual({
+      start: "2026-10-01T00:00:00.000Z",
+      end: "2027-03-10T23:59:59.999Z",
+    });
+  });
+
+  it("runs a monthly Los Angeles budget from local midnight across fall-back", () => {
+    // Started at midnight on 1 October in Los Angeles
+    const monthly = { startDate: new Date("2026-10-01T07:00:00Z") };
+    expect(period(monthly, "2026-11-01T06:59:59Z", LOS_ANGELES)).toEqual({
+      start: "2026-10-01T07:00:00.000Z",
+      end: "2026-11-01T06:59:59.999Z",
+    });
+    expect(period(monthly, "2026-11-15T12:00:00Z", LOS_ANGELES)).toEqual({
+      start: "2026-11-01T07:00:00.000Z",
+      end: "2026-12-01T07:59:59.999Z",
+    });
+  });
+
+  it("rolls an Auckland month over at local midnight, not UTC midnight", () => {
+    const monthly = { startDate: new Date("2026-09-30T11:00:00Z") }; // 1 October in Auckland
+    // 23:30 on 31 October in Auckland
+    expect(period(monthly, "2026-10-31T10:30:00Z", AUCKLAND)).toEqual({
+      start: "2026-09-30T11:00:00.000Z",
+      end: "2026-10-31T10:59:59.999Z",
+    });
+    // 00:30 on 1 November in Auckland, still 31 October in UTC
+    expect(period(monthly, "2026-10-31T11:30:00Z", AUCKLAND)).toEqual({
+      start: "2026-10-31T11:00:00.000Z",
+      end: "2026-11-30T10:59:59.999Z",
+    });
+  });
+
+  it("keeps weekly Auckland periods on the start's weekday across spring-forward", () => {
+    const weekly = { period: "weekly", startDate: new Date("2026-09-20T12:00:00Z") }; // Monday 21 September in Auckland
+    // 23:00 on Sunday 27 September, the day the clocks went forward
+    expect(period(weekly, "2026-09-27T10:00:00Z", AUCKLAND)).toEqual({
+      start: "2026-09-20T12:00:00.000Z",
+      end: "2026-09-27T10:59:59.999Z",
+    });
+    expect(period(weekly, "2026-09-27T11:00:00Z", AUCKLAND)).toEqual({
+      start: "2026-09-27T11:00:00.000Z",
+      end: "2026-10-04T10:59:59.999Z",
+    });
+  });
+
+  it("follows the user's month start day instead of the start date when the budget follows their calendar", () => {
+    const monthly = { startDate: day("2026-09-25"), followsCalendar: true };
+    const payday = { weekStartDay: 1, monthStartDay: 25 };
+
+    expect(period(monthly, "2026-10-10T12:00:00Z", "UTC", payday)).toEqual({
+      start: "2026-09-25T00:00:00.000Z",
+      end: "2026-10-24T23:59:59.999Z",
+    });
+    // After the user moves their month start to the 1st, the budget moves with it
+    expect(period(monthly, "2026-10-10T12:00:00Z", "UTC")).toEqual({
+      start: "2026-10-01T00:00:00.000Z",
+      end: "2026-10-31T23:59:59.999Z",
+    });
+    // Before the start the first period applies
+    expect(period(monthly, "2026-01-10T12:00:00Z", "UTC", payday).start).toBe("2026-09-25T00:00:00.000Z");
+  });
+
+  it("follows the user's week start and stops at the budget's last day", () => {
+    const weekly = { period: "weekly", startDate: day("2026-10-05"), endDate: day("2026-10-20"), followsCalendar: true };
+    const sundays = { weekStartDay: 0, monthStartDay: 1 };
+
+    // Thursday 15 October in Auckland falls in the week from Sunday 11 October
+    expect(period(weekly, "2026-10-14T12:00:00Z", AUCKLAND, sundays)).toEqual({
+      start: "2026-10-10T11:00:00.000Z",
+      end: "2026-10-17T10:59:59.999Z",
+    });
+    expect(period(weekly, "2026-12-01T00:00:00Z", "UTC", sundays)).toEqual({
+      start: "2026-10-18T00:00:00.000Z",
+      end: "2026-10-20T23:59:59.999Z",
+    });
+  });
+
+  it("keeps yearly budgets on their start date", () => {
+    expect(period({ period: "yearly", startDate: day("2026-03-10"), followsCalendar: true }, "2026-10-10T12:00:00Z", "UTC").start).toBe("2026-03-10T00:00:00.000Z");
+  });
+});
+
+describe("BudgetService.getProgress", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getCategorySpending).mockResolvedValue(Money.of("150", "USD"));
+  });
+
+  it("measures pace and projects the period's spend", async () => {
+    const progress = await budgetService.getProgress("user-1", budget({}), new Date("2026-10-10T12:00:00Z"));
+
+    expect(storage.getCategorySpending).toHaveBeenCalledWith("user-1", day("2026-10-01"), before("2026-11-01"), "groceries");
+    expect(progress).toMatchObject({ totalDays: 31, daysElapsed: 10, daysRemaining: 21, percentUsed: 50, status: "at_risk" });
+    expect([progress.remaining, progress.dailyPace, progress.dailyAllowance, progress.projectedSpend].map(String)).toEqual(["150.00", "15.00", "7.14", "465.00"]);
+  });
+
+  it("reports overspending once spent passes the budget", async () => {
+    vi.mocked(storage.getCategorySpending).mockResolvedValue(Money.of("320", "USD"));
+    vi.setSystemTime(new Date("2026-10-31T12:00:00Z"));
+    const progress = await budgetService.getProgress("user-1", budget({}), new Date("2026-10-31T12:00:00Z"));
+
+    expect(progress).toMatchObject({ daysRemaining: 0, closed: false, status: "over_budget" });
+    expect([progress.remaining, progress.dailyAllowance, progress.projectedSpend].map(String)).toEqual(["-20.00", "0.00", "320.00"]);
+  });
+
+  it("counts the days of the user's period, however long its hours", async () => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: LOS_ANGELES, ...DEFAULT_CYCLES });
+    // Monthly from 1 November in Los Angeles; 22:00 on 10 November there
+    const progress = await budgetService.getProgress("user-1", budget({ startDate: new Date("2026-11-01T07:00:00Z") }), new Date("2026-11-11T06:00:00Z"));
+
+    expect(storage.getCategorySpending).toHaveBeenCalledWith("user-1", new Date("2026-11-01T07:00:00Z"), new Date("2026-12-01T07:59:59.999Z"), "groceries");
+    expect(progress).toMatchObject({ totalDays: 30, daysElapsed: 10, daysRemaining: 20 });
+  });
+
+  it("measures a budget following the user's calendar over their current month", async () => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "UTC", weekStartDay: 1, monthStartDay: 25 });
+    const progress = await budgetService.getProgress("user-1", budget({ startDate: day("2026-09-25"), followsCalendar: true }), new Date("2026-10-10T12:00:00Z"));
+
+    expect(storage.getCategorySpending).toHaveBeenCalledWith("user-1", day("2026-09-25"), before("2026-10-25"), "groceries");
+    expect(progress).toMatchObject({ totalDays: 30, daysElapsed: 16 });
+  });
+});
+
+describe("BudgetService.carryOver", () => {
+  const left = (amount: string) => Money.of(amount, "USD");
+
+  it("passes on what the rollover mode allows, up to the cap", () => {
+    expect(budgetService.carryOver({ rolloverMode: "none", rolloverCap: null }, left("40")).toString()).toBe("0.00");
+    expect(budgetService.carryOver({ rolloverMode: "surplus", rolloverCap: null }, left("-40")).toString()).toBe("0.00");
+    expect(budgetService.carryOver({ rolloverMode: "surplus", rolloverCap: "25" }, left("40")).toString()).toBe("25.00");
+    expect(budgetService.carryOver({ rolloverMode: "surplus_and_deficit", rolloverCap: "25" }, left("-40")).toString()).toBe("-25.00");
+    expect(budgetService.carryOver({ rolloverMode: "surplus_and_deficit", rolloverCap: null }, left("-40")).toString()).toBe("-40.00");
+  });
+});
+
+describe("BudgetService rollover ledger", () => {
+  const september = { start: day("2026-09-01"), end: before("2026-10-01") };
+  const rolling = budget({ startDate: september.start, rolloverMode: "surplus" });
+
+  beforeEach(() => {
+    const spentIn = (start: Date) => Money.of(start.getUTCMonth() === 8 ? "200" : "50", "USD");
+    vi.mocked(storage.getCategorySpending).mockImplementation(async (_userId, start) => spentIn(start));
+    vi.mocked(storage.getCategorySpendingByPeriod).mockImplementation(async (_userId, periods) => periods.map(period => spentIn(period.start)));
+  });
+
+  it("closes past periods and carries their surplus forward", async () => {
+    const progress = await budgetService.getProgress("user-1", rolling, new Date("2026-10-10T12:00:00Z"));
+
+    expect(storage.addBudgetLedgerEntry).toHaveBeenCalledWith(expect.objectContaining({
+      periodStart: september.start,
+      periodEnd: september.end,
+      amount: "300.00",
+      carriedIn: "0.00",
+      spent: "200.00",
+      carriedOut: "100.00",
+      rolloverMode: "surplus",
+    }));
+    expect([progress.carriedIn, progress.budgeted, progress.remaining].map(String)).toEqual(["100.00", "400.00", "350.00"]);
+  });
+
+  it("reads the spending of every period it walks in one query", async () => {
+    const weekly = budget({ period: "weekly", amount: "100.00", startDate: day("2026-08-03"), rolloverMode: "surplus_and_deficit" });
+    const progress = await budgetService.getProgress("user-1", weekly, new Date("2026-10-10T12:00:00Z"));
+
+    // Mondays from 3 August up to the week of 5 October
+    expect(storage.getCategorySpendingByPeriod).toHaveBeenCalledTimes(1);
+    const [, periods, category] = vi.mocked(storage.getCategorySpendingByPeriod).mock.calls[0];
+    expect(periods).toHaveLength(9);
+    expect(periods[0]).toEqual({ start: day("2026-08-03"), end: before("2026-08-10") });
+    expect(periods[8]).toEqual({ start: day("2026-09-28"), end: before("2026-10-05") });
+    expect(category).toBe("groceries");
+    expect(storage.addBudgetLedgerEntry).toHaveBeenCalledTimes(9);
+    // Five weeks starting in August leave 50 each, four starting in September overspend by 100 each
+    expect(progress.carriedIn.toString()).toBe("-150.00");
+  });
+
+  it("reads closed periods from the ledger, even after the budget changed", async () => {
+    const entry: BudgetLedgerEntry = {
+      id: "entry-1",
+      budgetId: rolling.id,
+      userId: "user-1",
+      periodStart: september.start,
+      periodEnd: september.end,
+      amount: "250.000",
+      carriedIn: "0.000",
+      spent: "260.000",
+      carriedOut: "0.000",
+      rolloverMode: "surplus",
+      createdAt: null,
+    };
+    vi.mocked(storage.getBudgetLedger).mockResolvedValue([entry]);
+
+    const progress = await budgetService.getProgress("user-1", rolling, day("2026-09-20"));
+
+    expect(storage.getCategorySpending).not.toHaveBeenCalled();
+    expect(storage.getCategorySpendingByPeriod).not.toHaveBeenCalled();
+    expect(progress).toMatchObject({ closed: true, daysRemaining: 0, status: "over_budget" });
+    expect([progress.budgeted, progress.spent].map(String)).toEqual(["250.00", "260.00"]);
+  });
+});
+
+describe("BudgetService.cycleStart", () => {
+  it("starts a new budget at the user's current month in their time zone", () => {
+    const calendar = { timeZone: AUCKLAND, monthStartDay: 25, weekStartDay: 1 };
+    expect(budgetService.cycleStart("monthly", calendar, new Date("2026-10-24T11:30:00Z")).toISOString()).toBe("2026-10-24T11:00:00.000Z");
+    expect(budgetService.cycleStart("weekly", calendar, new Date("2026-10-18T12:00:00Z")).toISOString()).toBe("2026-10-18T11:00:00.000Z");
+  });
+
+  it("treats weekly and monthly budgets starting on one of the user's cycles as following their calendar", () => {
+    const calendar = { timeZone: AUCKLAND, monthStartDay: 25, weekStartDay: 1 };
+    // 25 October and Monday 19 October in Auckland
+    expect(budgetService.startsOnCycle({ period: "monthly", startDate: new Date("2026-10-24T11:00:00Z") }, calendar)).toBe(true);
+    expect(budgetService.startsOnCycle({ period: "weekly", startDate: new Date("2026-10-18T11:00:00Z") }, calendar)).toBe(true);
+    expect(budgetService.startsOnCycle({ period: "monthly", startDate: new Date("2026-10-25T11:00:00Z") }, calendar)).toBe(false);
+    expect(budgetService.startsOnCycle({ period: "yearly", startDate: new Date("2026-10-24T11:00:00Z") }, calendar)).toBe(false);
+  });
+});
@@ -0,0 +1,285 @@
+import type { Budget, BudgetLedgerEntry } from "@shared/schema";
+import { Money } from "@shared/money";
+import {
+  DEFAULT_CYCLES,
+  addDays,
+  addMonths,
+  compareDays,
+  dayKey,
+  daysBetween,
+  localDay,
+  periodBounds,
+  periodStart,
+  startOfLocalDay,
+  type PeriodCycles,
+  type UserCalendar,
+} from "@shared/periods";
+import { storage } from "../storage";
+
+export interface BudgetPeriod {
+  start: Date;
+  end: Date; // Last millisecond of the period
+}
+
+export const BUDGET_PERIODS = ["weekly", "monthly", "yearly"];
+
+// What a period passes on to the next: nothing, only unspent money, or overspending as well
+export const ROLLOVER_MODES = ["none", "surplus", "surplus_and_deficit"];
+
+export type BudgetStatus = "on_track" | "at_risk" | "over_budget";
+
+export interface BudgetProgress {
+  budgetId: string;
+  name: string;
+  category: string | null;
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  totalDays: number;
+  daysElapsed: number;
+  daysRemaining: number;
+  closed: boolean; // Figures come from the ledger and no longer change
+  baseAmount: Money; // The budget's own amount for the period
+  carriedIn: Money; // Surplus (positive) or deficit (negative) carried from the previous period
+  budgeted: Money; // Base amount plus what was carried in
+  spent: Money;
+  remaining: Money; // Negative once the budget is overspent
+  percentUsed: number;
+  dailyPace: Money; // Average spend per elapsed day
+  dailyAllowance: Money; // What can still be spent per remaining day
+  projectedSpend: Money; // End-of-period spend if the current pace holds
+  status: BudgetStatus;
+}
+
+export interface BudgetSummary {
+  budgeted: Money;
+  spent: Money;
+  remaining: Money;
+  percentUsed: number;
+  onTrack: number;
+  atRisk: number;
+  overBudget: number;
+  budgets: BudgetProgress[];
+}
+
+export class BudgetService {
+  // Periods repeat from the budget's start date: weekly every 7 days, monthly and yearly on the same
+  // day of the month. Weekly and monthly budgets that follow the user's calendar use their weeks and
+  // months instead, so they move with the user's week and month start days. Before the start the first
+  // period applies, after an end date the last one. Days are calendar days in the user's time zone,
+  // so a period starts at their midnight.
+  getPeriod(
+    budget: Pick<Budget, "period" | "startDate" | "endDate" | "followsCalendar">,
+    asOf: Date = new Date(),
+    timeZone: string = "UTC",
+    cycles: PeriodCycles = DEFAULT_CYCLES,
+  ): BudgetPeriod {
+    const anchor = localDay(new Date(budget.startDate), timeZone);
+    // The end date is the budget's last day, included in full
+    const finalDay = budget.endDate ? localDay(new Date(budget.endDate), timeZone) : null;
+    const lastMoment = finalDay ? new Date(startOfLocalDay(addDays(finalDay, 1), timeZone).getTime() - 1) : null;
+    const day = lastMoment && asOf > lastMoment ? finalDay! : localDay(asOf, timeZone);
+
+    if (budget.followsCalendar && budget.period !== "yearly") {
+      const first = compareDays(day, anchor) > 0 ? day : anchor;
+      const { start, end } = periodBounds(startOfLocalDay(first, timeZone), budget.period === "weekly" ? "week" : "month", timeZone, cycles);
+      const last = new Date(end.getTime() - 1);
+      return { start, end: lastMoment && lastMoment < last ? lastMoment : last };
+    }
+
+    const periodStart = (index: number) => {
+      if (budget.period === "weekly") return addDays(anchor, index * 7);
+      if (budget.period === "yearly") return addMonths(anchor, index * 12);
+      return addMonths(anchor, index);
+    };
+
+    let index = 0;
+    if (compareDays(day, anchor) > 0) {
+      const months = (day.year - anchor.year) * 12 + day.month - anchor.month;
+      index = budget.period === "weekly"
+        ? Math.floor(daysBetween(anchor, day) / 7)
+        : budget.period === "yearly" ? Math.floor(months / 12) : months;
+      // The estimate can overshoot by one when the anchor's day of month has not come round yet
+      if (compareDays(periodStart(index), day) > 0) index -= 1;
+    }
+
+    const start = startOfLocalDay(periodStart(index), timeZone);
+    const end = new Date(startOfLocalDay(periodStart(index + 1), timeZone).getTime() - 1);
+    return { start, end: lastMoment && lastMoment < end ? lastMoment : end };
+  }
+
+  // Start of the user's current week, month or year: where a new budget begins unless given a start date,
+  // so its periods follow the user's payday and week cycles
+  cycleStart(period: string, calendar: UserCalendar, now: Date = new Date()): Date {
+    const { timeZone, ...cycles } = calendar;
+    const granularity = period === "weekly" ? "week" : period === "yearly" ? "year" : "month";
+    return periodBounds(now, granularity, timeZone, cycles).start;
+  }
+
+  // Whether a budget follows the user's calendar: weekly and monthly budgets starting on the first day
+  // of one of the user's weeks or months do, and keep doing so when the user changes their cycles
+  startsOnCycle(budget: Pick<Budget, "period" | "startDate">, calendar: UserCalendar): boolean {
+    if (budget.period !== "weekly" && budget.period !== "monthly") return false;
+    const { timeZone, ...cycles } = calendar;
+    const day = localDay(new Date(budget.startDate), timeZone);
+    return dayKey(periodStart(day, budget.period === "weekly" ? "week" : "month", cycles)) === dayKey(day);
+  }
+
+  async getProgress(userId: string, budget: Budget, asOf: Date = new Date()): Promise<BudgetProgress> {
+    const now = new Date();
+    const { timeZone, ...cycles } = await storage.getUserCalendar(userId);
+    const period = this.getPeriod(budget, asOf, timeZone, cycles);
+    const { start, end } = period;
+    const currency = (await storage.getUser(userId))?.currency || "USD";
+
+    const ledger = await this.walkLedger(userId, budget, period, currency, timeZone, cycles, now);
+    const carriedIn = ledger.carriedIn;
+    let closed = ledger.closed;
+    const baseAmount = Money.of(closed?.amount ?? budget.amount, currency);
+    const spent = closed ? Money.of(closed.spent, currency) : await storage.getCategorySpending(userId, start, end, budget.category);
+    if (!closed && end < now) {
+      closed = await this.closePeriod(userId, budget, period, baseAmount, carriedIn, spent);
+    }
+
+    const budgeted = baseAmount.plus(carriedIn);
+    const remaining = budgeted.minus(spent);
+
+    const firstDay = localDay(start, timeZone);
+    const totalDays = daysBetween(firstDay, localDay(end, timeZone)) + 1;
+    const daysElapsed = closed ? totalDays : Math.min(totalDays, Math.max(1, daysBetween(firstDay, localDay(asOf, timeZone)) + 1));
+    const daysRemaining = totalDays - daysElapsed;
+
+    const dailyPace = spent.dividedBy(daysElapsed);
+    const projectedSpend = daysRemaining > 0 ? spent.times(totalDays).dividedBy(daysElapsed) : spent;
+    const dailyAllowance = daysRemaining > 0 && remaining.isPositive() ? remaining.dividedBy(daysRemaining) : Money.zero(currency);
+
+    return {
+      budgetId: budget.id,
+      name: budget.name,
+      category: budget.category,
+      period: budget.period,
+      periodStart: start,
+      periodEnd: end,
+      totalDays,
+      daysElapsed,
+      daysRemaining,
+      closed: !!closed,
+      baseAmount,
+      carriedIn,
+      budgeted,
+      spent,
+      remaining,
+      // A deficit can leave nothing to spend; any spending then counts as fully used
+      percentUsed: budgeted.isPositive() ? spent.ratio(budgeted) * 100 : spent.isPositive() ? 100 : 0,
+      dailyPace,
+      dailyAllowance,
+      projectedSpend,
+      status: spent.compare(budgeted) > 0 ? "over_budget" : projectedSpend.compare(budgeted) > 0 ? "at_risk" : "on_track",
+    };
+  }
+
+  // Amount passed to the next period from what was left of this one, limited by the budget's cap
+  carryOver(budget: Pick<Budget, "rolloverMode" | "rolloverCap">, left: Money): Money {
+    const mode = budget.rolloverMode || "none";
+    if (mode === "none" || (mode === "surplus" && !left.isPositive())) {
+      return Money.zero(left.currency);
+    }
+
+    if (budget.rolloverCap !== null && budget.rolloverCap !== undefined) {
+      const cap = Money.of(budget.rolloverCap, left.currency);
+      if (left.abs().compare(cap) > 0) return left.isNegative() ? cap.negate() : cap;
+    }
+    return left;
+  }
+
+  // Carry into `target`, walking forward from the last closed period. Periods that ended before `now`
+  // are closed on the way; later ones only feed a provisional carry and are not stored.
+  private async walkLedger(
+    userId: string,
+    budget: Budget,
+    target: BudgetPeriod,
+    currency: string,
+    timeZone: string,
+    cycles: PeriodCycles,
+    now: Date,
+  ): Promise<{ closed?: BudgetLedgerEntry; carriedIn: Money }> {
+    const ledger = await storage.getBudgetLedger(budget.id, userId);
+    const closed = ledger.find(entry => entry.periodStart.getTime() === target.start.getTime());
+    if (closed) {
+      return { closed, carriedIn: Money.of(closed.carriedIn, currency) };
+    }
+
+    const previous = ledger.filter(entry => entry.periodStart < target.start).pop();
+    let carry = previous ? Money.of(previous.carriedOut, currency) : Money.zero(currency);
+    const periods: BudgetPeriod[] = [];
+    let period = this.getPeriod(budget, previous ? new Date(previous.periodEnd.getTime() + 1) : new Date(budget.startDate), timeZone, cycles);
+    while (period.start < target.start) {
+      periods.push(period);
+      const next = this.getPeriod(budget, new Date(period.end.getTime() + 1), timeZone, cycles);
+      // After the budget's end date the schedule stops at its last period
+      if (next.start <= period.start) break;
+      period = next;
+    }
+
+    const spending = await storage.getCategorySpendingByPeriod(userId, periods, budget.category);
+    const baseAmount = Money.of(budget.amount, currency);
+    for (let index = 0; index < periods.length; index++) {
+      carry = periods[index].end < now
+        ? Money.of((await this.closePeriod(userId, budget, periods[index], baseAmount, carry, spending[index])).carriedOut, currency)
+        : this.carryOver(budget, baseAmount.plus(carry).minus(spending[index]));
+    }
+
+    return { carriedIn: carry };
+  }
+
+  private async closePeriod(
+    userId: string,
+    budget: Budget,
+    period: BudgetPeriod,
+    baseAmount: Money,
+    carriedIn: Money,
+    spent: Money,
+  ): Promise<BudgetLedgerEntry> {
+    const carriedOut = this.carryOver(budget, baseAmount.plus(carriedIn).minus(spent));
+    const entry = {
+      budgetId: budget.id,
+      userId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      amount: baseAmount.toString(),
+      carriedIn: carriedIn.toString(),
+      spent: spent.toString(),
+      carriedOut: carriedOut.toString(),
+      rolloverMode: budget.rolloverMode || "none",
+    };
+
+    // Another request may have closed the period first; its entry is the one that counts
+    const created = await storage.addBudgetLedgerEntry(entry);
+    if (created) return created;
+    const existing = (await storage.getBudgetLedger(budget.id, userId)).find(item => item.periodStart.getTime() === period.start.getTime());
+    return existing ?? { ...entry, id: "", createdAt: null };
+  }
+
+  // Progress of every active budget in its current period, with totals in the user's currency
+  async getSummary(userId: string, asOf: Date = new Date()): Promise<BudgetSummary> {
+    const budgets = (await storage.getBudgets(userId)).filter(budget => budget.isActive !== false);
+    const progress = await Promise.all(budgets.map(budget => this.getProgress(userId, budget, asOf)));
+
+    const currency = progress[0]?.spent.currency ?? (await storage.getUser(userId))?.currency ?? "USD";
+    const budgeted = Money.sum(progress.map(item => item.budgeted), currency);
+    const spent = Money.sum(progress.map(item => item.spent), currency);
+
+    return {
+      budgeted,
+      spent,
+      remaining: budgeted.minus(spent),
+      percentUsed: budgeted.isPositive() ? spent.ratio(budgeted) * 100 : 0,
+      onTrack: progress.filter(item => item.status === "on_track").length,
+      atRisk: progress.filter(item => item.status === "at_risk").length,
+      overBudget: progress.filter(item => item.status === "over_budget").length,
+      budgets: progress,
+    };
+  }
+}
+
+export const budgetService = new BudgetService();
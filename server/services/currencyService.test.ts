@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { CurrencyService } from "./currencyService";
+import type { RateProvider } from "./rateProviders";
+
+vi.mock("../storage", () => ({
+  storage: {
+    saveExchangeRates: vi.fn(),
+    getExchangeRatesOn: vi.fn(),
+  },
+}));
+
+const provider = {
+  name: "test",
+  fetchRates: vi.fn<RateProvider["fetchRates"]>(),
+};
+let service: CurrencyService;
+
+beforeEach(() => {
+  provider.fetchRates.mockReset().mockResolvedValue([{ date: new Date(), rates: { USD: 1, EUR: 0.8 } }]);
+  vi.mocked(storage.saveExchangeRates).mockReset().mockResolvedValue();
+  vi.mocked(storage.getExchangeRatesOn).mockReset().mockResolvedValue([]);
+  service = new CurrencyService(provider);
+});
+
+describe("CurrencyService.normalize", () => {
+  it("stores the rate and the amount in the user's currency", async () => {
+    expect(await service.normalize(10, "EUR", "USD")).toEqual({ exchangeRate: "1.25000000", normalizedAmount: "12.50" });
+  });
+
+  it("keeps the amount as entered when the currencies match", async () => {
+    expect(await service.normalize(3.5, "EUR", "EUR")).toEqual({ exchangeRate: "1", normalizedAmount: "3.50" });
+    expect(provider.fetchRates).not.toHaveBeenCalled();
+  });
+
+  it("rounds to the target currency's minor units", async () => {
+    expect(await service.normalize(10.5, "USD", "JPY")).toEqual({ exchangeRate: "110.00000000", normalizedAmount: "1155" });
+  });
+
+  it("converts a backdated expense at the snapshot of its date", async () => {
+    vi.mocked(storage.getExchangeRatesOn).mockResolvedValue([
+      { id: "rate-1", currency: "EUR", rate: "0.50000000", date: new Date("2026-02-27T00:00:00Z"), createdAt: null },
+    ]);
+
+    expect(await service.normalize("10.00", "EUR", "USD", new Date("2026-03-02T15:30:00Z"))).toEqual({ exchangeRate: "2.00000000", normalizedAmount: "20.00" });
+    expect(storage.getExchangeRatesOn).toHaveBeenCalledWith(new Date("2026-03-02T00:00:00Z"));
+  });
+});
+
+describe("CurrencyService historical rates", () => {
+  const day = new Date("2026-03-02T00:00:00Z");
+
+  it("saves every day the provider delivers as a snapshot", async () => {
+    provider.fetchRates.mockResolvedValue([
+      { date: new Date("2026-02-27T16:00:00Z"), rates: { USD: 1, EUR: 0.5 } },
+      { date: day, rates: { USD: 1, EUR: 0.8 } },
+    ]);
+    await service.updateRates();
+
+    expect(storage.saveExchangeRates).toHaveBeenCalledWith(new Date("2026-02-27T00:00:00Z"), [{ currency: "USD", rate: "1.00000000" }, { currency: "EUR", rate: "0.50000000" }]);
+    expect(storage.saveExchangeRates).toHaveBeenCalledWith(day, [{ currency: "USD", rate: "1.00000000" }, { currency: "EUR", rate: "0.80000000" }]);
+    expect(await service.getRatesOn()).toContainEqual({ code: "EUR", rate: 0.8, date: day });
+  });
+
+  it("continues from the newest stored snapshot when the provider fails", async () => {
+    provider.fetchRates.mockRejectedValue(new Error("offline"));
+    vi.mocked(storage.getExchangeRatesOn).mockResolvedValue([
+      { id: "rate-1", currency: "EUR", rate: "0.90000000", date: day, createdAt: null },
+    ]);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await service.getRatesOn()).toContainEqual({ code: "EUR", rate: 0.9, date: day });
+  });
+
+  it("converts past dates at the latest snapshot on or before them", async () => {
+    vi.mocked(storage.getExchangeRatesOn).mockResolvedValue([
+      { id: "rate-1", currency: "EUR", rate: "0.50000000", date: new Date("2026-02-27T00:00:00Z"), createdAt: null },
+    ]);
+
+    expect(await service.getExchangeRate("EUR", "USD", new Date("2026-03-02T15:30:00Z"))).toBe(2);
+    expect(storage.getExchangeRatesOn).toHaveBeenCalledWith(day);
+    expect(provider.fetchRates).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the current rate when no snapshot exists, and says so", async () => {
+    const rates = await service.getRatesOn(day);
+
+    expect(rates.find(rate => rate.code === "EUR")).toEqual({ code: "EUR", rate: 0.85, date: null });
+  });
+
+  it("reads each past day from storage once", async () => {
+    await service.getExchangeRate("EUR", "USD", day);
+    await service.getExchangeRate("GBP", "USD", day);
+
+    expect(storage.getExchangeRatesOn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,122 +1,227 @@
-export interface CurrencyRate {
-  code: string;
+import { storage } from "../storage";
+import { createRateProvider, type RateProvider } from "./rateProviders";
+import { CURRENCIES, formatMoney, getCurrencyInfo, type CurrencyInfo } from "@shared/currencies";
+import { Money, divideDecimals, type DecimalInput } from "@shared/money";
+
+export interface CurrencyRate extends CurrencyInfo {
   rate: number;
-  symbol: string;
-  name: string;
+}
+
+export interface CatalogCurrency extends CurrencyInfo {
+  rate: number | null; // Units per USD; null until a provider has supplied one
 }
 
 export interface CurrencyConversion {
   from: string;
   to: string;
-  amount: number;
-  convertedAmount: number;
+  amount: Money;
+  convertedAmount: Money;
+  rate: string; // Units of `to` per unit of `from`, to eight decimals like stored exchange rates
+}
+
+export interface HistoricalRate {
+  code: string;
   rate: number;
+  date: Date | null; // Day of the snapshot used; null when no snapshot exists on or before the requested day
 }
 
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
 export class CurrencyService {
   private rates: Map<string, CurrencyRate> = new Map();
-  private lastUpdate: Date | null = null;
-  private readonly API_KEY = process.env.EXCHANGE_RATE_API_KEY || process.env.CURRENCY_API_KEY || "demo_key";
+  // Rates for past days, keyed by the day's timestamp; their snapshots no longer change
+  private history: Map<number, Map<string, HistoricalRate>> = new Map();
+  private ratesDate: Date | null = null; // Day of the rates in `rates`; null while on the built-in defaults
+  private lastAttempt: Date | null = null;
+  private timer: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(private readonly provider: RateProvider = createRateProvider()) {
     this.initializeDefaultRates();
   }
 
   private initializeDefaultRates() {
     // Default rates (USD as base)
-    const defaultRates: CurrencyRate[] = [
-      { code: "USD", rate: 1, symbol: "$", name: "US Dollar" },
-      { code: "EUR", rate: 0.85, symbol: "€", name: "Euro" },
-      { code: "GBP", rate: 0.73, symbol: "£", name: "British Pound" },
-      { code: "JPY", rate: 110, symbol: "¥", name: "Japanese Yen" },
-      { code: "CAD", rate: 1.25, symbol: "C$", name: "Canadian Dollar" },
-      { code: "AUD", rate: 1.35, symbol: "A$", name: "Australian Dollar" },
-      { code: "CHF", rate: 0.92, symbol: "Fr", name: "Swiss Franc" },
-      { code: "CNY", rate: 6.45, symbol: "¥", name: "Chinese Yuan" },
-    ];
-
-    defaultRates.forEach(rate => {
-      this.rates.set(rate.code, rate);
+    this.applyRates({
+      USD: 1,
+      EUR: 0.85,
+      GBP: 0.73,
+      JPY: 110,
+      CAD: 1.25,
+      AUD: 1.35,
+      CHF: 0.92,
+      CNY: 6.45,
     });
   }
 
   async updateRates(): Promise<void> {
+    this.lastAttempt = new Date();
+
     try {
-      // Use a free currency API
-      const response = await fetch(`https://api.exchangerate-api.com/v4/latest/USD`);
-      
-      if (!response.ok) {
-        console.warn("Failed to fetch currency rates, using cached rates");
-        return;
+      const snapshots = await this.provider.fetchRates();
+      if (snapshots.length === 0) return;
+
+      // Every day the provider delivers becomes a stored snapshot
+      for (const snapshot of snapshots) {
+        await storage.saveExchangeRates(
+          startOfUtcDay(snapshot.date),
+          Object.entries(snapshot.rates).map(([currency, rate]) => ({ currency, rate: rate.toFixed(8) }))
+        );
       }
 
-      const data = await response.json();
-      
-      // Update rates from API
-      Object.entries(data.rates).forEach(([code, rate]) => {
-        const existingRate = this.rates.get(code);
-        if (existingRate) {
-          this.rates.set(code, {
-            ...existingRate,
-            rate: Number(rate),
-          });
-        }
-      });
-
-      this.lastUpdate = new Date();
+      const latest = snapshots.reduce((newest, snapshot) => snapshot.date > newest.date ? snapshot : newest);
+      this.applyRates(latest.rates);
+      this.ratesDate = startOfUtcDay(latest.date);
+      // Days that fell back to current rates may have snapshots now
+      this.history.clear();
     } catch (error) {
-      console.error("Currency rate update failed:", error);
+      console.warn(`Exchange rates from the ${this.provider.name} provider are unavailable:`, error);
+      await this.loadStoredRates();
     }
   }
 
-  async convert(amount: number, fromCurrency: string, toCurrency: string): Promise<CurrencyConversion> {
-    // Update rates if they're older than 1 hour
-    if (!this.lastUpdate || Date.now() - this.lastUpdate.getTime() > 3600000) {
-      await this.updateRates();
-    }
+  // After a restart without a working provider, continue from the newest stored snapshot instead of the defaults
+  private async loadStoredRates(): Promise<void> {
+    if (this.ratesDate) return;
 
-    const fromRate = this.rates.get(fromCurrency);
-    const toRate = this.rates.get(toCurrency);
+    try {
+      const stored = await storage.getExchangeRatesOn(startOfUtcDay(new Date()));
+      if (stored.length === 0) {
+        console.warn("No stored exchange rates, using built-in default rates");
+        return;
+      }
 
-    if (!fromRate || !toRate) {
-      throw new Error(`Unsupported currency: ${fromCurrency} or ${toCurrency}`);
+      this.applyRates(Object.fromEntries(stored.map(row => [row.currency, Number(row.rate)])));
+      this.ratesDate = stored.reduce((newest, row) => row.date > newest ? row.date : newest, stored[0].date);
+    } catch (error) {
+      console.error("Loading stored exchange rates failed:", error);
     }
+  }
+
+  // Only catalog currencies are kept; providers also quote codes such as precious metals
+  private applyRates(rates: Record<string, number>) {
+    Object.entries(rates).forEach(([code, rate]) => {
+      const currency = getCurrencyInfo(code);
+      if (currency && rate > 0) {
+        this.rates.set(currency.code, { ...currency, rate });
+      }
+    });
+  }
 
-    // Convert to USD first, then to target currency
-    const usdAmount = amount / fromRate.rate;
-    const convertedAmount = usdAmount * toRate.rate;
-    const rate = toRate.rate / fromRate.rate;
+  async convert(amount: DecimalInput, fromCurrency: string, toCurrency: string, onDate?: Date): Promise<CurrencyConversion> {
+    const rate = await this.crossRate(fromCurrency, toCurrency, onDate);
+    const source = Money.of(amount, fromCurrency);
 
     return {
       from: fromCurrency,
       to: toCurrency,
-      amount,
-      convertedAmount,
+      amount: source,
+      convertedAmount: source.convert(rate, toCurrency),
       rate,
     };
   }
 
-  getSupportedCurrencies(): CurrencyRate[] {
-    return Array.from(this.rates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  async getExchangeRate(fromCurrency: string, toCurrency: string, onDate?: Date): Promise<number> {
+    return Number(await this.crossRate(fromCurrency, toCurrency, onDate));
   }
 
-  getCurrencySymbol(code: string): string {
-    return this.rates.get(code)?.symbol || code;
+  // Rates are quoted per USD, so the cross rate goes through USD; it is fixed to eight decimals
+  // before any amount is multiplied by it, which keeps conversions reproducible from the stored rate
+  private async crossRate(fromCurrency: string, toCurrency: string, onDate?: Date): Promise<string> {
+    if (fromCurrency === toCurrency) return "1";
+
+    const rates = await this.ratesOn(onDate);
+    const fromRate = rates.get(fromCurrency);
+    const toRate = rates.get(toCurrency);
+
+    if (!fromRate || !toRate) {
+      throw new Error(`Unsupported currency: ${fromCurrency} or ${toCurrency}`);
+    }
+
+    return divideDecimals(toRate.rate, fromRate.rate, 8);
   }
 
-  formatAmount(amount: number, currency: string): string {
-    const rate = this.rates.get(currency);
-    if (!rate) return `${amount.toFixed(2)} ${currency}`;
+  async getRatesOn(onDate?: Date): Promise<HistoricalRate[]> {
+    const rates = await this.ratesOn(onDate);
+    return Array.from(rates.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
 
-    try {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: currency,
-      }).format(amount);
-    } catch {
-      return `${rate.symbol}${amount.toFixed(2)}`;
+  // Rates effective on a day: the latest stored snapshot on or before it, or the live rates for today
+  private async ratesOn(onDate?: Date): Promise<Map<string, HistoricalRate>> {
+    const today = startOfUtcDay(new Date());
+    const day = onDate ? startOfUtcDay(onDate) : today;
+
+    if (day >= today) {
+      // Update rates if they're older than 1 hour
+      if (!this.lastAttempt || Date.now() - this.lastAttempt.getTime() > 3600000) {
+        await this.updateRates();
+      }
+      return new Map(Array.from(this.rates.values()).map(rate => [rate.code, { code: rate.code, rate: rate.rate, date: this.ratesDate }]));
+    }
+
+    const cached = this.history.get(day.getTime());
+    if (cached) return cached;
+
+    const snapshot = await storage.getExchangeRatesOn(day);
+    const rates = new Map<string, HistoricalRate>();
+    CURRENCIES.forEach(({ code }) => {
+      const stored = snapshot.find(row => row.currency === code);
+      const current = this.rates.get(code);
+      if (stored) {
+        rates.set(code, { code, rate: Number(stored.rate), date: stored.date });
+      } else if (current) {
+        rates.set(code, { code, rate: current.rate, date: null });
+      }
+    });
+    this.history.set(day.getTime(), rates);
+    return rates;
+  }
+
+  start(intervalMs: number = 60 * 60 * 1000) {
+    if (this.timer) return;
+
+    const run = () => {
+      this.updateRates().catch(error => console.error("Currency rate update failed:", error));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
     }
   }
+
+  // Rate and amount in the target currency, as stored on a transaction when it is entered; a backdated
+  // transaction is converted at the rates of its own date
+  async normalize(amount: DecimalInput, fromCurrency: string, toCurrency: string, onDate?: Date): Promise<{ exchangeRate: string; normalizedAmount: string }> {
+    const conversion = await this.convert(amount, fromCurrency, toCurrency, onDate);
+    return {
+      exchangeRate: conversion.rate,
+      normalizedAmount: conversion.convertedAmount.toString(),
+    };
+  }
+
+  // A currency can be converted once a rate for it is known
+  hasRate(code: string): boolean {
+    return this.rates.has(code);
+  }
+
+  getSupportedCurrencies(): CatalogCurrency[] {
+    return CURRENCIES
+      .map(currency => ({ ...currency, rate: this.rates.get(currency.code)?.rate ?? null }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getCurrencySymbol(code: string): string {
+    return getCurrencyInfo(code)?.symbol || code;
+  }
+
+  formatAmount(amount: number, currency: string, locale: string = 'en-US'): string {
+    return formatMoney(amount, currency, locale);
+  }
 }
 
 export const currencyService = new CurrencyService();
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { Expense } from "@shared/schema";
+import { duplicateService } from "./duplicateService";
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: "user-1",
+  amount: "12.50",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Corner Cafe",
+  category: "food",
+  date: new Date("2026-10-10T00:00:00Z"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("DuplicateService.findDuplicates", () => {
+  const candidate = { amount: "12.5", type: "expense", date: new Date("2026-10-11T00:00:00Z"), description: "CORNER CAFE #12", location: null };
+
+  it("matches the same amount and type a day apart with a similar description", () => {
+    const [match, ...rest] = duplicateService.findDuplicates(candidate, [expense({})]);
+
+    expect(rest).toEqual([]);
+    expect(match.expenseId).toBe("expense-1");
+    expect(match.reasons).toEqual(["same amount", "1 day apart", expect.stringMatching(/^similar description/)]);
+    expect(match.score).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it("ignores other amounts, other types and dates outside the window", () => {
+    const others = [
+      expense({ id: "amount", amount: "12.51" }),
+      expense({ id: "type", type: "income" }),
+      expense({ id: "date", date: new Date("2026-10-20T00:00:00Z") }),
+    ];
+
+    expect(duplicateService.findDuplicates(candidate, others)).toEqual([]);
+  });
+
+  it("compares amounts in their own currency, taking the user's for entries without one", () => {
+    const others = [
+      expense({ id: "euros", currency: "EUR" }),
+      expense({ id: "dollars", currency: "USD" }),
+      expense({ id: "unmarked" }),
+    ];
+
+    expect(duplicateService.findDuplicates(candidate, others, { currency: "USD" }).map(match => match.expenseId).sort()).toEqual(["dollars", "unmarked"]);
+    expect(duplicateService.findDuplicates({ ...candidate, currency: "EUR" }, others, { currency: "USD" }).map(match => match.expenseId)).toEqual(["euros"]);
+  });
+
+  it("never reports transfer legs", () => {
+    const leg = expense({ type: "transfer", transferId: "transfer-1", transferDirection: "out" });
+
+    expect(duplicateService.findDuplicates({ ...candidate, type: "transfer" }, [leg])).toEqual([]);
+  });
+
+  it("puts the closest match first", () => {
+    const matches = duplicateService.findDuplicates(candidate, [
+      expense({ id: "older", date: new Date("2026-10-10T00:00:00Z") }),
+      expense({ id: "same-day", date: new Date("2026-10-11T00:00:00Z") }),
+    ]);
+
+    expect(matches.map(match => match.expenseId)).toEqual(["same-day", "older"]);
+  });
+});
+
+describe("DuplicateService.findDuplicatePairs", () => {
+  it("reports each pair once, older expense first, skipping dismissed pairs", () => {
+    const list = [
+      expense({ id: "b", date: new Date("2026-10-11T00:00:00Z") }),
+      expense({ id: "a" }),
+      expense({ id: "c", date: new Date("2026-10-12T00:00:00Z") }),
+    ];
+    const dismissed = new Set([duplicateService.pairKey("c", "a")]);
+
+    const pairs = duplicateService.findDuplicatePairs(list, dismissed);
+    expect(pairs.map(({ expense, match }) => `${expense.id}-${match.expenseId}`)).toEqual(["a-b", "b-c"]);
+  });
+});
+
+describe("DuplicateService.mergeFields", () => {
+  it("fills what the kept expense is missing and unions the tags", () => {
+    const keep = expense({ tags: ["coffee"], rating: 4 });
+    const duplicate = expense({ id: "expense-2", location: "Main St", latitude: "1.5", longitude: "2.5", rating: 2, externalId: "FIT-1", tags: ["coffee", "work"] });
+
+    expect(duplicateService.mergeFields(keep, duplicate)).toEqual({
+      location: "Main St",
+      latitude: "1.5",
+      longitude: "2.5",
+      externalId: "FIT-1",
+      tags: ["coffee", "work"],
+    });
+  });
+});
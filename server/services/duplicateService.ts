@@ -0,0 +1,161 @@
+import type { Expense, InsertExpense } from "@shared/schema";
+import { Money } from "@shared/money";
+
+export interface DuplicateMatch {
+  expenseId: string;
+  description: string;
+  amount: string;
+  date: Date;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateOptions {
+  windowDays: number;
+  threshold: number;
+  currency: string; // Currency of entries recorded without one: the user's currency
+}
+
+type DuplicateCandidate = Pick<InsertExpense, "amount" | "currency" | "type" | "date" | "description" | "location">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: DuplicateOptions = {
+  windowDays: 3,
+  threshold: 0.6,
+  currency: "USD",
+};
+
+export class DuplicateService {
+  readonly windowDays = DEFAULT_OPTIONS.windowDays;
+
+  findDuplicates(
+    candidate: DuplicateCandidate,
+    existing: Expense[],
+    options: Partial<DuplicateOptions> = {},
+  ): DuplicateMatch[] {
+    const { windowDays, threshold, currency } = { ...DEFAULT_OPTIONS, ...options };
+    const candidateDate = new Date(candidate.date);
+    const candidateAmount = this.amountOf(candidate, currency);
+
+    // The two legs of a transfer always match each other, so transfers are never reported
+    if (candidate.type === "transfer") return [];
+
+    return existing
+      .filter(expense => expense.type === candidate.type && this.amountOf(expense, currency).equals(candidateAmount))
+      .flatMap(expense => {
+        const days = Math.round(Math.abs(new Date(expense.date).getTime() - candidateDate.getTime()) / DAY_MS);
+        if (days > windowDays) return [];
+
+        const dateScore = 1 - days / (windowDays + 1);
+        const descriptionScore = this.similarity(candidate.description, expense.description);
+        const hasLocations = !!candidate.location && !!expense.location;
+        const locationScore = hasLocations ? this.similarity(candidate.location!, expense.location!) : 0;
+
+        // Without locations on both sides their weight moves to date and description
+        const score = hasLocations
+          ? 0.5 * dateScore + 0.4 * descriptionScore + 0.1 * locationScore
+          : 0.55 * dateScore + 0.45 * descriptionScore;
+
+        if (score < threshold) return [];
+
+        const reasons = ["same amount", days === 0 ? "same day" : `${days} day${days === 1 ? "" : "s"} apart`];
+        if (descriptionScore >= 0.5) reasons.push(`similar description (${Math.round(descriptionScore * 100)}%)`);
+        if (hasLocations && locationScore >= 0.5) reasons.push(`similar location (${Math.round(locationScore * 100)}%)`);
+
+        return [{
+          expenseId: expense.id,
+          description: expense.description,
+          amount: expense.amount,
+          date: expense.date,
+          score: Math.round(score * 100) / 100,
+          reasons,
+        }];
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Suspected pairs within a list, each pair reported once with the older expense first
+  findDuplicatePairs(
+    expenseList: Expense[],
+    dismissedPairs: Set<string>,
+    options: Partial<DuplicateOptions> = {},
+  ): { expense: Expense; match: DuplicateMatch }[] {
+    const sorted = [...expenseList].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const pairs: { expense: Expense; match: DuplicateMatch }[] = [];
+
+    sorted.forEach((expense, index) => {
+      const windowEnd = new Date(expense.date).getTime() + this.windowDays * DAY_MS;
+      const later: Expense[] = [];
+      for (const other of sorted.slice(index + 1)) {
+        if (new Date(other.date).getTime() > windowEnd) break;
+        if (!dismissedPairs.has(this.pairKey(expense.id, other.id))) later.push(other);
+      }
+      for (const match of this.findDuplicates(expense, later, options)) {
+        pairs.push({ expense, match });
+      }
+    });
+
+    return pairs;
+  }
+
+  // Fields the kept expense is missing are taken from the duplicate before it is removed
+  mergeFields(keep: Expense, duplicate: Expense): Partial<InsertExpense> {
+    const updates: Partial<InsertExpense> = {};
+    if (!keep.location && duplicate.location) {
+      updates.location = duplicate.location;
+      updates.latitude = duplicate.latitude;
+      updates.longitude = duplicate.longitude;
+    }
+    if (!keep.receiptUrl && duplicate.receiptUrl) updates.receiptUrl = duplicate.receiptUrl;
+    if (!keep.mood && duplicate.mood) updates.mood = duplicate.mood;
+    if (!keep.rating && duplicate.rating) updates.rating = duplicate.rating;
+    if (!keep.externalId && duplicate.externalId) updates.externalId = duplicate.externalId;
+    if (duplicate.tags && duplicate.tags.length > 0) {
+      updates.tags = Array.from(new Set([...(keep.tags || []), ...duplicate.tags]));
+    }
+    return updates;
+  }
+
+  pairKey(firstId: string, secondId: string): string {
+    return [firstId, secondId].sort().join(":");
+  }
+
+  // Amounts only match in the same currency: 10.00 EUR is not 10.00 USD
+  private amountOf(expense: Pick<InsertExpense, "amount" | "currency">, fallback: string): Money {
+    return Money.of(expense.amount, expense.currency || fallback);
+  }
+
+  // Dice coefficient over character bigrams of the normalized strings
+  private similarity(a: string, b: string): number {
+    const left = this.normalize(a);
+    const right = this.normalize(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (left.length < 2 || right.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < left.length - 1; i++) {
+      const bigram = left.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < right.length - 1; i++) {
+      const bigram = right.slice(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (left.length + right.length - 2);
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  }
+}
+
+export const duplicateService = new DuplicateService();
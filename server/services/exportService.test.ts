@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { Expense, User } from "@shared/schema";
+import { exportService } from "./exportService";
+import { importService } from "./importService";
+
+const user: User = {
+  id: "user-1",
+  email: "ada@example.com",
+  password: null,
+  firstName: "Ada",
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
+  language: "en",
+  currency: "USD",
+  timezone: "UTC",
+  monthStartDay: 1,
+  weekStartDay: 1,
+  theme: "light",
+  onboardingCompleted: true,
+  budgetingMode: "standard",
+};
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: user.id,
+  amount: "10.00",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Coffee",
+  category: "food",
+  date: new Date("2026-10-01T00:00:00Z"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const expenses = [
+  expense({ id: "expense-2", amount: "2000", type: "income", description: "Salary", category: "salary", date: new Date("2026-10-05T00:00:00Z") }),
+  expense({ amount: "4.5", description: "Coffee & cake\nto go", location: "Corner <cafe>", externalId: "BANK-7" }),
+];
+
+describe("ExportService.toQif", () => {
+  it("writes transactions oldest first with signed amounts", () => {
+    expect(exportService.toQif(expenses, user)).toBe([
+      "!Type:Bank",
+      "D10/01/2026", "T-4.50", "PCoffee & cake to go", "MCorner <cafe>", "Lfood", "^",
+      "D10/05/2026", "T2000.00", "PSalary", "Lsalary", "^",
+      "",
+    ].join("\r\n"));
+  });
+
+  it("reads back through the QIF importer", () => {
+    const preview = importService.previewQif(exportService.toQif(expenses, user), user.id);
+
+    expect(preview.rows.map(row => row.expense)).toMatchObject([
+      { amount: "4.50", type: "expense", description: "Coffee & cake to go", category: "food" },
+      { amount: "2000.00", type: "income", description: "Salary", category: "salary" },
+    ]);
+  });
+});
+
+describe("ExportService.toOfx", () => {
+  it("writes a statement in the user's currency with escaped text", () => {
+    const ofx = exportService.toOfx(expenses, user);
+
+    expect(ofx).toContain("<CURDEF>USD</CURDEF>");
+    expect(ofx).toContain("<DTSTART>20261001000000</DTSTART>");
+    expect(ofx).toContain("<DTEND>20261005000000</DTEND>");
+    expect(ofx).toContain("<MEMO>Corner &lt;cafe&gt;</MEMO>");
+  });
+
+  it("writes foreign entries at their normalized amount with the original currency and rate", () => {
+    const ofx = exportService.toOfx([
+      expense({ amount: "20.00", currency: "EUR", exchangeRate: "1.100000", normalizedAmount: "22.00" }),
+    ], user);
+
+    expect(ofx).toContain("<TRNAMT>-22.00</TRNAMT>");
+    expect(ofx).toContain("<ORIGCURRENCY><CURRATE>1.100000</CURRATE><CURSYM>EUR</CURSYM></ORIGCURRENCY>");
+  });
+
+  it("writes entries without a normalized amount in their own currency's minor units", () => {
+    const ofx = exportService.toOfx([expense({ amount: "1235", currency: "JPY" })], user);
+
+    expect(ofx).toContain("<TRNAMT>-1235</TRNAMT>");
+  });
+
+  it("writes transfer legs as XFER, signed by direction", () => {
+    const ofx = exportService.toOfx([
+      expense({ id: "leg-out", type: "transfer", transferId: "transfer-1", transferDirection: "out" }),
+      expense({ id: "leg-in", type: "transfer", transferId: "transfer-1", transferDirection: "in" }),
+    ], user);
+
+    expect(ofx.match(/<TRNTYPE>\w+<\/TRNTYPE>/g)).toEqual(["<TRNTYPE>XFER</TRNTYPE>", "<TRNTYPE>XFER</TRNTYPE>"]);
+    expect(ofx.match(/<TRNAMT>[^<]+<\/TRNAMT>/g)).toEqual(["<TRNAMT>-10.00</TRNAMT>", "<TRNAMT>10.00</TRNAMT>"]);
+  });
+
+  it("reads back through the OFX importer, keeping bank ids", () => {
+    const preview = importService.previewOfx(exportService.toOfx(expenses, user), user.id);
+
+    expect(preview.rows.map(row => row.expense)).toMatchObject([
+      { amount: "4.50", type: "expense", description: "Coffee & cake to go", externalId: "BANK-7" },
+      { amount: "2000.00", type: "income", description: "Salary", externalId: "expense-2" },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Expense, User } from "@shared/schema";
+import { Money } from "@shared/money";
+
+export type ExportFormat = "json" | "qif" | "ofx";
+
+export class ExportService {
+  // QIF has no currency field, so amounts are written in the user's currency
+  toQif(expenses: Expense[], user: User): string {
+    const currency = user.currency || "USD";
+    const lines = ["!Type:Bank"];
+
+    for (const expense of this.chronological(expenses)) {
+      lines.push(`D${this.formatQifDate(new Date(expense.date))}`);
+      lines.push(`T${this.signedAmount(expense, currency)}`);
+      lines.push(`P${this.singleLine(expense.description)}`);
+      if (expense.location) lines.push(`M${this.singleLine(expense.location)}`);
+      lines.push(`L${expense.category}`);
+      lines.push("^");
+    }
+
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  // Amounts are in the statement currency (the user's); foreign entries carry their original currency and rate
+  toOfx(expenses: Expense[], user: User): string {
+    const currency = user.currency || "USD";
+    const sorted = this.chronological(expenses);
+    const now = this.formatOfxDate(new Date());
+    const start = sorted.length > 0 ? this.formatOfxDate(new Date(sorted[0].date)) : now;
+    const end = sorted.length > 0 ? this.formatOfxDate(new Date(sorted[sorted.length - 1].date)) : now;
+
+    const transactions = sorted.map(expense => [
+      "<STMTTRN>",
+      `<TRNTYPE>${expense.type === "transfer" ? "XFER" : this.isOutflow(expense) ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+      `<DTPOSTED>${this.formatOfxDate(new Date(expense.date))}</DTPOSTED>`,
+      `<TRNAMT>${this.signedAmount(expense, currency)}</TRNAMT>`,
+      `<FITID>${this.escapeXml(expense.externalId || expense.id)}</FITID>`,
+      `<NAME>${this.escapeXml(this.singleLine(expense.description).slice(0, 32))}</NAME>`,
+      ...(expense.location ? [`<MEMO>${this.escapeXml(this.singleLine(expense.location))}</MEMO>`] : []),
+      ...(expense.currency && expense.currency !== currency && expense.exchangeRate
+        ? [`<ORIGCURRENCY><CURRATE>${expense.exchangeRate}</CURRATE><CURSYM>${expense.currency}</CURSYM></ORIGCURRENCY>`]
+        : []),
+      "</STMTTRN>",
+    ].join("\n"));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS>",
+      "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+      `<DTSERVER>${now}</DTSERVER>`,
+      `<LANGUAGE>${user.language === "it" ? "ITA" : "ENG"}</LANGUAGE>`,
+      "</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1><STMTTRNRS>",
+      "<TRNUID>0</TRNUID>",
+      "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+      "<STMTRS>",
+      `<CURDEF>${currency}</CURDEF>`,
+      "<BANKACCTFROM>",
+      "<BANKID>FINHANCED</BANKID>",
+      `<ACCTID>${this.escapeXml(user.id)}</ACCTID>`,
+      "<ACCTTYPE>CHECKING</ACCTTYPE>",
+      "</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      `<DTSTART>${start}</DTSTART>`,
+      `<DTEND>${end}</DTEND>`,
+      ...transactions,
+      "</BANKTRANLIST>",
+      "</STMTRS>",
+      "</STMTTRNRS></BANKMSGSRSV1>",
+      "</OFX>",
+      "",
+    ].join("\n");
+  }
+
+  private chronological(expenses: Expense[]): Expense[] {
+    return [...expenses].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  // Rows entered in the user's currency have no normalized copy; a row without one stays in its own currency
+  private signedAmount(expense: Expense, currency: string): string {
+    const amount = (expense.normalizedAmount !== null
+      ? Money.of(expense.normalizedAmount, currency)
+      : Money.of(expense.amount, expense.currency || currency)).toString();
+    return this.isOutflow(expense) ? `-${amount}` : amount;
+  }
+
+  private isOutflow(expense: Expense): boolean {
+    return expense.type === "expense" || (expense.type === "transfer" && expense.transferDirection === "out");
+  }
+
+  private formatQifDate(date: Date): string {
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    const day = String(date.getUTCDate()).padStart(2, "0");
+    return `${month}/${day}/${date.getUTCFullYear()}`;
+  }
+
+  private formatOfxDate(date: Date): string {
+    return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  }
+
+  private singleLine(value: string): string {
+    return value.replace(/[\r\n]+/g, " ").trim();
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Expense, GoalFundingRule, User } from "@shared/schema";
+import { storage } from "../storage";
+import { fundingRuleService } from "./fundingRuleService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getUser: vi.fn(),
+    getExpenses: vi.fn(),
+    getDueGoalFundingRules: vi.fn(),
+    runScheduledFundingRule: vi.fn(),
+  },
+}));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const user: User = {
+  id: "user-1",
+  email: "ada@example.com",
+  password: null,
+  firstName: "Ada",
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
+  language: "en",
+  currency: "USD",
+  timezone: "UTC",
+  monthStartDay: 1,
+  weekStartDay: 1,
+  theme: "light",
+  onboardingCompleted: true,
+  budgetingMode: "standard",
+};
+
+const fundingRule = (overrides: Partial<GoalFundingRule>): GoalFundingRule => ({
+  id: "rule-1",
+  userId: user.id,
+  goalId: "goal-1",
+  type: "scheduled",
+  percentage: null,
+  amount: "50.00",
+  frequency: "monthly",
+  startDate: day("2026-01-31"),
+  nextRunDate: day("2026-01-31"),
+  category: null,
+  accountId: null,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: user.id,
+  amount: "4.30",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Coffee",
+  category: "food",
+  date: day("2026-10-01"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("FundingRuleService.nextRun", () => {
+  it("keeps monthly runs on the start's day, clamped to short months", () => {
+    const rule = { frequency: "monthly", startDate: new Date("2026-01-31T09:00:00Z") };
+
+    expect(fundingRuleService.nextRun(rule, day("2026-01-01"))).toEqual(new Date("2026-01-31T09:00:00Z"));
+    expect(fundingRuleService.nextRun(rule, day("2026-02-01"))).toEqual(new Date("2026-02-28T09:00:00Z"));
+    expect(fundingRuleService.runsBetween(rule, day("2026-03-01"), day("2026-04-30"))).toEqual([
+      new Date("2026-03-31T09:00:00Z"),
+    ]);
+  });
+
+  it("repeats weekly runs on the start's weekday", () => {
+    const rule = { frequency: "weekly", startDate: day("2026-10-05") };
+
+    expect(fundingRuleService.runsBetween(rule, day("2026-10-06"), day("2026-10-26"))).toEqual([day("2026-10-12"), day("2026-10-19"), day("2026-10-26")]);
+  });
+});
+
+describe("FundingRuleService.preview", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  beforeEach(() => {
+    vi.mocked(storage.getUser).mockResolvedValue(user);
+    vi.mocked(storage.getExpenses).mockReset().mockResolvedValue([
+      expense({}),
+      expense({ id: "expense-2", amount: "9.10", currency: "EUR", normalizedAmount: "10.25" }),
+      expense({ id: "expense-3", amount: "12.00" }),
+      expense({ id: "expense-4", amount: "3000.00", type: "income", category: "salary" }),
+    ]);
+  });
+
+  it("averages what each rule would have saved over the last three months", async () => {
+    const preview = await fundingRuleService.preview(user.id, [
+      fundingRule({ id: "round-up", type: "round_up", amount: null, frequency: null }),
+      fundingRule({ id: "salary", type: "income_percent", percentage: "10", amount: null, frequency: null, category: "salary" }),
+      fundingRule({ id: "weekly", amount: "30.00", frequency: "weekly" }),
+    ], now);
+
+    expect(storage.getExpenses).toHaveBeenCalledWith(user.id, { startDate: day("2026-07-19"), endDate: now });
+    expect(preview.rules.map(({ ruleId, monthly, matched }) => [ruleId, monthly.toString(), matched])).toEqual([
+      ["round-up", "0.48", 2],
+      ["salary", "100.00", 1],
+      ["weekly", "130.00", 0],
+    ]);
+    expect(preview.total.toString()).toBe("230.48");
+  });
+
+  it("previews unsaved scheduled rules without loading transactions", async () => {
+    const { id: _id, ...unsaved } = fundingRule({});
+    const preview = await fundingRuleService.preview(user.id, [unsaved], now);
+
+    expect(storage.getExpenses).not.toHaveBeenCalled();
+    expect(preview.rules).toEqual([{ ruleId: null, goalId: "goal-1", monthly: expect.objectContaining({ currency: "USD" }), matched: 0 }]);
+    expect(preview.total.toString()).toBe("50.00");
+  });
+});
+
+describe("FundingRuleService.runDue", () => {
+  it("posts every missed run and moves the schedule past them", async () => {
+    const rule = fundingRule({ startDate: day("2026-08-15"), nextRunDate: day("2026-09-15") });
+    vi.mocked(storage.getDueGoalFundingRules).mockResolvedValue([rule]);
+    vi.mocked(storage.runScheduledFundingRule).mockResolvedValue(2);
+
+    expect(await fundingRuleService.runDue(new Date("2026-10-20T12:00:00Z"))).toBe(2);
+    expect(storage.runScheduledFundingRule).toHaveBeenCalledWith(rule, [day("2026-09-15"), day("2026-10-15")], day("2026-11-15"));
+  });
+});
@@ -0,0 +1,160 @@
+import type { GoalFundingRule } from "@shared/schema";
+import { Money } from "@shared/money";
+import { fundingFor } from "@shared/fundingRules";
+import { storage } from "../storage";
+
+export interface FundingRulePreview {
+  ruleId: string | null; // null for a rule that is not saved yet
+  goalId: string;
+  monthly: Money; // Expected contributions per month
+  matched: number; // Transactions in the sample the rule would have funded
+}
+
+export interface FundingPreview {
+  rules: FundingRulePreview[];
+  total: Money;
+  sampleStart: Date;
+  sampleEnd: Date;
+}
+
+type PreviewedRule = Pick<GoalFundingRule, "goalId" | "type" | "percentage" | "amount" | "frequency" | "category" | "accountId"> & { id?: string };
+type ScheduleSource = Partial<Pick<GoalFundingRule, "frequency" | "startDate">>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const WEEKS_PER_MONTH = 52 / 12;
+// Months of past transactions the preview averages over
+const SAMPLE_MONTHS = 3;
+// Catch-up cap per run, as for recurring transactions
+const MAX_RUNS_PER_RULE = 400;
+
+export class FundingRuleService {
+  private timer: NodeJS.Timeout | null = null;
+
+  // First run on or after `from`: weekly rules repeat the start date's weekday, monthly rules its day of
+  // the month, clamped to short months
+  nextRun(rule: ScheduleSource, from: Date): Date {
+    const start = new Date(rule.startDate!);
+    if (from <= start) return start;
+
+    if (rule.frequency === "weekly") {
+      const weeks = Math.ceil((from.getTime() - start.getTime()) / WEEK_MS);
+      return new Date(start.getTime() + weeks * WEEK_MS);
+    }
+
+    let months = (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth();
+    let run = this.monthlyRun(start, months);
+    while (run < from) {
+      run = this.monthlyRun(start, ++months);
+    }
+    return run;
+  }
+
+  runsBetween(rule: ScheduleSource, from: Date, to: Date): Date[] {
+    const dates: Date[] = [];
+    let next = this.nextRun(rule, from);
+    while (next <= to && dates.length < MAX_RUNS_PER_RULE) {
+      dates.push(next);
+      next = this.nextRun(rule, new Date(next.getTime() + 1));
+    }
+    return dates;
+  }
+
+  // Round-ups and income shares are estimated from what they would have made of the last three months of
+  // transactions; scheduled rules from their amount and frequency
+  async preview(userId: string, rules: PreviewedRule[], now: Date = new Date()): Promise<FundingPreview> {
+    const currency = (await storage.getUser(userId))?.currency || "USD";
+    const sampleStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - SAMPLE_MONTHS, now.getUTCDate()));
+    const transactions = rules.some(rule => rule.type !== "scheduled")
+      ? await storage.getExpenses(userId, { startDate: sampleStart, endDate: now })
+      : [];
+
+    const previews = rules.map((rule): FundingRulePreview => {
+      if (rule.type === "scheduled") {
+        const amount = Money.of(rule.amount || 0, currency);
+        return {
+          ruleId: rule.id ?? null,
+          goalId: rule.goalId,
+          monthly: rule.frequency === "weekly" ? amount.times(WEEKS_PER_MONTH) : amount,
+          matched: 0,
+        };
+      }
+
+      const funded = transactions
+        .map(item => fundingFor(rule, {
+          type: item.type,
+          category: item.category,
+          accountId: item.accountId,
+          amount: Money.of(item.normalizedAmount ?? item.amount, currency),
+        }))
+        .filter(amount => amount.isPositive());
+      return {
+        ruleId: rule.id ?? null,
+        goalId: rule.goalId,
+        monthly: Money.sum(funded, currency).dividedBy(SAMPLE_MONTHS),
+        matched: funded.length,
+      };
+    });
+
+    return {
+      rules: previews,
+      total: Money.sum(previews.map(item => item.monthly), currency),
+      sampleStart,
+      sampleEnd: now,
+    };
+  }
+
+  async getPreview(userId: string, now: Date = new Date()): Promise<FundingPreview> {
+    const rules = await storage.getGoalFundingRules(userId);
+    return await this.preview(userId, rules.filter(rule => rule.isActive), now);
+  }
+
+  // Posts every due scheduled contribution; a rule that fails is retried on the next run
+  async runDue(asOf: Date = new Date()): Promise<number> {
+    const due = await storage.getDueGoalFundingRules(asOf);
+    let posted = 0;
+
+    for (const rule of due) {
+      try {
+        const dates = this.runsBetween(rule, rule.nextRunDate!, asOf);
+        const after = dates.length > 0 ? dates[dates.length - 1] : asOf;
+        posted += await storage.runScheduledFundingRule(rule, dates, this.nextRun(rule, new Date(after.getTime() + 1)));
+      } catch (error) {
+        console.error(`Goal funding rule ${rule.id} failed to run:`, error);
+      }
+    }
+
+    return posted;
+  }
+
+  start(intervalMs: number = 60 * 60 * 1000) {
+    if (this.timer) return;
+
+    const run = () => {
+      this.runDue()
+        .then(posted => {
+          if (posted > 0) console.log(`🎯 Posted ${posted} scheduled goal contributions`);
+        })
+        .catch(error => console.error("Goal funding run failed:", error));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private monthlyRun(start: Date, months: number): Date {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + months;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth), start.getUTCHours(), start.getUTCMinutes()));
+  }
+}
+
+export const fundingRuleService = new FundingRuleService();
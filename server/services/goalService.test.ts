@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Goal, GoalContribution } from "@shared/schema";
+import { goalService } from "./goalService";
+
+vi.mock("../storage", () => ({ storage: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = (365.25 / 12) * DAY_MS;
+const now = new Date("2026-10-19T12:00:00Z");
+const months = (count: number) => new Date(now.getTime() + count * MONTH_MS);
+
+const goal = (overrides: Partial<Goal>): Goal => ({
+  id: "goal-1",
+  userId: "user-1",
+  name: "Bike",
+  targetAmount: "3000.00",
+  currentAmount: "1600.00",
+  category: null,
+  deadline: null,
+  isCompleted: false,
+  createdAt: months(-6),
+  updatedAt: null,
+  ...overrides,
+});
+
+const contribution = (amount: string, date: Date, isOpeningBalance = false): GoalContribution => ({
+  id: `contribution-${date.getTime()}`,
+  goalId: "goal-1",
+  userId: "user-1",
+  amount,
+  date,
+  note: null,
+  expenseId: null,
+  transferId: null,
+  isOpeningBalance,
+  ruleId: null,
+  createdAt: null,
+});
+
+// 1000 saved before the goal, then 600 over its six months: a pace of 100 a month
+const contributions = [
+  contribution("1000.00", months(-6), true),
+  contribution("250.00", months(-5)),
+  contribution("-50.00", months(-3)),
+  contribution("400.00", months(-1)),
+];
+
+describe("GoalService.project", () => {
+  it("measures the pace without the opening balance and asks for what the deadline needs", () => {
+    const projection = goalService.project(goal({ deadline: months(10) }), contributions, "USD", now);
+
+    expect([projection.saved, projection.remaining, projection.averageMonthlySaving, projection.requiredMonthly].map(String))
+      .toEqual(["1600.00", "1400.00", "100.00", "140.00"]);
+    expect(projection.estimatedCompletion).toEqual(months(14));
+    expect(projection).toMatchObject({ monthsToDeadline: 10, status: "behind" });
+  });
+
+  it("is on track when the pace reaches the target by the deadline", () => {
+    expect(goalService.project(goal({ deadline: months(20) }), contributions, "USD", now).status).toBe("on_track");
+  });
+
+  it("only counts the last year of contributions towards the pace", () => {
+    const old = goal({ createdAt: months(-24) });
+    const projection = goalService.project(old, [contribution("1200.00", months(-18)), contribution("600.00", months(-2))], "USD", now);
+
+    expect(projection.averageMonthlySaving.toString()).toBe("50.00");
+  });
+
+  it("wants the whole remainder within the month when less than a month is left", () => {
+    expect(goalService.project(goal({ deadline: months(0.5) }), contributions, "USD", now).requiredMonthly?.toString()).toBe("1400.00");
+  });
+
+  it("reports completed, overdue and open-ended goals", () => {
+    const reached = goalService.project(goal({ currentAmount: "3100.00" }), contributions, "USD", now);
+    expect(reached).toMatchObject({ status: "completed", estimatedCompletion: now });
+    expect(reached.remaining.toString()).toBe("0.00");
+
+    expect(goalService.project(goal({ deadline: months(-1) }), contributions, "USD", now)).toMatchObject({ status: "overdue", requiredMonthly: null });
+    expect(goalService.project(goal({}), contributions, "USD", now)).toMatchObject({ status: "no_deadline", requiredMonthly: null, monthsToDeadline: null });
+  });
+
+  it("never estimates completion without a positive pace", () => {
+    expect(goalService.project(goal({ deadline: months(10) }), [], "USD", now)).toMatchObject({ estimatedCompletion: null, status: "behind" });
+  });
+});
@@ -0,0 +1,91 @@
+import type { Goal, GoalContribution } from "@shared/schema";
+import { Money } from "@shared/money";
+import { storage } from "../storage";
+
+export type GoalStatus = "completed" | "on_track" | "behind" | "overdue" | "no_deadline";
+
+export interface GoalProjection {
+  goalId: string;
+  saved: Money;
+  remaining: Money; // Zero once the target is reached
+  averageMonthlySaving: Money; // Net contributions per month over the last year of the goal
+  estimatedCompletion: Date | null; // When the average pace reaches the target; null if it never will
+  requiredMonthly: Money | null; // Needed per month to reach the target by the deadline
+  monthsToDeadline: number | null;
+  status: GoalStatus;
+}
+
+export type GoalWithProjection = Goal & { projection: GoalProjection };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 365.25 / 12;
+const PACE_WINDOW_MONTHS = 12;
+
+const monthsBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (MONTH_DAYS * DAY_MS);
+
+export class GoalService {
+  // The saving pace is the net of everything contributed since the goal was created, looking back at most a
+  // year, spread over the months elapsed (never less than one). Opening balances are savings from before
+  // the goal, so they count towards the target but not towards the pace.
+  project(goal: Goal, contributions: GoalContribution[], currency: string, now: Date = new Date()): GoalProjection {
+    const target = Money.of(goal.targetAmount, currency);
+    const saved = Money.of(goal.currentAmount || 0, currency);
+    const remaining = saved.compare(target) >= 0 ? Money.zero(currency) : target.minus(saved);
+
+    const created = goal.createdAt ? new Date(goal.createdAt) : now;
+    const windowStart = new Date(Math.max(created.getTime(), now.getTime() - PACE_WINDOW_MONTHS * MONTH_DAYS * DAY_MS));
+    const paced = contributions.filter(item => !item.isOpeningBalance && new Date(item.date) >= windowStart && new Date(item.date) <= now);
+    const months = Math.max(1, monthsBetween(windowStart, now));
+    const averageMonthlySaving = Money.sum(paced.map(item => Money.of(item.amount, currency)), currency).dividedBy(months);
+
+    const deadline = goal.deadline ? new Date(goal.deadline) : null;
+    const monthsToDeadline = deadline ? monthsBetween(now, deadline) : null;
+    // With less than a month left, the whole remainder is due within the month
+    const requiredMonthly = monthsToDeadline !== null && monthsToDeadline > 0
+      ? remaining.dividedBy(Math.max(1, monthsToDeadline))
+      : null;
+
+    let estimatedCompletion: Date | null = null;
+    if (remaining.isZero()) {
+      estimatedCompletion = now;
+    } else if (averageMonthlySaving.isPositive()) {
+      const monthsNeeded = remaining.ratio(averageMonthlySaving);
+      estimatedCompletion = new Date(now.getTime() + monthsNeeded * MONTH_DAYS * DAY_MS);
+    }
+
+    let status: GoalStatus;
+    if (remaining.isZero() || goal.isCompleted) {
+      status = "completed";
+    } else if (!deadline) {
+      status = "no_deadline";
+    } else if (deadline < now) {
+      status = "overdue";
+    } else {
+      status = estimatedCompletion && estimatedCompletion <= deadline ? "on_track" : "behind";
+    }
+
+    return {
+      goalId: goal.id,
+      saved,
+      remaining,
+      averageMonthlySaving,
+      estimatedCompletion,
+      requiredMonthly,
+      monthsToDeadline: monthsToDeadline === null ? null : Math.round(monthsToDeadline * 10) / 10,
+      status,
+    };
+  }
+
+  async getProjection(userId: string, goal: Goal, now: Date = new Date()): Promise<GoalProjection> {
+    const currency = (await storage.getUser(userId))?.currency || "USD";
+    const contributions = await storage.getGoalContributions(goal.id, userId);
+    return this.project(goal, contributions, currency, now);
+  }
+
+  async getGoalsWithProjections(userId: string, now: Date = new Date()): Promise<GoalWithProjection[]> {
+    const goals = await storage.getGoals(userId);
+    return await Promise.all(goals.map(async goal => ({ ...goal, projection: await this.getProjection(userId, goal, now) })));
+  }
+}
+
+export const goalService = new GoalService();
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { importService } from "./importService";
+
+describe("ImportService.parseCsv", () => {
+  it("reads quoted fields with delimiters, newlines and escaped quotes", () => {
+    const content = '\uFEFFDate,Description,Amount\r\n2026-10-01,"Coffee, ""large""",-3.50\r\n2026-10-02,"Two\nlines",12\r\n';
+    expect(importService.parseCsv(content)).toEqual({
+      headers: ["Date", "Description", "Amount"],
+      rows: [
+        { Date: "2026-10-01", Description: 'Coffee, "large"', Amount: "-3.50" },
+        { Date: "2026-10-02", Description: "Two\nlines", Amount: "12" },
+      ],
+    });
+  });
+
+  it("names columns by position when there is no header row", () => {
+    const { headers, rows } = importService.parseCsv("01/10/2026;Rent;-800\n\n", ";", false);
+    expect(headers).toEqual(["Column 1", "Column 2", "Column 3"]);
+    expect(rows).toEqual([{ "Column 1": "01/10/2026", "Column 2": "Rent", "Column 3": "-800" }]);
+  });
+});
+
+describe("ImportService.suggestColumns", () => {
+  it("matches common bank header names", () => {
+    expect(importService.suggestColumns(["Booking Date", "Narrative", "Debit/Credit", "Categoria"])).toEqual({
+      amount: "Debit/Credit",
+      date: "Booking Date",
+      description: "Narrative",
+      type: undefined,
+      category: "Categoria",
+    });
+  });
+});
+
+describe("ImportService.preview", () => {
+  const columns = { amount: "Amount", date: "Date", description: "Description" };
+
+  it("maps rows to expenses, taking the type from the sign", () => {
+    const preview = importService.preview("Date,Description,Amount\n2026-10-01,Coffee,-3.5\n2026-10-02,Salary,2000\n", "user-1", { columns });
+
+    expect(preview.validCount).toBe(2);
+    expect(preview.rows[0].rowNumber).toBe(2);
+    expect(preview.rows[0].expense).toMatchObject({
+      userId: "user-1",
+      amount: "3.50",
+      type: "expense",
+      description: "Coffee",
+      category: "other",
+      date: new Date("2026-10-01T00:00:00Z"),
+    });
+    expect(preview.rows[1].expense).toMatchObject({ amount: "2000.00", type: "income" });
+  });
+
+  it("reads day-first dates and decimal commas", () => {
+    const preview = importService.preview('Date;Description;Amount\n31/10/2026;Rent;"(1.234,50)"\n', "user-1", {
+      columns,
+      delimiter: ";",
+      dateFormat: "DD/MM/YYYY",
+      decimalSeparator: ",",
+    });
+
+    expect(preview.rows[0].expense).toMatchObject({ amount: "1234.50", type: "expense", date: new Date("2026-10-31T00:00:00Z") });
+  });
+
+  it("reads amounts as exact decimals", () => {
+    const preview = importService.preview("Date,Description,Amount\n2026-10-01,Fee,-1.005\n2026-10-02,Bad,1.2.3\n", "user-1", { columns });
+
+    expect(preview.rows[0].expense).toMatchObject({ amount: "1.01", type: "expense" });
+    expect(preview.rows[1].errors).toEqual(['amount: could not read "1.2.3"']);
+  });
+
+  it("uses the type and category columns when mapped", () => {
+    const preview = importService.preview("Date,Description,Amount,Type,Category\n2026-10-01,Refund,15,Debit,Shopping\n", "user-1", {
+      columns: { ...columns, type: "Type", category: "Category" },
+    });
+
+    expect(preview.rows[0].expense).toMatchObject({ type: "expense", category: "shopping" });
+  });
+
+  it("rounds amounts to the minor units of the statement currency", () => {
+    const preview = importService.preview("Date,Description,Amount\n2026-10-01,Sushi,-1234.6\n", "user-1", { columns, currency: "JPY" });
+
+    expect(preview.rows[0].expense).toMatchObject({ amount: "1235", currency: "JPY" });
+  });
+
+  it("reports rows it cannot read", () => {
+    const preview = importService.preview("Date,Description,Amount\n2026-02-30,Bad date,abc\n", "user-1", { columns });
+
+    expect(preview.errorCount).toBe(1);
+    expect(preview.rows[0].expense).toBeNull();
+    expect(preview.rows[0].errors).toEqual([
+      'amount: could not read "abc"',
+      'date: "2026-02-30" does not match YYYY-MM-DD',
+    ]);
+  });
+});
+
+describe("ImportService.previewOfx", () => {
+  // OFX 1.x SGML leaves elements unclosed; OFX 2.x closes them
+  const statement = [
+    "OFXHEADER:100",
+    "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20261003120000[-5:EST]<TRNAMT>-42.10<FITID>A-1<NAME>Grocer &amp; Co<MEMO>Card</STMTTRN>",
+    "<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20261005</DTPOSTED><TRNAMT>1500.00</TRNAMT><FITID>A-2</FITID><MEMO>Payroll</MEMO></STMTTRN>",
+    "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>2026<TRNAMT>x<FITID>A-3</STMTTRN>",
+    "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+  ].join("\n");
+
+  it("reads SGML and XML transactions with their FITIDs", () => {
+    const preview = importService.previewOfx(statement, "user-1", "groceries");
+
+    expect(preview.rows[0].expense).toMatchObject({
+      amount: "42.10",
+      type: "expense",
+      description: "Grocer & Co",
+      category: "groceries",
+      date: new Date("2026-10-03T00:00:00Z"),
+      externalId: "A-1",
+    });
+    expect(preview.rows[1].expense).toMatchObject({ amount: "1500.00", type: "income", description: "Payroll", externalId: "A-2" });
+  });
+
+  it("takes the currency from the statement's CURDEF", () => {
+    const preview = importService.previewOfx(statement.replace("<BANKTRANLIST>", "<CURDEF>eur<BANKTRANLIST>"), "user-1");
+
+    expect(preview.rows[0].expense).toMatchObject({ amount: "42.10", currency: "EUR" });
+    expect(importService.previewOfx(statement, "user-1", "other", "GBP").rows[0].expense?.currency).toBe("GBP");
+  });
+
+  it("reports transactions it cannot read", () => {
+    const { rows, validCount, errorCount } = importService.previewOfx(statement, "user-1");
+
+    expect([validCount, errorCount]).toEqual([2, 1]);
+    expect(rows[2].errors).toEqual(['TRNAMT: could not read "x"', 'DTPOSTED: could not read "2026"']);
+  });
+
+  it("turns FITIDs imported before into errors", () => {
+    const preview = importService.excludeExisting(importService.previewOfx(statement, "user-1"), ["A-2"]);
+
+    expect(preview.rows[1].expense).toBeNull();
+    expect(preview.rows[1].errors).toEqual(["already imported (FITID A-2)"]);
+    expect(preview.validCount).toBe(1);
+  });
+
+  it("turns FITIDs repeated within the statement into errors, keeping the first", () => {
+    const repeated = statement.replace("<FITID>A-2</FITID>", "<FITID>A-1</FITID>");
+    const preview = importService.excludeExisting(importService.previewOfx(repeated, "user-1"), []);
+
+    expect(preview.rows[0].expense).toMatchObject({ externalId: "A-1" });
+    expect(preview.rows[1].expense).toBeNull();
+    expect(preview.rows[1].errors).toEqual(["repeats an earlier row (FITID A-1)"]);
+  });
+});
+
+describe("ImportService.previewQif", () => {
+  it("reads records with Quicken dates, categories and split totals", () => {
+    const content = [
+      "!Type:Bank",
+      "D10/03'26",
+      "T-1,250.00",
+      "PLandlord",
+      "LHousing:Rent",
+      "SHousing",
+      "$-1000.00",
+      "^",
+      "D10/05/2026",
+      "U300",
+      "MBonus",
+      "^",
+    ].join("\r\n");
+    const preview = importService.previewQif(content, "user-1");
+
+    expect(preview.rows.map(row => row.expense)).toMatchObject([
+      { amount: "1250.00", type: "expense", description: "Landlord", category: "housing", date: new Date("2026-10-03T00:00:00Z") },
+      { amount: "300.00", type: "income", description: "Bonus", category: "other", date: new Date("2026-10-05T00:00:00Z") },
+    ]);
+  });
+
+  it("reads day-first dates when told to", () => {
+    const preview = importService.previewQif("D31/10/2026\nT-5\nPBus\n^\n", "user-1", "DD/MM/YYYY");
+
+    expect(preview.rows[0].expense?.date).toEqual(new Date("2026-10-31T00:00:00Z"));
+  });
+});
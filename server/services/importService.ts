@@ -0,0 +1,392 @@
+import { insertExpenseSchema, type CsvColumnMapping, type InsertExpense } from "@shared/schema";
+import { Money } from "@shared/money";
+import type { DuplicateMatch } from "./duplicateService";
+
+export interface CsvImportOptions {
+  columns: CsvColumnMapping;
+  delimiter: string;
+  dateFormat: string;
+  decimalSeparator: string;
+  hasHeader: boolean;
+  defaultCategory: string;
+  currency: string; // Currency of the statement's amounts
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  raw: Record<string, string>;
+  expense: InsertExpense | null;
+  errors: string[];
+  duplicates?: DuplicateMatch[];
+}
+
+export interface ImportPreview {
+  headers: string[];
+  columns: CsvColumnMapping;
+  rows: ImportPreviewRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+const DEFAULT_OPTIONS: Omit<CsvImportOptions, "columns"> = {
+  delimiter: ",",
+  dateFormat: "YYYY-MM-DD",
+  decimalSeparator: ".",
+  hasHeader: true,
+  defaultCategory: "other",
+  currency: "USD",
+};
+
+// Header names commonly used by banks for each expense field
+const HEADER_HINTS: Record<keyof CsvColumnMapping, string[]> = {
+  amount: ["amount", "importo", "value", "sum", "debit/credit"],
+  date: ["date", "data", "transaction date", "booking date", "posted"],
+  description: ["description", "descrizione", "details", "memo", "payee", "narrative"],
+  type: ["type", "tipo", "transaction type", "direction"],
+  category: ["category", "categoria"],
+};
+
+const INCOME_TYPES = ["income", "credit", "deposit", "cr", "entrata"];
+const EXPENSE_TYPES = ["expense", "debit", "withdrawal", "payment", "dr", "uscita"];
+
+export class ImportService {
+  parseCsv(content: string, delimiter: string = ",", hasHeader: boolean = true): ParsedCsv {
+    const records = this.tokenize(content.replace(/^\uFEFF/, ""), delimiter)
+      .filter(record => record.some(field => field.trim() !== ""));
+
+    if (records.length === 0) {
+      return { headers: [], rows: [] };
+    }
+
+    const width = Math.max(...records.map(record => record.length));
+    const headers = hasHeader
+      ? records[0].map((header, index) => header.trim() || `Column ${index + 1}`)
+      : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+    const dataRecords = hasHeader ? records.slice(1) : records;
+
+    const rows = dataRecords.map(record => {
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        row[header] = (record[index] ?? "").trim();
+      });
+      return row;
+    });
+
+    return { headers, rows };
+  }
+
+  suggestColumns(headers: string[]): CsvColumnMapping {
+    const find = (field: keyof CsvColumnMapping) => {
+      const hints = HEADER_HINTS[field];
+      return headers.find(header => hints.includes(header.toLowerCase()))
+        || headers.find(header => hints.some(hint => header.toLowerCase().includes(hint)));
+    };
+
+    return {
+      amount: find("amount") || headers[0] || "",
+      date: find("date") || headers[1] || "",
+      description: find("description") || headers[2] || "",
+      type: find("type"),
+      category: find("category"),
+    };
+  }
+
+  preview(content: string, userId: string, options: Partial<CsvImportOptions>): ImportPreview {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const { headers, rows } = this.parseCsv(content, settings.delimiter, settings.hasHeader);
+    const columns = settings.columns || this.suggestColumns(headers);
+
+    const previewRows = rows.map((raw, index) => {
+      const rowNumber = index + (settings.hasHeader ? 2 : 1);
+      return this.mapRow(raw, rowNumber, userId, { ...settings, columns });
+    });
+
+    return this.summarize(headers, previewRows, columns);
+  }
+
+  private mapRow(raw: Record<string, string>, rowNumber: number, userId: string, options: CsvImportOptions): ImportPreviewRow {
+    const { columns } = options;
+    const errors: string[] = [];
+
+    const amount = this.parseAmount(raw[columns.amount], options.decimalSeparator, options.currency);
+    if (amount === null) {
+      errors.push(`amount: could not read "${raw[columns.amount] ?? ""}"`);
+    }
+
+    const date = this.parseDate(raw[columns.date], options.dateFormat);
+    if (!date) {
+      errors.push(`date: "${raw[columns.date] ?? ""}" does not match ${options.dateFormat}`);
+    }
+
+    let type = columns.type ? this.parseType(raw[columns.type]) : null;
+    if (!type && amount !== null) {
+      // Without a type column, the sign decides: money out is an expense
+      type = amount.isNegative() ? "expense" : "income";
+    }
+
+    const category = (columns.category && raw[columns.category]?.toLowerCase()) || options.defaultCategory;
+
+    return this.buildRow(rowNumber, raw, errors, {
+      userId,
+      amount: amount?.abs().toString(),
+      currency: options.currency,
+      type,
+      description: raw[columns.description],
+      category,
+      date,
+    });
+  }
+
+  // Amounts are in the statement's CURDEF, or in `currency` when the file does not say
+  previewOfx(content: string, userId: string, defaultCategory: string = "other", currency: string = "USD"): ImportPreview {
+    const statementCurrency = this.readOfxValue(content, "CURDEF")?.toUpperCase() || currency;
+    const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+    const previewRows = blocks.map((block, index) => {
+      const raw: Record<string, string> = {};
+      for (const tag of ["TRNTYPE", "DTPOSTED", "TRNAMT", "FITID", "NAME", "MEMO", "CHECKNUM"]) {
+        const value = this.readOfxValue(block, tag);
+        if (value !== undefined) raw[tag] = value;
+      }
+
+      const errors: string[] = [];
+      const amount = this.parseAmount(raw.TRNAMT, ".", statementCurrency);
+      if (amount === null) {
+        errors.push(`TRNAMT: could not read "${raw.TRNAMT ?? ""}"`);
+      }
+      const date = this.parseOfxDate(raw.DTPOSTED);
+      if (!date) {
+        errors.push(`DTPOSTED: could not read "${raw.DTPOSTED ?? ""}"`);
+      }
+
+      return this.buildRow(index + 1, raw, errors, {
+        userId,
+        amount: amount?.abs().toString(),
+        currency: statementCurrency,
+        type: amount?.isNegative() ? "expense" : "income",
+        description: raw.NAME || raw.MEMO || raw.TRNTYPE,
+        category: defaultCategory,
+        date,
+        externalId: raw.FITID || null,
+      });
+    });
+
+    return this.summarize(["TRNTYPE", "DTPOSTED", "TRNAMT", "FITID", "NAME", "MEMO"], previewRows);
+  }
+
+  previewQif(content: string, userId: string, dateFormat: string = "MM/DD/YYYY", defaultCategory: string = "other", currency: string = "USD"): ImportPreview {
+    const records: Record<string, string>[] = [];
+    let current: Record<string, string> = {};
+
+    for (const line of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith("!")) continue;
+      if (line.startsWith("^")) {
+        if (Object.keys(current).length > 0) records.push(current);
+        current = {};
+        continue;
+      }
+      // Split lines (S/E/$) describe category splits; the record total is kept
+      const code = line[0];
+      if (!(code in current)) current[code] = line.slice(1).trim();
+    }
+    if (Object.keys(current).length > 0) records.push(current);
+
+    const previewRows = records.map((raw, index) => {
+      const errors: string[] = [];
+      const amount = this.parseAmount(raw.T ?? raw.U, ".", currency);
+      if (amount === null) {
+        errors.push(`T: could not read "${raw.T ?? ""}"`);
+      }
+      // Quicken writes two-digit years as MM/DD'YY
+      const date = this.parseDate(raw.D?.replace("'", "/"), dateFormat);
+      if (!date) {
+        errors.push(`D: "${raw.D ?? ""}" does not match ${dateFormat}`);
+      }
+
+      return this.buildRow(index + 1, raw, errors, {
+        userId,
+        amount: amount?.abs().toString(),
+        currency,
+        type: amount?.isNegative() ? "expense" : "income",
+        description: raw.P || raw.M,
+        category: raw.L ? raw.L.split(":")[0].toLowerCase() : defaultCategory,
+        date,
+      });
+    });
+
+    return this.summarize(["D", "T", "P", "M", "L", "N"], previewRows);
+  }
+
+  // Rows whose bank id was imported before, or appears earlier in the same statement, are turned into
+  // errors so they are never committed twice
+  excludeExisting(preview: ImportPreview, existingIds: string[]): ImportPreview {
+    const existing = new Set(existingIds);
+    const seen = new Set<string>();
+    const rows = preview.rows.map(row => {
+      const externalId = row.expense?.externalId;
+      if (!externalId) return row;
+      if (existing.has(externalId)) {
+        return { ...row, expense: null, errors: [`already imported (FITID ${externalId})`] };
+      }
+      if (seen.has(externalId)) {
+        return { ...row, expense: null, errors: [`repeats an earlier row (FITID ${externalId})`] };
+      }
+      seen.add(externalId);
+      return row;
+    });
+
+    return this.summarize(preview.headers, rows, preview.columns);
+  }
+
+  private buildRow(rowNumber: number, raw: Record<string, string>, errors: string[], candidate: Record<string, unknown>): ImportPreviewRow {
+    if (errors.length > 0) {
+      return { rowNumber, raw, expense: null, errors };
+    }
+
+    const result = insertExpenseSchema.safeParse(candidate);
+    if (!result.success) {
+      return {
+        rowNumber,
+        raw,
+        expense: null,
+        errors: result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+      };
+    }
+
+    return { rowNumber, raw, expense: result.data, errors: [] };
+  }
+
+  private summarize(headers: string[], rows: ImportPreviewRow[], columns?: CsvColumnMapping): ImportPreview {
+    const validCount = rows.filter(row => row.errors.length === 0).length;
+    return {
+      headers,
+      columns: columns || { amount: headers[0], date: headers[1], description: headers[2] },
+      rows,
+      validCount,
+      errorCount: rows.length - validCount,
+    };
+  }
+
+  // OFX 1.x is SGML (elements have no closing tag), OFX 2.x is XML; this reads both
+  private readOfxValue(block: string, tag: string): string | undefined {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+    if (!match) return undefined;
+    return match[1]
+      .trim()
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">");
+  }
+
+  private parseOfxDate(value: string | undefined): Date | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    return this.parseDate(`${match[1]}-${match[2]}-${match[3]}`, "YYYY-MM-DD");
+  }
+
+  // Statement amounts are read as exact decimals and rounded to the currency's minor units
+  private parseAmount(value: string | undefined, decimalSeparator: string, currency: string): Money | null {
+    if (!value) return null;
+
+    let cleaned = value.replace(/[^\d.,()\-+]/g, "");
+    const negative = cleaned.startsWith("-") || cleaned.endsWith("-") || /^\(.*\)$/.test(cleaned);
+    cleaned = cleaned.replace(/[()\-+]/g, "");
+
+    if (decimalSeparator === ",") {
+      cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+    } else {
+      cleaned = cleaned.replace(/,/g, "");
+    }
+
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+
+    return Money.of(negative ? `-${cleaned}` : cleaned, currency);
+  }
+
+  private parseDate(value: string | undefined, format: string): Date | null {
+    if (!value) return null;
+
+    const parts = value.trim().split(/[\/.\-\s T]/).filter(Boolean);
+    if (parts.length < 3) return null;
+
+    let year: number, month: number, day: number;
+    switch (format) {
+      case "DD/MM/YYYY":
+      case "DD.MM.YYYY":
+        [day, month, year] = parts.slice(0, 3).map(Number);
+        break;
+      case "MM/DD/YYYY":
+        [month, day, year] = parts.slice(0, 3).map(Number);
+        break;
+      default:
+        [year, month, day] = parts.slice(0, 3).map(Number);
+    }
+
+    if (year < 100) year += 2000;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+
+    return date;
+  }
+
+  private parseType(value: string | undefined): "expense" | "income" | null {
+    const normalized = value?.trim().toLowerCase();
+    if (!normalized) return null;
+    if (INCOME_TYPES.includes(normalized)) return "income";
+    if (EXPENSE_TYPES.includes(normalized)) return "expense";
+    return null;
+  }
+
+  // RFC 4180 style tokenizer: quoted fields may contain delimiters, newlines and "" escapes
+  private tokenize(content: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== "" || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+}
+
+export const importService = new ImportService();
@@ -0,0 +1,72 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createRateProvider, EcbFileRateProvider, ManualRateProvider } from "./rateProviders";
+
+describe("EcbFileRateProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ecb-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("rebases the EUR reference rates of an XML file on USD", async () => {
+    const file = join(dir, "eurofxref.xml");
+    await writeFile(file, [
+      '<gesmes:Envelope><Cube>',
+      '<Cube time="2026-10-16"><Cube currency="USD" rate="1.25"/><Cube currency="GBP" rate="0.875"/></Cube>',
+      '</Cube></gesmes:Envelope>',
+    ].join("\n"));
+
+    expect(await new EcbFileRateProvider(file).fetchRates()).toEqual([
+      { date: new Date("2026-10-16T00:00:00Z"), rates: { EUR: 0.8, USD: 1, GBP: 0.7 } },
+    ]);
+  });
+
+  it("reads historical CSV files and skips days without a USD rate", async () => {
+    const file = join(dir, "eurofxref-hist.csv");
+    await writeFile(file, "Date, USD, JPY, \n16 October 2026, 1.25, 175, \n2026-10-15, N/A, 170, \n");
+
+    expect(await new EcbFileRateProvider(file).fetchRates()).toEqual([
+      { date: new Date("2026-10-16T00:00:00Z"), rates: { EUR: 0.8, USD: 1, JPY: 140 } },
+    ]);
+  });
+
+  it("delivers nothing new until the file changes", async () => {
+    const file = join(dir, "eurofxref.xml");
+    await writeFile(file, '<Cube time="2026-10-16"><Cube currency="USD" rate="1.25"/></Cube>');
+    const provider = new EcbFileRateProvider(file);
+
+    expect(await provider.fetchRates()).toHaveLength(1);
+    expect(await provider.fetchRates()).toEqual([]);
+  });
+});
+
+describe("ManualRateProvider.parse", () => {
+  it("reads code=rate pairs on top of USD", () => {
+    expect(ManualRateProvider.parse("eur=0.92, GBP=0.79")).toEqual({ USD: 1, EUR: 0.92, GBP: 0.79 });
+  });
+
+  it("rejects malformed pairs", () => {
+    expect(() => ManualRateProvider.parse("EUR=0.92,GBP")).toThrow('Invalid manual exchange rate: "GBP"');
+    expect(() => ManualRateProvider.parse("EURO=1")).toThrow('Invalid manual exchange rate: "EURO=1"');
+  });
+});
+
+describe("createRateProvider", () => {
+  it("picks the provider named in the environment", () => {
+    expect(createRateProvider({}).name).toBe("http");
+    expect(createRateProvider({ EXCHANGE_RATE_PROVIDER: "ECB-FILE", EXCHANGE_RATE_FILE: "/tmp/rates.xml" }).name).toBe("ecb-file");
+    expect(createRateProvider({ EXCHANGE_RATE_PROVIDER: "manual", EXCHANGE_RATES: "EUR=0.9" }).name).toBe("manual");
+  });
+
+  it("requires the settings each provider needs", () => {
+    expect(() => createRateProvider({ EXCHANGE_RATE_PROVIDER: "ecb-file" })).toThrow("EXCHANGE_RATE_FILE is required");
+    expect(() => createRateProvider({ EXCHANGE_RATE_PROVIDER: "ftp" })).toThrow("Unknown exchange rate provider: ftp");
+  });
+});
@@ -0,0 +1,157 @@
+import { readFile, stat } from "fs/promises";
+
+// Units of each currency per USD, effective on one day
+export interface RateSnapshot {
+  date: Date;
+  rates: Record<string, number>;
+}
+
+export interface RateProvider {
+  readonly name: string;
+  // Snapshots not yet delivered; an empty list means nothing new since the last call
+  fetchRates(): Promise<RateSnapshot[]>;
+}
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Live rates from exchangerate-api.com or a compatible `{ date, rates }` endpoint based on USD
+export class HttpRateProvider implements RateProvider {
+  readonly name = "http";
+
+  constructor(private readonly url: string = "https://api.exchangerate-api.com/v4/latest/USD") {}
+
+  async fetchRates(): Promise<RateSnapshot[]> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`Rate API responded with ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data?.rates || typeof data.rates !== "object") {
+      throw new Error("Rate API response has no rates");
+    }
+
+    const rates: Record<string, number> = {};
+    Object.entries(data.rates).forEach(([code, rate]) => {
+      if (Number(rate) > 0) rates[code] = Number(rate);
+    });
+
+    return [{ date: startOfUtcDay(data.date ? new Date(data.date) : new Date()), rates }];
+  }
+}
+
+// Reference rates from a downloaded European Central Bank file (eurofxref XML or CSV, daily or historical).
+// ECB quotes everything against EUR, so rates are rebased on USD.
+export class EcbFileRateProvider implements RateProvider {
+  readonly name = "ecb-file";
+  private lastModified = 0;
+
+  constructor(private readonly filePath: string) {}
+
+  async fetchRates(): Promise<RateSnapshot[]> {
+    const { mtimeMs } = await stat(this.filePath);
+    if (mtimeMs === this.lastModified) return [];
+
+    const content = await readFile(this.filePath, "utf8");
+    const eurSnapshots = content.trimStart().startsWith("<") ? this.parseXml(content) : this.parseCsv(content);
+    if (eurSnapshots.length === 0) {
+      throw new Error(`No ECB rates found in ${this.filePath}`);
+    }
+
+    this.lastModified = mtimeMs;
+    return eurSnapshots.map(snapshot => this.rebaseOnUsd(snapshot)).filter((snapshot): snapshot is RateSnapshot => snapshot !== null);
+  }
+
+  // <Cube time="2024-05-02"><Cube currency="USD" rate="1.0708"/>...</Cube>
+  private parseXml(content: string): RateSnapshot[] {
+    const snapshots: RateSnapshot[] = [];
+    const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+    const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+    for (const [, day, body] of Array.from(content.matchAll(dayPattern))) {
+      const rates: Record<string, number> = {};
+      for (const [, code, rate] of Array.from(body.matchAll(ratePattern))) {
+        rates[code] = Number(rate);
+      }
+      snapshots.push({ date: new Date(`${day}T00:00:00Z`), rates });
+    }
+    return snapshots;
+  }
+
+  // Header "Date, USD, JPY, ..." followed by one row per day; dates are "02 May 2024" or "2024-05-02"
+  private parseCsv(content: string): RateSnapshot[] {
+    const [header, ...lines] = content.split(/\r?\n/).filter(line => line.trim());
+    if (!header) return [];
+
+    const codes = header.split(",").map(cell => cell.trim());
+    return lines.flatMap(line => {
+      const cells = line.split(",").map(cell => cell.trim());
+      const date = /^\d{4}-\d{2}-\d{2}$/.test(cells[0]) ? new Date(`${cells[0]}T00:00:00Z`) : new Date(`${cells[0]} UTC`);
+      if (isNaN(date.getTime())) return [];
+
+      const rates: Record<string, number> = {};
+      codes.forEach((code, index) => {
+        const rate = Number(cells[index]);
+        if (index > 0 && /^[A-Z]{3}$/.test(code) && rate > 0) rates[code] = rate;
+      });
+      return [{ date, rates }];
+    });
+  }
+
+  private rebaseOnUsd(snapshot: RateSnapshot): RateSnapshot | null {
+    const eurPerUsd = snapshot.rates.USD;
+    if (!eurPerUsd) return null;
+
+    const rates: Record<string, number> = { EUR: 1 / eurPerUsd };
+    Object.entries(snapshot.rates).forEach(([code, rate]) => {
+      rates[code] = rate / eurPerUsd;
+    });
+    return { date: snapshot.date, rates };
+  }
+}
+
+// Fixed rates from configuration, e.g. "EUR=0.92,GBP=0.79,JPY=151.2" (units per USD)
+export class ManualRateProvider implements RateProvider {
+  readonly name = "manual";
+
+  constructor(private readonly overrides: Record<string, number>) {}
+
+  static parse(value: string): Record<string, number> {
+    const overrides: Record<string, number> = { USD: 1 };
+    value.split(",").forEach(pair => {
+      const [code, rate] = pair.split("=").map(part => part.trim());
+      if (!/^[A-Za-z]{3}$/.test(code ?? "") || !(Number(rate) > 0)) {
+        throw new Error(`Invalid manual exchange rate: "${pair}"`);
+      }
+      overrides[code.toUpperCase()] = Number(rate);
+    });
+    return overrides;
+  }
+
+  async fetchRates(): Promise<RateSnapshot[]> {
+    return [{ date: startOfUtcDay(new Date()), rates: { ...this.overrides } }];
+  }
+}
+
+// EXCHANGE_RATE_PROVIDER selects the source: "http" (default), "ecb-file" with EXCHANGE_RATE_FILE,
+// or "manual" with EXCHANGE_RATES="EUR=0.92,...". EXCHANGE_RATE_API_URL points "http" at another endpoint.
+export function createRateProvider(env: NodeJS.ProcessEnv = process.env): RateProvider {
+  const provider = (env.EXCHANGE_RATE_PROVIDER || "http").toLowerCase();
+
+  switch (provider) {
+    case "http":
+      return new HttpRateProvider(env.EXCHANGE_RATE_API_URL || undefined);
+    case "ecb-file":
+      if (!env.EXCHANGE_RATE_FILE) {
+        throw new Error("EXCHANGE_RATE_FILE is required for the ecb-file rate provider");
+      }
+      return new EcbFileRateProvider(env.EXCHANGE_RATE_FILE);
+    case "manual":
+      if (!env.EXCHANGE_RATES) {
+        throw new Error("EXCHANGE_RATES is required for the manual rate provider");
+      }
+      return new ManualRateProvider(ManualRateProvider.parse(env.EXCHANGE_RATES));
+    default:
+      throw new Error(`Unknown exchange rate provider: ${provider}`);
+  }
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Expense, RecurringTransaction } from "@shared/schema";
+import { storage } from "../storage";
+import { alertService } from "./alertService";
+import { recurringService } from "./recurringService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getDueRecurringTransactions: vi.fn(),
+    materializeRecurringTransaction: vi.fn(),
+  },
+}));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const recurring = (overrides: Partial<RecurringTransaction>): RecurringTransaction => ({
+  id: "recurring-1",
+  userId: "user-1",
+  amount: "800.00",
+  type: "expense",
+  description: "Rent",
+  category: "housing",
+  cadence: "monthly",
+  interval: 1,
+  rrule: null,
+  startDate: day("2026-01-31"),
+  nextRunDate: day("2026-01-31"),
+  endDate: null,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: "expense-1",
+  userId: "user-1",
+  amount: "800.00",
+  currency: null,
+  exchangeRate: null,
+  normalizedAmount: null,
+  type: "expense",
+  description: "Rent",
+  category: "housing",
+  date: day("2026-10-15"),
+  location: null,
+  latitude: null,
+  longitude: null,
+  mood: null,
+  rating: null,
+  receiptUrl: null,
+  tags: null,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  transferDirection: null,
+  recurringTransactionId: "recurring-1",
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("RecurringService.parseRrule", () => {
+  it("reads the supported parts", () => {
+    expect(recurringService.parseRrule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,FR;BYMONTHDAY=1,-1;UNTIL=20261231T000000Z")).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      byDay: [1, 5],
+      byMonthDay: [1, -1],
+      until: day("2026-12-31"),
+    });
+  });
+
+  it("rejects rules it cannot follow", () => {
+    expect(() => recurringService.parseRrule("FREQ=HOURLY")).toThrow("Unsupported RRULE frequency: HOURLY");
+    expect(() => recurringService.parseRrule("FREQ=DAILY;COUNT=3")).toThrow("Unsupported RRULE parts: COUNT");
+    expect(() => recurringService.parseRrule("FREQ=DAILY;INTERVAL=0")).toThrow("Invalid RRULE interval: 0");
+    expect(() => recurringService.parseRrule("FREQ=WEEKLY;BYDAY=XX")).toThrow("Invalid RRULE weekday: XX");
+  });
+});
+
+describe("RecurringService.nextOccurrence", () => {
+  it("clamps a monthly start on the 31st to short months", () => {
+    const source = recurring({});
+
+    expect(recurringService.nextOccurrence(source, day("2026-02-01"))).toEqual(day("2026-02-28"));
+    expect(recurringService.nextOccurrence(source, day("2026-03-01"))).toEqual(day("2026-03-31"));
+    expect(recurringService.nextOccurrence(source, day("2026-04-01"))).toEqual(day("2026-04-30"));
+  });
+
+  it("counts negative BYMONTHDAY values from the end of the month", () => {
+    const source = recurring({ cadence: "custom", rrule: "FREQ=MONTHLY;BYMONTHDAY=-1", startDate: day("2026-02-10") });
+
+    expect(recurringService.nextOccurrence(source, day("2026-01-01"))).toEqual(day("2026-02-28"));
+  });
+
+  it("returns null once the end date has passed", () => {
+    const source = recurring({ cadence: "yearly", startDate: day("2024-02-29") });
+
+    expect(recurringService.nextOccurrence(source, day("2025-01-01"))).toEqual(day("2025-02-28"));
+    expect(recurringService.nextOccurrence(source, day("2025-01-01"), day("2025-01-31"))).toBeNull();
+  });
+});
+
+describe("RecurringService.occurrencesBetween", () => {
+  it("follows weekly intervals with several weekdays", () => {
+    const source = recurring({ cadence: "custom", rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", startDate: day("2026-10-05") });
+
+    expect(recurringService.occurrencesBetween(source, day("2026-10-01"), day("2026-10-31"))).toEqual(
+      ["2026-10-05", "2026-10-08", "2026-10-19", "2026-10-22"].map(day),
+    );
+  });
+
+  it("stops at UNTIL", () => {
+    const source = recurring({ cadence: "custom", rrule: "FREQ=DAILY;UNTIL=20261003", startDate: day("2026-10-01") });
+
+    expect(recurringService.occurrencesBetween(source, day("2026-10-01"), day("2026-10-10"))).toHaveLength(3);
+  });
+});
+
+describe("RecurringService.materializeDue", () => {
+  const created = [expense({ id: "expense-1", date: day("2026-09-15") }), expense({ id: "expense-2", date: day("2026-10-15") })];
+
+  beforeEach(() => {
+    vi.mocked(storage.materializeRecurringTransaction).mockReset().mockResolvedValue(created);
+    vi.spyOn(alertService, "checkExpenses").mockReset().mockResolvedValue();
+  });
+
+  it("creates every missed occurrence and moves the schedule past them", async () => {
+    vi.mocked(storage.getDueRecurringTransactions).mockResolvedValue([
+      recurring({ startDate: day("2026-08-15"), nextRunDate: day("2026-09-15") }),
+    ]);
+
+    expect(await recurringService.materializeDue(new Date("2026-10-20T12:00:00Z"))).toBe(2);
+    expect(storage.materializeRecurringTransaction).toHaveBeenCalledWith(
+      "recurring-1",
+      ["2026-09-15", "2026-10-15"].map(date => expect.objectContaining({ userId: "user-1", amount: "800.00", date: day(date), recurringTransactionId: "recurring-1" })),
+      day("2026-11-15"),
+    );
+  });
+
+  it("checks budget alerts for the created transactions in one batch", async () => {
+    vi.mocked(storage.getDueRecurringTransactions).mockResolvedValue([
+      recurring({ startDate: day("2026-08-15"), nextRunDate: day("2026-09-15") }),
+    ]);
+
+    await recurringService.materializeDue(new Date("2026-10-20T12:00:00Z"));
+
+    expect(alertService.checkExpenses).toHaveBeenCalledTimes(1);
+    expect(alertService.checkExpenses).toHaveBeenCalledWith("user-1", created);
+  });
+});
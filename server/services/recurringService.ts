@@ -0,0 +1,263 @@
+import type { InsertExpense, RecurringTransaction } from "@shared/schema";
+import { storage } from "../storage";
+import { alertService } from "./alertService";
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  byDay?: number[]; // 0 = Sunday, as returned by Date.getUTCDay()
+  byMonthDay?: number[]; // negative values count from the end of the month
+  byMonth?: number[]; // 1-12
+  until?: Date;
+}
+
+export interface UpcomingOccurrence {
+  recurringTransactionId: string;
+  description: string;
+  amount: string;
+  type: string;
+  category: string;
+  date: Date;
+}
+
+type RecurrenceSource = Pick<RecurringTransaction, "cadence" | "startDate"> & Partial<Pick<RecurringTransaction, "interval" | "rrule">>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const CADENCE_FREQ: Record<string, RecurrenceRule["freq"]> = {
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  monthly: "MONTHLY",
+  yearly: "YEARLY",
+};
+
+// Occurrences are searched day by day; no supported rule needs more than this to find the next one
+const MAX_SEARCH_DAYS = 366 * 4;
+// Catch-up cap per run so a long-dormant schedule cannot flood the expenses table
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+export class RecurringService {
+  private timer: NodeJS.Timeout | null = null;
+
+  parseRrule(rrule: string): RecurrenceRule {
+    const parts = Object.fromEntries(
+      rrule
+        .replace(/^RRULE:/i, "")
+        .split(";")
+        .filter(Boolean)
+        .map(part => {
+          const [key, value] = part.split("=");
+          return [key.trim().toUpperCase(), (value || "").trim().toUpperCase()];
+        })
+    );
+
+    const freq = parts.FREQ as RecurrenceRule["freq"];
+    if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+      throw new Error(`Unsupported RRULE frequency: ${parts.FREQ}`);
+    }
+
+    const unsupported = Object.keys(parts).filter(key => !["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "UNTIL"].includes(key));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported RRULE parts: ${unsupported.join(", ")}`);
+    }
+
+    const rule: RecurrenceRule = { freq, interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1 };
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      throw new Error(`Invalid RRULE interval: ${parts.INTERVAL}`);
+    }
+
+    if (parts.BYDAY) {
+      rule.byDay = parts.BYDAY.split(",").map((day: string) => {
+        const index = WEEKDAYS.indexOf(day);
+        if (index === -1) throw new Error(`Invalid RRULE weekday: ${day}`);
+        return index;
+      });
+    }
+    if (parts.BYMONTHDAY) {
+      rule.byMonthDay = parts.BYMONTHDAY.split(",").map(Number);
+    }
+    if (parts.BYMONTH) {
+      rule.byMonth = parts.BYMONTH.split(",").map(Number);
+    }
+    if (parts.UNTIL) {
+      const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+      if (!match) throw new Error(`Invalid RRULE UNTIL: ${parts.UNTIL}`);
+      rule.until = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    }
+
+    return rule;
+  }
+
+  getRule(source: RecurrenceSource): RecurrenceRule {
+    if (source.cadence === "custom") {
+      if (!source.rrule) {
+        throw new Error("A custom cadence requires an RRULE");
+      }
+      return this.parseRrule(source.rrule);
+    }
+
+    const freq = CADENCE_FREQ[source.cadence];
+    if (!freq) {
+      throw new Error(`Unsupported cadence: ${source.cadence}`);
+    }
+    return { freq, interval: source.interval || 1 };
+  }
+
+  // First occurrence on or after `from`, or null when the rule has ended
+  nextOccurrence(source: RecurrenceSource, from: Date, endDate?: Date | null): Date | null {
+    const rule = this.getRule(source);
+    const start = this.startOfDay(new Date(source.startDate));
+    let day = this.startOfDay(from < start ? start : from);
+    const limit = [rule.until, endDate ? this.startOfDay(new Date(endDate)) : undefined]
+      .filter((date): date is Date => !!date)
+      .reduce<Date | undefined>((earliest, date) => !earliest || date < earliest ? date : earliest, undefined);
+
+    for (let i = 0; i < MAX_SEARCH_DAYS * rule.interval; i++) {
+      if (limit && day > limit) return null;
+      if (this.matches(rule, start, day)) return day;
+      day = new Date(day.getTime() + DAY_MS);
+    }
+
+    return null;
+  }
+
+  occurrencesBetween(source: RecurringTransaction, from: Date, to: Date): Date[] {
+    const dates: Date[] = [];
+    let next = this.nextOccurrence(source, from, source.endDate);
+    while (next && next <= to && dates.length < MAX_OCCURRENCES_PER_RUN) {
+      dates.push(next);
+      next = this.nextOccurrence(source, new Date(next.getTime() + DAY_MS), source.endDate);
+    }
+    return dates;
+  }
+
+  async getUpcoming(userId: string, days: number): Promise<UpcomingOccurrence[]> {
+    const recurring = await storage.getRecurringTransactions(userId);
+    const from = new Date();
+    const to = new Date(from.getTime() + days * DAY_MS);
+
+    return recurring
+      .filter(item => item.isActive)
+      .flatMap(item => this.occurrencesBetween(item, item.nextRunDate > from ? item.nextRunDate : from, to).map(date => ({
+        recurringTransactionId: item.id,
+        description: item.description,
+        amount: item.amount,
+        type: item.type,
+        category: item.category,
+        date,
+      })))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  // Turns every due occurrence into an expense; the unique (recurring id, date) index keeps re-runs harmless
+  async materializeDue(asOf: Date = new Date()): Promise<number> {
+    const due = await storage.getDueRecurringTransactions(asOf);
+    let created = 0;
+
+    for (const item of due) {
+      try {
+        const dates = this.occurrencesBetween(item, item.nextRunDate, asOf);
+        const occurrences: InsertExpense[] = dates.map(date => ({
+          userId: item.userId,
+          amount: item.amount,
+          type: item.type,
+          description: item.description,
+          category: item.category,
+          date,
+          recurringTransactionId: item.id,
+        }));
+
+        const after = dates.length > 0 ? dates[dates.length - 1] : this.startOfDay(asOf);
+        const nextRunDate = this.nextOccurrence(item, new Date(after.getTime() + DAY_MS), item.endDate);
+
+        const expenses = await storage.materializeRecurringTransaction(item.id, occurrences, nextRunDate);
+        created += expenses.length;
+        // Alerts never hold up or fail the schedule that triggered them
+        alertService.checkExpenses(item.userId, expenses).catch(error => console.error("Error checking budget alerts:", error));
+      } catch (error) {
+        console.error(`Recurring transaction ${item.id} failed to run:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  start(intervalMs: number = 60 * 60 * 1000) {
+    if (this.timer) return;
+
+    const run = () => {
+      this.materializeDue()
+        .then(created => {
+          if (created > 0) console.log(`🔁 Created ${created} recurring transactions`);
+        })
+        .catch(error => console.error("Recurring transaction run failed:", error));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private matches(rule: RecurrenceRule, start: Date, day: Date): boolean {
+    if (day < start) return false;
+
+    switch (rule.freq) {
+      case "DAILY": {
+        const days = Math.round((day.getTime() - start.getTime()) / DAY_MS);
+        return days % rule.interval === 0
+          && (!rule.byDay || rule.byDay.includes(day.getUTCDay()))
+          && this.matchesMonthDay(rule, day, start, false);
+      }
+      case "WEEKLY": {
+        const weeks = Math.floor((this.startOfWeek(day).getTime() - this.startOfWeek(start).getTime()) / (7 * DAY_MS));
+        const weekdays = rule.byDay || [start.getUTCDay()];
+        return weeks % rule.interval === 0 && weekdays.includes(day.getUTCDay());
+      }
+      case "MONTHLY": {
+        const months = (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+        if (months % rule.interval !== 0) return false;
+        if (rule.byDay) {
+          return rule.byDay.includes(day.getUTCDay()) && this.matchesMonthDay(rule, day, start, false);
+        }
+        return this.matchesMonthDay(rule, day, start, true);
+      }
+      case "YEARLY": {
+        const years = day.getUTCFullYear() - start.getUTCFullYear();
+        const months = rule.byMonth || [start.getUTCMonth() + 1];
+        return years % rule.interval === 0
+          && months.includes(day.getUTCMonth() + 1)
+          && this.matchesMonthDay(rule, day, start, true);
+      }
+    }
+  }
+
+  // Without BYMONTHDAY the start date's day is used, clamped to short months (31st -> 30th, 28th/29th)
+  private matchesMonthDay(rule: RecurrenceRule, day: Date, start: Date, defaultToStart: boolean): boolean {
+    const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+    const dayOfMonth = day.getUTCDate();
+
+    if (rule.byMonthDay) {
+      return rule.byMonthDay.some(value => value > 0 ? value === dayOfMonth : daysInMonth + value + 1 === dayOfMonth);
+    }
+    if (!defaultToStart) return true;
+
+    return Math.min(start.getUTCDate(), daysInMonth) === dayOfMonth;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private startOfWeek(date: Date): Date {
+    const day = this.startOfDay(date);
+    return new Date(day.getTime() - day.getUTCDay() * DAY_MS);
+  }
+}
+
+export const recurringService = new RecurringService();
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Budget, BudgetAssignment, User } from "@shared/schema";
+import { Money } from "@shared/money";
+import { DEFAULT_CYCLES } from "@shared/periods";
+import { storage, type CategoryBreakdown } from "../storage";
+import { isMonth, toMonth, zeroBasedService } from "./zeroBasedService";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getBudgetAssignments: vi.fn(),
+    getUser: vi.fn(),
+    getIncomeTotal: vi.fn(),
+    getCategoryBreakdown: vi.fn(),
+    getBudgets: vi.fn(),
+    getUserCalendar: vi.fn(),
+  },
+}));
+
+const usd = (amount: string) => Money.of(amount, "USD");
+
+const user: User = {
+  id: "user-1",
+  email: "ada@example.com",
+  password: null,
+  firstName: "Ada",
+  lastName: null,
+  profileImageUrl: null,
+  createdAt: null,
+  updatedAt: null,
+  language: "en",
+  currency: "USD",
+  timezone: "Pacific/Auckland",
+  monthStartDay: 1,
+  weekStartDay: 1,
+  theme: "light",
+  onboardingCompleted: true,
+  budgetingMode: "zero_based",
+};
+
+const assignment = (month: string, category: string, amount: string): BudgetAssignment => ({
+  id: `${month}-${category}`,
+  userId: user.id,
+  month,
+  category,
+  amount,
+  createdAt: null,
+  updatedAt: null,
+});
+
+const budget = (category: string, amount: string, period: string): Budget => ({
+  id: `budget-${category}`,
+  userId: user.id,
+  name: category,
+  category,
+  amount,
+  period,
+  startDate: new Date("2026-01-01T00:00:00Z"),
+  endDate: null,
+  followsCalendar: false,
+  rolloverMode: "none",
+  rolloverCap: null,
+  alertThresholds: [50, 80, 100],
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+});
+
+const breakdown = (amounts: Record<string, string>): CategoryBreakdown[] =>
+  Object.entries(amounts).map(([category, amount]) => ({ category, amount: usd(amount), percentage: 0, color: "#000000" }));
+
+describe("ZeroBasedService.getMonth", () => {
+  // Months run from midnight in Auckland: September starts at 12:00 UTC on 31 August (NZST), November at 11:00 UTC on 31 October (NZDT)
+  const since = new Date("2026-08-31T12:00:00Z");
+  const endOfOctober = new Date("2026-10-31T10:59:59.999Z");
+
+  beforeEach(() => {
+    vi.mocked(storage.getUser).mockResolvedValue(user);
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "Pacific/Auckland", ...DEFAULT_CYCLES });
+    vi.mocked(storage.getBudgetAssignments).mockResolvedValue([
+      assignment("2026-09", "groceries", "300.00"),
+      assignment("2026-09", "rent", "800.00"),
+      assignment("2026-10", "groceries", "250.00"),
+    ]);
+    // September and October together, or October alone
+    vi.mocked(storage.getIncomeTotal).mockImplementation(async (_userId, start) => usd(start.getTime() === since.getTime() ? "4000" : "2000"));
+    vi.mocked(storage.getCategoryBreakdown).mockImplementation(async (_userId, start) => start.getTime() === since.getTime()
+      ? breakdown({ groceries: "380", rent: "800", dining: "40" })
+      : breakdown({ groceries: "100", dining: "40" }));
+    vi.mocked(storage.getBudgets).mockResolvedValue([budget("groceries", "300.00", "monthly"), budget("dining", "30.00", "weekly")]);
+  });
+
+  it("carries income and category balances from the first assigned month", async () => {
+    const month = await zeroBasedService.getMonth(user.id, "2026-10");
+
+    expect(storage.getIncomeTotal).toHaveBeenCalledWith(user.id, since, endOfOctober);
+    expect(storage.getIncomeTotal).toHaveBeenCalledWith(user.id, new Date("2026-09-30T11:00:00Z"), endOfOctober);
+    expect([month.income, month.assigned, month.toBeAssigned].map(String)).toEqual(["2000.00", "250.00", "2650.00"]);
+    expect(month.categories.map(({ category, assigned, spent, available, target, status }) =>
+      [category, String(assigned), String(spent), String(available), target && String(target), status])).toEqual([
+      ["dining", "0.00", "40.00", "-40.00", "130.00", "overspent"],
+      ["groceries", "250.00", "100.00", "170.00", "300.00", "underfunded"],
+      ["rent", "0.00", "0.00", "0.00", null, "funded"],
+    ]);
+    expect([month.overspent, month.underfunded]).toEqual([["dining"], ["groceries"]]);
+  });
+
+  it("runs the month from the user's month start day", async () => {
+    vi.mocked(storage.getUserCalendar).mockResolvedValue({ timeZone: "Pacific/Auckland", weekStartDay: 1, monthStartDay: 25 });
+    await zeroBasedService.getMonth(user.id, "2026-10");
+
+    // 25 October to 24 November in Auckland, both in NZDT
+    expect(storage.getIncomeTotal).toHaveBeenCalledWith(user.id, new Date("2026-10-24T11:00:00Z"), new Date("2026-11-24T10:59:59.999Z"));
+  });
+});
+
+describe("zero-based months", () => {
+  it("reads and writes YYYY-MM", () => {
+    expect([isMonth("2026-10"), isMonth("2026-13"), isMonth("2026-1")]).toEqual([true, false, false]);
+    expect(toMonth(new Date("2026-01-31T12:00:00Z"))).toBe("2026-01");
+    expect(toMonth(new Date("2026-01-31T12:00:00Z"), { timeZone: "Pacific/Auckland", ...DEFAULT_CYCLES })).toBe("2026-02");
+  });
+
+  it("names a financial month after the calendar month it starts in", () => {
+    const calendar = { timeZone: "UTC", weekStartDay: 1, monthStartDay: 25 };
+    expect(toMonth(new Date("2026-10-24T23:59:59Z"), calendar)).toBe("2026-09");
+    expect(toMonth(new Date("2026-10-25T00:00:00Z"), calendar)).toBe("2026-10");
+    expect(toMonth(new Date("2027-01-10T00:00:00Z"), calendar)).toBe("2026-12");
+  });
+});
@@ -0,0 +1,114 @@
+import type { Budget } from "@shared/schema";
+import { Money } from "@shared/money";
+import { calendarOf, dayKey, localDay, periodBounds, periodStart, startOfLocalDay, type UserCalendar } from "@shared/periods";
+import { storage } from "../storage";
+
+export type CategoryFunding = "funded" | "underfunded" | "overspent";
+
+export interface ZeroBasedCategory {
+  category: string;
+  assigned: Money; // Assigned this month
+  spent: Money; // Spent this month
+  available: Money; // Everything assigned minus everything spent since zero-based budgeting began
+  target: Money | null; // Monthly equivalent of the category's active budgets
+  status: CategoryFunding;
+}
+
+export interface ZeroBasedMonth {
+  month: string;
+  income: Money;
+  assigned: Money;
+  toBeAssigned: Money; // Income not yet given a category, carried across months; negative when over-assigned
+  categories: ZeroBasedCategory[];
+  overspent: string[];
+  underfunded: string[];
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const isMonth = (value: string) => MONTH_PATTERN.test(value);
+
+// Financial month a moment falls in: a month starting on the 25th holds the 25th to the 24th and is named
+// after the calendar month it starts in
+export const toMonth = (date: Date, calendar: UserCalendar = calendarOf(undefined)) => {
+  const { timeZone, ...cycles } = calendar;
+  return dayKey(periodStart(localDay(date, timeZone), "month", cycles)).slice(0, 7);
+};
+
+// First and last millisecond of a 'YYYY-MM' financial month in the user's calendar
+function monthRange(month: string, calendar: UserCalendar): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const { timeZone, ...cycles } = calendar;
+  const { start, end } = periodBounds(startOfLocalDay({ year, month: monthIndex, day: cycles.monthStartDay }, timeZone), "month", timeZone, cycles);
+  return { start, end: new Date(end.getTime() - 1) };
+}
+
+export class ZeroBasedService {
+  // Income becomes a pool to assign from the first month anything was assigned; each category keeps
+  // what was assigned to it minus what was spent, month over month, so money is never lost or counted twice
+  async getMonth(userId: string, month: string): Promise<ZeroBasedMonth> {
+    const assignments = await storage.getBudgetAssignments(userId);
+    const firstMonth = assignments.length > 0 && assignments[0].month < month ? assignments[0].month : month;
+    const calendar = await storage.getUserCalendar(userId);
+    const { start, end } = monthRange(month, calendar);
+    const since = monthRange(firstMonth, calendar).start;
+
+    const currency = (await storage.getUser(userId))?.currency || "USD";
+    const income = await storage.getIncomeTotal(userId, start, end);
+    const incomeToDate = await storage.getIncomeTotal(userId, since, end);
+    const spentThisMonth = await storage.getCategoryBreakdown(userId, start, end);
+    const spentToDate = await storage.getCategoryBreakdown(userId, since, end);
+    const targets = this.getTargets((await storage.getBudgets(userId)).filter(budget => budget.isActive !== false), currency);
+
+    const toDate = assignments.filter(assignment => assignment.month <= month);
+    const thisMonth = toDate.filter(assignment => assignment.month === month);
+    const sumAssigned = (list: typeof assignments, category?: string) =>
+      Money.sum(list.filter(item => category === undefined || item.category === category).map(item => Money.of(item.amount, currency)), currency);
+    const spentIn = (breakdown: typeof spentThisMonth, category: string) =>
+      breakdown.find(item => item.category === category)?.amount ?? Money.zero(currency);
+
+    const names = new Set([
+      ...toDate.map(item => item.category),
+      ...spentThisMonth.map(item => item.category),
+      ...Array.from(targets.keys()),
+    ]);
+
+    const categories = Array.from(names).filter(Boolean).sort().map((category): ZeroBasedCategory => {
+      const assigned = sumAssigned(thisMonth, category);
+      const spent = spentIn(spentThisMonth, category);
+      const available = sumAssigned(toDate, category).minus(spentIn(spentToDate, category));
+      const target = targets.get(category) ?? null;
+      const status = available.isNegative()
+        ? "overspent"
+        : target && assigned.compare(target) < 0 ? "underfunded" : "funded";
+      return { category, assigned, spent, available, target, status };
+    });
+
+    const assigned = sumAssigned(thisMonth);
+    return {
+      month,
+      income,
+      assigned,
+      toBeAssigned: incomeToDate.minus(sumAssigned(toDate)),
+      categories,
+      overspent: categories.filter(item => item.status === "overspent").map(item => item.category),
+      underfunded: categories.filter(item => item.status === "underfunded").map(item => item.category),
+    };
+  }
+
+  // What each category's budgets ask for in a month: weekly budgets 52 weeks over 12 months, yearly a twelfth
+  private getTargets(budgets: Budget[], currency: string): Map<string, Money> {
+    const targets = new Map<string, Money>();
+    for (const budget of budgets) {
+      if (!budget.category) continue;
+      const amount = Money.of(budget.amount, currency);
+      const monthly = budget.period === "weekly"
+        ? amount.times(52).dividedBy(12)
+        : budget.period === "yearly" ? amount.dividedBy(12) : amount;
+      targets.set(budget.category, (targets.get(budget.category) ?? Money.zero(currency)).plus(monthly));
+    }
+    return targets;
+  }
+}
+
+export const zeroBasedService = new ZeroBasedService();
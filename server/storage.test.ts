@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import { expenses } from "@shared/schema";
+
+// Every query resolves to the same row; the table and condition it was built with are kept for inspection
+const fake = vi.hoisted(() => {
+  type Row = { total: string; currency: string };
+
+  class FakeQuery implements PromiseLike<Row[]> {
+    table: unknown;
+    condition: SQL | undefined;
+
+    from(table: unknown) {
+      this.table = table;
+      return this;
+    }
+
+    leftJoin() {
+      return this;
+    }
+
+    where(condition: SQL | undefined) {
+      this.condition = condition;
+      return this;
+    }
+
+    then<TResult1 = Row[], TResult2 = never>(
+      onfulfilled?: ((rows: Row[]) => TResult1 | PromiseLike<TResult1>) | null,
+      onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+    ): PromiseLike<TResult1 | TResult2> {
+      return Promise.resolve([{ total: "100.00", currency: "USD" }]).then(onfulfilled, onrejected);
+    }
+  }
+
+  const queries: FakeQuery[] = [];
+  const select = () => {
+    const query = new FakeQuery();
+    queries.push(query);
+    return query;
+  };
+  return { queries, db: { select } };
+});
+
+vi.mock("./db", () => ({ db: fake.db }));
+
+const { storage } = await import("./storage");
+
+const dialect = new PgDialect();
+
+// Lower and upper date bounds of each expense query, in query order
+const dateRanges = () => fake.queries
+  .filter(query => query.table === expenses && query.condition)
+  .map(query => {
+    const { sql, params } = dialect.sqlToQuery(query.condition!);
+    expect(sql).toMatch(/"date" >= \$2 and "expenses"\."date" < \$3/);
+    return { start: params[1], end: params[2] };
+  });
+
+const useCalendar = (timeZone: string, monthStartDay = 1) => {
+  vi.spyOn(storage, "getUserCalendar").mockResolvedValue({ timeZone, monthStartDay, weekStartDay: 1 });
+};
+
+describe("getDashboardStats", () => {
+  beforeEach(() => {
+    fake.queries.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  it("compares the user's month in Auckland with the one before it", async () => {
+    useCalendar("Pacific/Auckland");
+    // 23:30 on 1 November in Auckland
+    await storage.getDashboardStats("user-1", new Date("2026-11-01T10:30:00Z"));
+
+    const thisMonth = { start: "2026-10-31T11:00:00.000Z", end: "2026-11-30T11:00:00.000Z" };
+    const lastMonth = { start: "2026-09-30T11:00:00.000Z", end: "2026-10-31T11:00:00.000Z" };
+    expect(dateRanges()).toEqual([thisMonth, thisMonth, lastMonth, lastMonth]);
+  });
+
+  it("keeps the last minutes of a Los Angeles month in that month", async () => {
+    useCalendar("America/Los_Angeles");
+    // 23:59 on 31 October in Los Angeles, already November in UTC
+    await storage.getDashboardStats("user-1", new Date("2026-11-01T06:59:00Z"));
+
+    const thisMonth = { start: "2026-10-01T07:00:00.000Z", end: "2026-11-01T07:00:00.000Z" };
+    const lastMonth = { start: "2026-09-01T07:00:00.000Z", end: "2026-10-01T07:00:00.000Z" };
+    expect(dateRanges()).toEqual([thisMonth, thisMonth, lastMonth, lastMonth]);
+  });
+
+  it("ends a Los Angeles month that contains fall-back at local midnight", async () => {
+    useCalendar("America/Los_Angeles");
+    await storage.getDashboardStats("user-1", new Date("2026-11-15T12:00:00Z"));
+
+    const thisMonth = { start: "2026-11-01T07:00:00.000Z", end: "2026-12-01T08:00:00.000Z" };
+    const lastMonth = { start: "2026-10-01T07:00:00.000Z", end: "2026-11-01T07:00:00.000Z" };
+    expect(dateRanges()).toEqual([thisMonth, thisMonth, lastMonth, lastMonth]);
+  });
+
+  it("follows the month start day across Auckland's spring-forward", async () => {
+    useCalendar("Pacific/Auckland", 25);
+    await storage.getDashboardStats("user-1", new Date("2026-10-10T00:00:00Z"));
+
+    const thisMonth = { start: "2026-09-24T12:00:00.000Z", end: "2026-10-24T11:00:00.000Z" };
+    const lastMonth = { start: "2026-08-24T12:00:00.000Z", end: "2026-09-24T12:00:00.000Z" };
+    expect(dateRanges()).toEqual([thisMonth, thisMonth, lastMonth, lastMonth]);
+  });
+
+  it("totals the month in the user's currency", async () => {
+    useCalendar("UTC");
+    const stats = await storage.getDashboardStats("user-1", new Date("2026-10-19T12:00:00Z"));
+
+    expect(stats.thisMonthExpenses.toJSON()).toEqual({ amount: "100.00", currency: "USD" });
+    expect(stats.thisMonthIncome.toJSON()).toEqual({ amount: "100.00", currency: "USD" });
+    expect(stats.totalBalance.isZero()).toBe(true);
+    expect(stats.expenseChange).toBe(0);
+  });
+});
@@ -2,50 +2,175 @@ import {
   users,
   expenses,
   budgets,
+  budgetLedger,
+  budgetAlerts,
+  budgetAssignments,
   goals,
+  goalContributions,
+  goalFundingRules,
   categories,
   notifications,
+  importMappings,
+  duplicateDismissals,
+  recurringTransactions,
+  expenseSplits,
+  accounts,
+  exchangeRates,
   type User,
   type UpsertUser,
   type Expense,
   type InsertExpense,
+  type ExpenseSplit,
+  type Account,
+  type InsertAccount,
+  type InsertTransfer,
+  type ExpenseSplitInput,
   type Budget,
   type InsertBudget,
+  type BudgetLedgerEntry,
+  type InsertBudgetLedgerEntry,
+  type InsertBudgetAlert,
+  type BudgetAssignment,
+  type InsertBudgetAssignment,
   type Goal,
   type InsertGoal,
+  type GoalContribution,
+  type InsertGoalContribution,
+  type GoalFundingRule,
+  type InsertGoalFundingRule,
   type Category,
   type InsertCategory,
   type Notification,
   type InsertNotification,
+  type ImportMapping,
+  type InsertImportMapping,
+  type DuplicateDismissal,
+  type InsertDuplicateDismissal,
+  type RecurringTransaction,
+  type InsertRecurringTransaction,
+  type ExchangeRate,
 } from "@shared/schema";
+import { Money } from "@shared/money";
+import { fundingFor } from "@shared/fundingRules";
+import {
+  DEFAULT_CYCLES,
+  calendarOf,
+  dayKey,
+  nextPeriod,
+  parseDayKey,
+  periodBounds,
+  periodStart,
+  periodsBetween,
+  startOfLocalDay,
+  type Granularity,
+  type PeriodCycles,
+  type UserCalendar,
+} from "@shared/periods";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql, like, or } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { eq, desc, and, gte, lt, lte, sql, like, or, inArray, isNotNull } from "drizzle-orm";
+
+// Analytics aggregate amounts in the user's currency; rows entered in it have no normalized copy
+const normalizedAmount = sql`COALESCE(${expenses.normalizedAmount}, ${expenses.amount})`;
+
+// Analytics read expenses joined to their splits: a split expense contributes one row per allocation,
+// converted at the rate captured on its expense
+const allocatedAmount = sql`COALESCE(${expenseSplits.amount} * COALESCE(${expenses.exchangeRate}, 1), ${normalizedAmount})`;
+const allocatedCategory = sql<string>`COALESCE(${expenseSplits.category}, ${expenses.category})`;
+
+// A goal's saved amount is whatever its contributions add up to
+const contributedAmount = (goalId: string) =>
+  sql<string>`(SELECT COALESCE(SUM(${goalContributions.amount}), 0) FROM ${goalContributions} WHERE ${goalContributions.goalId} = ${goalId})`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Fields whose change makes the funding rules' contributions for a transaction stale
+const FUNDED_FIELDS = ["type", "category", "accountId", "amount", "normalizedAmount", "date"] as const;
+
+// Effect of a transaction on its account balance: income and incoming transfer legs add, everything else subtracts
+const accountMovement = sql`CASE WHEN ${expenses.type} = 'income' OR ${expenses.transferDirection} = 'in' THEN ${expenses.amount} ELSE -${expenses.amount} END`;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserPreferences(id: string, preferences: Partial<User>): Promise<User>;
+  getUserCalendar(userId: string): Promise<UserCalendar>;
   
   // Expense operations
-  createExpense(expense: InsertExpense): Promise<Expense>;
+  createExpense(expense: InsertExpense, splits?: ExpenseSplitInput[]): Promise<Expense>;
+  createExpenses(expenseList: InsertExpense[]): Promise<Expense[]>;
   getExpenses(userId: string, filters?: ExpenseFilters): Promise<Expense[]>;
   getExpenseById(id: string, userId: string): Promise<Expense | undefined>;
   updateExpense(id: string, userId: string, expense: Partial<InsertExpense>): Promise<Expense>;
   deleteExpense(id: string, userId: string): Promise<void>;
   getExpensesByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Expense[]>;
+  getExistingExternalIds(userId: string, externalIds: string[]): Promise<string[]>;
+  
+  // Account operations
+  createAccount(account: InsertAccount): Promise<Account>;
+  getAccounts(userId: string): Promise<Account[]>;
+  getAccountById(id: string, userId: string): Promise<Account | undefined>;
+  updateAccount(id: string, userId: string, account: Partial<InsertAccount>): Promise<Account>;
+  deleteAccount(id: string, userId: string): Promise<void>;
+  getAccountBalances(userId: string): Promise<AccountBalance[]>;
+  getAccountLedger(accountId: string, userId: string): Promise<LedgerEntry[]>;
+  
+  // Transfer operations
+  createTransfer(userId: string, transfer: InsertTransfer, currency: string): Promise<Transfer>;
+  getTransfer(transferId: string, userId: string): Promise<Transfer | undefined>;
+  updateTransfer(transferId: string, userId: string, transfer: InsertTransfer, currency: string): Promise<Transfer>;
+  deleteTransfer(transferId: string, userId: string): Promise<void>;
+  
+  // Split operations
+  getExpenseSplits(expenseId: string, userId: string): Promise<ExpenseSplit[]>;
+  replaceExpenseSplits(expenseId: string, userId: string, splits: ExpenseSplitInput[]): Promise<ExpenseSplit[]>;
+  
+  // Duplicate operations
+  getDuplicateDismissals(userId: string): Promise<DuplicateDismissal[]>;
+  dismissDuplicate(dismissal: InsertDuplicateDismissal): Promise<DuplicateDismissal>;
+  mergeExpenses(keepId: string, duplicateId: string, userId: string, updates: Partial<InsertExpense>): Promise<Expense>;
+  
+  // Recurring transaction operations
+  createRecurringTransaction(recurring: InsertRecurringTransaction & { nextRunDate: Date }): Promise<RecurringTransaction>;
+  getRecurringTransactions(userId: string): Promise<RecurringTransaction[]>;
+  getRecurringTransactionById(id: string, userId: string): Promise<RecurringTransaction | undefined>;
+  updateRecurringTransaction(id: string, userId: string, recurring: Partial<InsertRecurringTransaction> & { nextRunDate?: Date }): Promise<RecurringTransaction>;
+  deleteRecurringTransaction(id: string, userId: string): Promise<void>;
+  getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]>;
+  materializeRecurringTransaction(id: string, occurrences: InsertExpense[], nextRunDate: Date | null): Promise<Expense[]>;
   
   // Budget operations
   createBudget(budget: InsertBudget): Promise<Budget>;
   getBudgets(userId: string): Promise<Budget[]>;
+  getBudgetById(id: string, userId: string): Promise<Budget | undefined>;
   updateBudget(id: string, userId: string, budget: Partial<InsertBudget>): Promise<Budget>;
   deleteBudget(id: string, userId: string): Promise<void>;
+  getBudgetLedger(budgetId: string, userId: string): Promise<BudgetLedgerEntry[]>;
+  addBudgetLedgerEntry(entry: InsertBudgetLedgerEntry): Promise<BudgetLedgerEntry | undefined>;
+  clearBudgetLedger(budgetId: string, userId: string): Promise<void>;
+  recordBudgetAlerts(alerts: InsertBudgetAlert[]): Promise<number[]>;
+  getBudgetAssignments(userId: string): Promise<BudgetAssignment[]>;
+  setBudgetAssignment(assignment: InsertBudgetAssignment): Promise<BudgetAssignment>;
   
   // Goal operations
   createGoal(goal: InsertGoal): Promise<Goal>;
   getGoals(userId: string): Promise<Goal[]>;
+  getGoalById(id: string, userId: string): Promise<Goal | undefined>;
   updateGoal(id: string, userId: string, goal: Partial<InsertGoal>): Promise<Goal>;
   deleteGoal(id: string, userId: string): Promise<void>;
+  getGoalContributions(goalId: string, userId: string): Promise<GoalContribution[]>;
+  addGoalContribution(contribution: InsertGoalContribution): Promise<GoalContribution>;
+  deleteGoalContribution(id: string, goalId: string, userId: string): Promise<void>;
+  
+  // Goal funding rule operations
+  createGoalFundingRule(rule: InsertGoalFundingRule & { nextRunDate: Date | null }): Promise<GoalFundingRule>;
+  getGoalFundingRules(userId: string): Promise<GoalFundingRule[]>;
+  getGoalFundingRuleById(id: string, userId: string): Promise<GoalFundingRule | undefined>;
+  updateGoalFundingRule(id: string, userId: string, rule: Partial<InsertGoalFundingRule> & { nextRunDate?: Date | null }): Promise<GoalFundingRule>;
+  deleteGoalFundingRule(id: string, userId: string): Promise<void>;
+  getDueGoalFundingRules(asOf: Date): Promise<GoalFundingRule[]>;
+  runScheduledFundingRule(rule: GoalFundingRule, dates: Date[], nextRunDate: Date): Promise<number>;
   
   // Category operations
   createCategory(category: InsertCategory): Promise<Category>;
@@ -59,10 +184,25 @@ export interface IStorage {
   markNotificationAsRead(id: string, userId: string): Promise<void>;
   deleteNotification(id: string, userId: string): Promise<void>;
   
+  // Import mapping operations
+  createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping>;
+  getImportMappings(userId: string): Promise<ImportMapping[]>;
+  getImportMappingById(id: string, userId: string): Promise<ImportMapping | undefined>;
+  updateImportMapping(id: string, userId: string, mapping: Partial<InsertImportMapping>): Promise<ImportMapping>;
+  deleteImportMapping(id: string, userId: string): Promise<void>;
+
+  // Exchange rate operations
+  saveExchangeRates(date: Date, rates: { currency: string; rate: string }[]): Promise<void>;
+  getExchangeRatesOn(date: Date): Promise<ExchangeRate[]>;
+  
   // Analytics operations
-  getDashboardStats(userId: string): Promise<DashboardStats>;
+  getDashboardStats(userId: string, now?: Date): Promise<DashboardStats>;
   getCategoryBreakdown(userId: string, startDate: Date, endDate: Date): Promise<CategoryBreakdown[]>;
-  getSpendingTrends(userId: string, months: number): Promise<SpendingTrend[]>;
+  getSpendingTrends(userId: string, options: TrendOptions): Promise<SpendingTrend[]>;
+  getCategorySpending(userId: string, startDate: Date, endDate: Date, category?: string | null): Promise<Money>;
+  getCategorySpendingByPeriod(userId: string, periods: { start: Date; end: Date }[], category?: string | null): Promise<Money[]>;
+  getIncomeTotal(userId: string, startDate: Date, endDate: Date): Promise<Money>;
+  getAllocations(userId: string, startDate: Date, endDate: Date, type: 'expense' | 'income'): Promise<Allocation[]>;
   
   // Data management operations
   deleteAllUserData(userId: string): Promise<void>;
@@ -71,7 +211,8 @@ export interface IStorage {
 
 export interface ExpenseFilters {
   category?: string;
-  type?: 'expense' | 'income';
+  accountId?: string;
+  type?: 'expense' | 'income' | 'transfer';
   startDate?: Date;
   endDate?: Date;
   search?: string;
@@ -79,10 +220,29 @@ export interface ExpenseFilters {
   location?: string;
 }
 
+export interface AccountBalance {
+  accountId: string;
+  balance: Money; // In the account's currency
+  transactionCount: number;
+}
+
+export type LedgerEntry = Expense & { runningBalance: Money };
+
+export interface Transfer {
+  id: string;
+  fromAccountId: string | null;
+  toAccountId: string | null;
+  amount: string;
+  date: Date;
+  description: string;
+  legs: Expense[];
+}
+
+// Amounts are in the user's currency
 export interface DashboardStats {
-  totalBalance: number;
-  thisMonthExpenses: number;
-  thisMonthIncome: number;
+  totalBalance: Money;
+  thisMonthExpenses: Money;
+  thisMonthIncome: Money;
   savingsRate: number;
   expenseChange: number;
   incomeChange: number;
@@ -90,23 +250,48 @@ export interface DashboardStats {
 
 export interface CategoryBreakdown {
   category: string;
-  amount: number;
+  amount: Money;
   percentage: number;
   color: string;
 }
 
+export interface TrendOptions {
+  granularity: Granularity;
+  startDate: Date;
+  endDate: Date;
+  timeZone: string; // Periods follow the calendar in this time zone
+  cycles?: PeriodCycles; // Where weeks and months begin; calendar months and Monday weeks by default
+  category?: string;
+  type?: 'expense' | 'income';
+}
+
 export interface SpendingTrend {
-  month: string;
-  amount: number;
-  income: number;
-  expenses: number;
+  period: string; // First local day of the period, 'YYYY-MM-DD'
+  start: Date;
+  end: Date; // Exclusive
+  amount: Money;
+  income: Money;
+  expenses: Money;
+}
+
+// One row per transaction, or per split of a split transaction, with its share in the user's currency
+export interface Allocation {
+  expense: Expense;
+  category: string;
+  amount: Money;
 }
 
 export interface UserDataExport {
   user: User;
   expenses: Expense[];
+  expenseSplits: ExpenseSplit[];
+  accounts: Account[];
   budgets: Budget[];
+  budgetLedger: BudgetLedgerEntry[];
+  budgetAssignments: BudgetAssignment[];
   goals: Goal[];
+  goalContributions: GoalContribution[];
+  goalFundingRules: GoalFundingRule[];
   categories: Category[];
 }
 
@@ -117,6 +302,21 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Currency analytics are reported in
+  private async getUserCurrency(userId: string): Promise<string> {
+    const [user] = await db.select({ currency: users.currency }).from(users).where(eq(users.id, userId));
+    return user?.currency || "USD";
+  }
+
+  // Time zone and cycles calendar periods are counted in
+  async getUserCalendar(userId: string): Promise<UserCalendar> {
+    const [user] = await db
+      .select({ timezone: users.timezone, monthStartDay: users.monthStartDay, weekStartDay: users.weekStartDay })
+      .from(users)
+      .where(eq(users.id, userId));
+    return calendarOf(user);
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -142,9 +342,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Expense operations
-  async createExpense(expense: InsertExpense): Promise<Expense> {
-    const [newExpense] = await db.insert(expenses).values(expense).returning();
-    return newExpense;
+  async createExpense(expense: InsertExpense, splits: ExpenseSplitInput[] = []): Promise<Expense> {
+    return await db.transaction(async (tx) => {
+      const [newExpense] = await tx.insert(expenses).values(expense).returning();
+      if (splits.length > 0) {
+        await tx
+          .insert(expenseSplits)
+          .values(splits.map(split => ({ ...split, expenseId: newExpense.id, userId: expense.userId })));
+      }
+      await this.applyFundingRules(tx, [newExpense]);
+      return newExpense;
+    });
+  }
+
+  async createExpenses(expenseList: InsertExpense[]): Promise<Expense[]> {
+    if (expenseList.length === 0) {
+      return [];
+    }
+
+    // All rows land together or not at all, with what funding rules make of them
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(expenses).values(expenseList).returning();
+      await this.applyFundingRules(tx, created);
+      return created;
+    });
   }
 
   async getExpenses(userId: string, filters?: ExpenseFilters): Promise<Expense[]> {
@@ -156,6 +377,9 @@ export class DatabaseStorage implements IStorage {
       if (filters.category) {
         conditions.push(eq(expenses.category, filters.category));
       }
+      if (filters.accountId) {
+        conditions.push(eq(expenses.accountId, filters.accountId));
+      }
       if (filters.type) {
         conditions.push(eq(expenses.type, filters.type));
       }
@@ -189,18 +413,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateExpense(id: string, userId: string, expense: Partial<InsertExpense>): Promise<Expense> {
-    const [updatedExpense] = await db
-      .update(expenses)
-      .set({ ...expense, updatedAt: new Date() })
-      .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
-      .returning();
-    return updatedExpense;
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.id, id), eq(expenses.userId, userId)));
+      const [updatedExpense] = await tx
+        .update(expenses)
+        .set({ ...expense, updatedAt: new Date() })
+        .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
+        .returning();
+      await this.refreshFundingRules(tx, previous, updatedExpense);
+      return updatedExpense;
+    });
   }
 
   async deleteExpense(id: string, userId: string): Promise<void> {
-    await db
-      .delete(expenses)
-      .where(and(eq(expenses.id, id), eq(expenses.userId, userId)));
+    await db.transaction(async (tx) => {
+      await this.reverseFundingRules(tx, [id]);
+      await tx
+        .delete(expenses)
+        .where(and(eq(expenses.id, id), eq(expenses.userId, userId)));
+    });
   }
 
   async getExpensesByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Expense[]> {
@@ -217,6 +451,307 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(expenses.date));
   }
 
+  async getExistingExternalIds(userId: string, externalIds: string[]): Promise<string[]> {
+    if (externalIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ externalId: expenses.externalId })
+      .from(expenses)
+      .where(
+        and(
+          eq(expenses.userId, userId),
+          inArray(expenses.externalId, externalIds)
+        )
+      );
+    return rows.map(row => row.externalId!);
+  }
+
+  // Account operations
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const [newAccount] = await db.insert(accounts).values(account).returning();
+    return newAccount;
+  }
+
+  async getAccounts(userId: string): Promise<Account[]> {
+    return await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(accounts.isArchived, accounts.name);
+  }
+
+  async getAccountById(id: string, userId: string): Promise<Account | undefined> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return account;
+  }
+
+  async updateAccount(id: string, userId: string, account: Partial<InsertAccount>): Promise<Account> {
+    const [updatedAccount] = await db
+      .update(accounts)
+      .set({ ...account, updatedAt: new Date() })
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return updatedAccount;
+  }
+
+  async deleteAccount(id: string, userId: string): Promise<void> {
+    await db
+      .delete(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+  }
+
+  // Opening balance plus income minus expenses, for every account of the user
+  async getAccountBalances(userId: string): Promise<AccountBalance[]> {
+    const rows = await db
+      .select({
+        accountId: accounts.id,
+        currency: accounts.currency,
+        openingBalance: accounts.openingBalance,
+        movement: sql<string>`COALESCE(SUM(${accountMovement}), 0)`,
+        transactionCount: sql<number>`COUNT(${expenses.id})`,
+      })
+      .from(accounts)
+      .leftJoin(expenses, eq(expenses.accountId, accounts.id))
+      .where(eq(accounts.userId, userId))
+      .groupBy(accounts.id, accounts.currency, accounts.openingBalance);
+
+    return rows.map(row => ({
+      accountId: row.accountId,
+      balance: Money.of(row.openingBalance || 0, row.currency || "USD").plus(Money.of(row.movement, row.currency || "USD")),
+      transactionCount: Number(row.transactionCount),
+    }));
+  }
+
+  // Account transactions, newest first, each with the balance right after it was posted
+  async getAccountLedger(accountId: string, userId: string): Promise<LedgerEntry[]> {
+    const account = await this.getAccountById(accountId, userId);
+    if (!account) {
+      return [];
+    }
+
+    const rows = await db
+      .select({
+        expense: expenses,
+        movement: sql<string>`SUM(${accountMovement}) OVER (ORDER BY ${expenses.date}, ${expenses.createdAt}, ${expenses.id})`,
+      })
+      .from(expenses)
+      .where(and(eq(expenses.accountId, accountId), eq(expenses.userId, userId)))
+      .orderBy(desc(expenses.date), desc(expenses.createdAt), desc(expenses.id));
+
+    const currency = account.currency || "USD";
+    const openingBalance = Money.of(account.openingBalance || 0, currency);
+    return rows.map(row => ({ ...row.expense, runningBalance: openingBalance.plus(Money.of(row.movement, currency)) }));
+  }
+
+  // Transfer operations
+  async createTransfer(userId: string, transfer: InsertTransfer, currency: string): Promise<Transfer> {
+    const legs = await db
+      .insert(expenses)
+      .values(this.transferLegs(userId, randomUUID(), transfer, currency))
+      .returning();
+    return this.toTransfer(legs);
+  }
+
+  async getTransfer(transferId: string, userId: string): Promise<Transfer | undefined> {
+    const legs = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.transferId, transferId), eq(expenses.userId, userId)));
+    return legs.length > 0 ? this.toTransfer(legs) : undefined;
+  }
+
+  // Both legs are rewritten together so they can never disagree on amount or date
+  async updateTransfer(transferId: string, userId: string, transfer: InsertTransfer, currency: string): Promise<Transfer> {
+    return await db.transaction(async (tx) => {
+      const legs: Expense[] = [];
+      for (const leg of this.transferLegs(userId, transferId, transfer, currency)) {
+        const [updatedLeg] = await tx
+          .update(expenses)
+          .set({ ...leg, updatedAt: new Date() })
+          .where(
+            and(
+              eq(expenses.transferId, transferId),
+              eq(expenses.userId, userId),
+              eq(expenses.transferDirection, leg.transferDirection)
+            )
+          )
+          .returning();
+        legs.push(updatedLeg);
+      }
+      return this.toTransfer(legs);
+    });
+  }
+
+  async deleteTransfer(transferId: string, userId: string): Promise<void> {
+    await db
+      .delete(expenses)
+      .where(and(eq(expenses.transferId, transferId), eq(expenses.userId, userId)));
+  }
+
+  // Legs are booked in the accounts' shared currency
+  private transferLegs(userId: string, transferId: string, transfer: InsertTransfer, currency: string) {
+    const shared = {
+      userId,
+      transferId,
+      type: 'transfer',
+      category: 'transfer',
+      amount: transfer.amount,
+      currency,
+      date: transfer.date,
+      description: transfer.description,
+    };
+    return [
+      { ...shared, accountId: transfer.fromAccountId, transferDirection: 'out' },
+      { ...shared, accountId: transfer.toAccountId, transferDirection: 'in' },
+    ];
+  }
+
+  private toTransfer(legs: Expense[]): Transfer {
+    const outgoing = legs.find(leg => leg.transferDirection === 'out');
+    const incoming = legs.find(leg => leg.transferDirection === 'in');
+    const leg = outgoing || incoming || legs[0];
+    return {
+      id: leg.transferId!,
+      fromAccountId: outgoing?.accountId ?? null,
+      toAccountId: incoming?.accountId ?? null,
+      amount: leg.amount,
+      date: leg.date,
+      description: leg.description,
+      legs,
+    };
+  }
+
+  // Split operations
+  async getExpenseSplits(expenseId: string, userId: string): Promise<ExpenseSplit[]> {
+    return await db
+      .select()
+      .from(expenseSplits)
+      .where(and(eq(expenseSplits.expenseId, expenseId), eq(expenseSplits.userId, userId)))
+      .orderBy(expenseSplits.createdAt);
+  }
+
+  // An empty list removes the split and the expense falls back to its own category
+  async replaceExpenseSplits(expenseId: string, userId: string, splits: ExpenseSplitInput[]): Promise<ExpenseSplit[]> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(expenseSplits)
+        .where(and(eq(expenseSplits.expenseId, expenseId), eq(expenseSplits.userId, userId)));
+
+      if (splits.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .insert(expenseSplits)
+        .values(splits.map(split => ({ ...split, expenseId, userId })))
+        .returning();
+    });
+  }
+
+  // Duplicate operations
+  async getDuplicateDismissals(userId: string): Promise<DuplicateDismissal[]> {
+    return await db
+      .select()
+      .from(duplicateDismissals)
+      .where(eq(duplicateDismissals.userId, userId));
+  }
+
+  async dismissDuplicate(dismissal: InsertDuplicateDismissal): Promise<DuplicateDismissal> {
+    const [newDismissal] = await db.insert(duplicateDismissals).values(dismissal).returning();
+    return newDismissal;
+  }
+
+  async mergeExpenses(keepId: string, duplicateId: string, userId: string, updates: Partial<InsertExpense>): Promise<Expense> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.id, keepId), eq(expenses.userId, userId)));
+      const [mergedExpense] = await tx
+        .update(expenses)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(expenses.id, keepId), eq(expenses.userId, userId)))
+        .returning();
+      await this.refreshFundingRules(tx, previous, mergedExpense);
+      await this.reverseFundingRules(tx, [duplicateId]);
+      await tx
+        .delete(expenses)
+        .where(and(eq(expenses.id, duplicateId), eq(expenses.userId, userId)));
+      return mergedExpense;
+    });
+  }
+
+  // Recurring transaction operations
+  async createRecurringTransaction(recurring: InsertRecurringTransaction & { nextRunDate: Date }): Promise<RecurringTransaction> {
+    const [newRecurring] = await db.insert(recurringTransactions).values(recurring).returning();
+    return newRecurring;
+  }
+
+  async getRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(eq(recurringTransactions.userId, userId))
+      .orderBy(recurringTransactions.nextRunDate);
+  }
+
+  async getRecurringTransactionById(id: string, userId: string): Promise<RecurringTransaction | undefined> {
+    const [recurring] = await db
+      .select()
+      .from(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+    return recurring;
+  }
+
+  async updateRecurringTransaction(id: string, userId: string, recurring: Partial<InsertRecurringTransaction> & { nextRunDate?: Date }): Promise<RecurringTransaction> {
+    const [updatedRecurring] = await db
+      .update(recurringTransactions)
+      .set({ ...recurring, updatedAt: new Date() })
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .returning();
+    return updatedRecurring;
+  }
+
+  async deleteRecurringTransaction(id: string, userId: string): Promise<void> {
+    await db
+      .delete(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+  }
+
+  async getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(and(eq(recurringTransactions.isActive, true), lte(recurringTransactions.nextRunDate, asOf)));
+  }
+
+  // Inserts the occurrences and advances the schedule together; returns how many expenses were created
+  async materializeRecurringTransaction(id: string, occurrences: InsertExpense[], nextRunDate: Date | null): Promise<Expense[]> {
+    return await db.transaction(async (tx) => {
+      const created = occurrences.length === 0 ? [] : await tx
+        .insert(expenses)
+        .values(occurrences)
+        .onConflictDoNothing()
+        .returning();
+      await this.applyFundingRules(tx, created);
+
+      // A finished schedule keeps its last run date and is switched off
+      await tx
+        .update(recurringTransactions)
+        .set(nextRunDate
+          ? { nextRunDate, updatedAt: new Date() }
+          : { isActive: false, updatedAt: new Date() })
+        .where(eq(recurringTransactions.id, id));
+
+      return created;
+    });
+  }
+
   // Budget operations
   async createBudget(budget: InsertBudget): Promise<Budget> {
     const [newBudget] = await db.insert(budgets).values(budget).returning();
@@ -231,6 +766,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(budgets.createdAt));
   }
 
+  async getBudgetById(id: string, userId: string): Promise<Budget | undefined> {
+    const [budget] = await db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+    return budget;
+  }
+
   async updateBudget(id: string, userId: string, budget: Partial<InsertBudget>): Promise<Budget> {
     const [updatedBudget] = await db
       .update(budgets)
@@ -246,10 +789,80 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
   }
 
+  // Closed periods of a budget, oldest first
+  async getBudgetLedger(budgetId: string, userId: string): Promise<BudgetLedgerEntry[]> {
+    return await db
+      .select()
+      .from(budgetLedger)
+      .where(and(eq(budgetLedger.budgetId, budgetId), eq(budgetLedger.userId, userId)))
+      .orderBy(budgetLedger.periodStart);
+  }
+
+  // A period closes once; when two requests close it together the first entry stays
+  async addBudgetLedgerEntry(entry: InsertBudgetLedgerEntry): Promise<BudgetLedgerEntry | undefined> {
+    const [created] = await db
+      .insert(budgetLedger)
+      .values(entry)
+      .onConflictDoNothing({ target: [budgetLedger.budgetId, budgetLedger.periodStart] })
+      .returning();
+    return created;
+  }
+
+  async clearBudgetLedger(budgetId: string, userId: string): Promise<void> {
+    await db
+      .delete(budgetLedger)
+      .where(and(eq(budgetLedger.budgetId, budgetId), eq(budgetLedger.userId, userId)));
+  }
+
+  // Records threshold alerts for a period and returns the thresholds that had not been recorded before
+  async recordBudgetAlerts(alerts: InsertBudgetAlert[]): Promise<number[]> {
+    if (alerts.length === 0) return [];
+    const created = await db
+      .insert(budgetAlerts)
+      .values(alerts)
+      .onConflictDoNothing({ target: [budgetAlerts.budgetId, budgetAlerts.periodStart, budgetAlerts.threshold] })
+      .returning({ threshold: budgetAlerts.threshold });
+    return created.map(row => row.threshold);
+  }
+
+  // Zero-based assignments of every month, oldest first
+  async getBudgetAssignments(userId: string): Promise<BudgetAssignment[]> {
+    return await db
+      .select()
+      .from(budgetAssignments)
+      .where(eq(budgetAssignments.userId, userId))
+      .orderBy(budgetAssignments.month, budgetAssignments.category);
+  }
+
+  // One assignment per category and month; assigning again replaces the amount
+  async setBudgetAssignment(assignment: InsertBudgetAssignment): Promise<BudgetAssignment> {
+    const [saved] = await db
+      .insert(budgetAssignments)
+      .values(assignment)
+      .onConflictDoUpdate({
+        target: [budgetAssignments.userId, budgetAssignments.month, budgetAssignments.category],
+        set: { amount: assignment.amount, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
   // Goal operations
+  // A starting amount becomes the goal's first contribution, so the history accounts for all of it
   async createGoal(goal: InsertGoal): Promise<Goal> {
-    const [newGoal] = await db.insert(goals).values(goal).returning();
-    return newGoal;
+    return await db.transaction(async (tx) => {
+      const [newGoal] = await tx.insert(goals).values(goal).returning();
+      if (Number(newGoal.currentAmount) !== 0) {
+        await tx.insert(goalContributions).values({
+          goalId: newGoal.id,
+          userId: newGoal.userId,
+          amount: newGoal.currentAmount!,
+          note: "Starting amount",
+          isOpeningBalance: true,
+        });
+      }
+      return newGoal;
+    });
   }
 
   async getGoals(userId: string): Promise<Goal[]> {
@@ -260,6 +873,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(goals.createdAt));
   }
 
+  async getGoalById(id: string, userId: string): Promise<Goal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return goal;
+  }
+
   async updateGoal(id: string, userId: string, goal: Partial<InsertGoal>): Promise<Goal> {
     const [updatedGoal] = await db
       .update(goals)
@@ -275,6 +896,215 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(goals.id, id), eq(goals.userId, userId)));
   }
 
+  // Oldest first, in the order the money came in
+  async getGoalContributions(goalId: string, userId: string): Promise<GoalContribution[]> {
+    return await db
+      .select()
+      .from(goalContributions)
+      .where(and(eq(goalContributions.goalId, goalId), eq(goalContributions.userId, userId)))
+      .orderBy(goalContributions.date, goalContributions.createdAt);
+  }
+
+  async addGoalContribution(contribution: InsertGoalContribution): Promise<GoalContribution> {
+    return await db.transaction(async (tx) => {
+      await this.openLegacyGoal(tx, contribution.goalId, contribution.userId);
+      const [newContribution] = await tx.insert(goalContributions).values(contribution).returning();
+      await tx
+        .update(goals)
+        .set({ currentAmount: contributedAmount(contribution.goalId), updatedAt: new Date() })
+        .where(and(eq(goals.id, contribution.goalId), eq(goals.userId, contribution.userId)));
+      return newContribution;
+    });
+  }
+
+  // Goals saved before contributions were tracked keep their amount as an opening contribution
+  private async openLegacyGoal(tx: Transaction, goalId: string, userId: string): Promise<void> {
+    const [goal] = await tx
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, goalId), eq(goals.userId, userId)));
+    const [existing] = await tx
+      .select({ id: goalContributions.id })
+      .from(goalContributions)
+      .where(eq(goalContributions.goalId, goalId))
+      .limit(1);
+    if (goal && !existing && Number(goal.currentAmount) !== 0) {
+      await tx.insert(goalContributions).values({
+        goalId: goal.id,
+        userId: goal.userId,
+        amount: goal.currentAmount!,
+        date: goal.createdAt ?? new Date(),
+        note: "Starting amount",
+        isOpeningBalance: true,
+      });
+    }
+  }
+
+  async deleteGoalContribution(id: string, goalId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(goalContributions)
+        .where(and(eq(goalContributions.id, id), eq(goalContributions.goalId, goalId), eq(goalContributions.userId, userId)));
+      await tx
+        .update(goals)
+        .set({ currentAmount: contributedAmount(goalId), updatedAt: new Date() })
+        .where(and(eq(goals.id, goalId), eq(goals.userId, userId)));
+    });
+  }
+
+  // Goal funding rule operations
+  async createGoalFundingRule(rule: InsertGoalFundingRule & { nextRunDate: Date | null }): Promise<GoalFundingRule> {
+    const [newRule] = await db.insert(goalFundingRules).values(rule).returning();
+    return newRule;
+  }
+
+  async getGoalFundingRules(userId: string): Promise<GoalFundingRule[]> {
+    return await db
+      .select()
+      .from(goalFundingRules)
+      .where(eq(goalFundingRules.userId, userId))
+      .orderBy(goalFundingRules.createdAt);
+  }
+
+  async getGoalFundingRuleById(id: string, userId: string): Promise<GoalFundingRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(goalFundingRules)
+      .where(and(eq(goalFundingRules.id, id), eq(goalFundingRules.userId, userId)));
+    return rule;
+  }
+
+  async updateGoalFundingRule(id: string, userId: string, rule: Partial<InsertGoalFundingRule> & { nextRunDate?: Date | null }): Promise<GoalFundingRule> {
+    const [updatedRule] = await db
+      .update(goalFundingRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(and(eq(goalFundingRules.id, id), eq(goalFundingRules.userId, userId)))
+      .returning();
+    return updatedRule;
+  }
+
+  async deleteGoalFundingRule(id: string, userId: string): Promise<void> {
+    await db
+      .delete(goalFundingRules)
+      .where(and(eq(goalFundingRules.id, id), eq(goalFundingRules.userId, userId)));
+  }
+
+  async getDueGoalFundingRules(asOf: Date): Promise<GoalFundingRule[]> {
+    return await db
+      .select()
+      .from(goalFundingRules)
+      .where(and(
+        eq(goalFundingRules.type, "scheduled"),
+        eq(goalFundingRules.isActive, true),
+        lte(goalFundingRules.nextRunDate, asOf),
+      ));
+  }
+
+  // Posts a scheduled rule's due contributions and advances its next run together. Nothing is posted
+  // unless the rule is still at the run date it was read with, so overlapping runs cannot post twice.
+  async runScheduledFundingRule(rule: GoalFundingRule, dates: Date[], nextRunDate: Date): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [advanced] = await tx
+        .update(goalFundingRules)
+        .set({ nextRunDate, updatedAt: new Date() })
+        .where(and(eq(goalFundingRules.id, rule.id), eq(goalFundingRules.nextRunDate, rule.nextRunDate!)))
+        .returning({ id: goalFundingRules.id });
+      if (!advanced || dates.length === 0 || !rule.amount) return 0;
+
+      await this.openLegacyGoal(tx, rule.goalId, rule.userId);
+      await tx.insert(goalContributions).values(dates.map(date => ({
+        goalId: rule.goalId,
+        userId: rule.userId,
+        amount: rule.amount!,
+        date,
+        note: "Scheduled saving",
+        ruleId: rule.id,
+      })));
+      await tx
+        .update(goals)
+        .set({ currentAmount: contributedAmount(rule.goalId), updatedAt: new Date() })
+        .where(eq(goals.id, rule.goalId));
+      return dates.length;
+    });
+  }
+
+  // Posts what the user's active round-up and income rules make of newly recorded transactions,
+  // as part of the database transaction that records them
+  private async applyFundingRules(tx: Transaction, created: Expense[]): Promise<void> {
+    if (created.length === 0) return;
+    const userId = created[0].userId;
+    const rules = await tx
+      .select()
+      .from(goalFundingRules)
+      .where(and(
+        eq(goalFundingRules.userId, userId),
+        eq(goalFundingRules.isActive, true),
+        inArray(goalFundingRules.type, ["round_up", "income_percent"]),
+      ));
+    if (rules.length === 0) return;
+
+    // Goals are kept in the user's currency, so rules work on the normalized amount
+    const [user] = await tx.select({ currency: users.currency }).from(users).where(eq(users.id, userId));
+    const currency = user?.currency || "USD";
+    const contributions: InsertGoalContribution[] = created.flatMap(item => rules.map(rule => ({
+      rule,
+      amount: fundingFor(rule, {
+        type: item.type,
+        category: item.category,
+        accountId: item.accountId,
+        amount: Money.of(item.normalizedAmount ?? item.amount, currency),
+      }),
+    }))
+      .filter(({ amount }) => amount.isPositive())
+      .map(({ rule, amount }) => ({
+        goalId: rule.goalId,
+        userId,
+        amount: amount.toString(),
+        date: item.date,
+        note: item.description,
+        expenseId: item.id,
+        ruleId: rule.id,
+      })));
+    if (contributions.length === 0) return;
+
+    const goalIds = Array.from(new Set(contributions.map(contribution => contribution.goalId)));
+    for (const goalId of goalIds) {
+      await this.openLegacyGoal(tx, goalId, userId);
+    }
+    await tx.insert(goalContributions).values(contributions).onConflictDoNothing();
+    for (const goalId of goalIds) {
+      await tx
+        .update(goals)
+        .set({ currentAmount: contributedAmount(goalId), updatedAt: new Date() })
+        .where(eq(goals.id, goalId));
+    }
+  }
+
+  // Takes back what funding rules posted for the given transactions, so a deleted or changed
+  // transaction no longer funds goals; manual contributions linked to them are kept
+  private async reverseFundingRules(tx: Transaction, expenseIds: string[]): Promise<void> {
+    if (expenseIds.length === 0) return;
+    const removed = await tx
+      .delete(goalContributions)
+      .where(and(inArray(goalContributions.expenseId, expenseIds), isNotNull(goalContributions.ruleId)))
+      .returning({ goalId: goalContributions.goalId });
+
+    for (const goalId of Array.from(new Set(removed.map(contribution => contribution.goalId)))) {
+      await tx
+        .update(goals)
+        .set({ currentAmount: contributedAmount(goalId), updatedAt: new Date() })
+        .where(eq(goals.id, goalId));
+    }
+  }
+
+  // Recomputes the rules' contributions for an edited transaction when a field they depend on changed;
+  // rules paused since then no longer contribute
+  private async refreshFundingRules(tx: Transaction, previous: Expense | undefined, updated: Expense | undefined): Promise<void> {
+    if (!previous || !updated || FUNDED_FIELDS.every(field => String(previous[field]) === String(updated[field]))) return;
+    await this.reverseFundingRules(tx, [updated.id]);
+    await this.applyFundingRules(tx, [updated]);
+  }
+
   // Category operations
   async createCategory(category: InsertCategory): Promise<Category> {
     const [newCategory] = await db.insert(categories).values(category).returning();
@@ -331,66 +1161,131 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
   }
 
+  // Import mapping operations
+  async createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping> {
+    const [newMapping] = await db.insert(importMappings).values(mapping).returning();
+    return newMapping;
+  }
+
+  async getImportMappings(userId: string): Promise<ImportMapping[]> {
+    return await db
+      .select()
+      .from(importMappings)
+      .where(eq(importMappings.userId, userId))
+      .orderBy(importMappings.name);
+  }
+
+  async getImportMappingById(id: string, userId: string): Promise<ImportMapping | undefined> {
+    const [mapping] = await db
+      .select()
+      .from(importMappings)
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)));
+    return mapping;
+  }
+
+  async updateImportMapping(id: string, userId: string, mapping: Partial<InsertImportMapping>): Promise<ImportMapping> {
+    const [updatedMapping] = await db
+      .update(importMappings)
+      .set({ ...mapping, updatedAt: new Date() })
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)))
+      .returning();
+    return updatedMapping;
+  }
+
+  async deleteImportMapping(id: string, userId: string): Promise<void> {
+    await db
+      .delete(importMappings)
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)));
+  }
+
+  // Exchange rate operations
+  async saveExchangeRates(date: Date, rates: { currency: string; rate: string }[]): Promise<void> {
+    if (rates.length === 0) return;
+    await db
+      .insert(exchangeRates)
+      .values(rates.map(rate => ({ ...rate, date })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.date],
+        set: { rate: sql`excluded.rate` },
+      });
+  }
+
+  // Latest snapshot per currency on or before the given day
+  async getExchangeRatesOn(date: Date): Promise<ExchangeRate[]> {
+    return await db
+      .selectDistinctOn([exchangeRates.currency])
+      .from(exchangeRates)
+      .where(lte(exchangeRates.date, date))
+      .orderBy(exchangeRates.currency, desc(exchangeRates.date));
+  }
+
   // Analytics operations
-  async getDashboardStats(userId: string): Promise<DashboardStats> {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-    const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
+  async getDashboardStats(userId: string, now: Date = new Date()): Promise<DashboardStats> {
+    // Months begin at midnight where the user lives, not where the server runs, on their month start day
+    const { timeZone, ...cycles } = await this.getUserCalendar(userId);
+    const thisMonth = periodBounds(now, "month", timeZone, cycles);
+    const lastMonth = periodBounds(new Date(thisMonth.start.getTime() - 1), "month", timeZone, cycles);
 
     // Get current month data
     const currentMonthExpenses = await db
-      .select({ total: sql<number>`COALESCE(SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END), 0)` })
+      .select({ total: sql<string>`COALESCE(SUM(CASE WHEN ${expenses.type} = 'expense' THEN ${allocatedAmount} ELSE 0 END), 0)` })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
-          gte(expenses.date, startOfMonth)
+          gte(expenses.date, thisMonth.start),
+          lt(expenses.date, thisMonth.end)
         )
       );
 
     const currentMonthIncome = await db
-      .select({ total: sql<number>`COALESCE(SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END), 0)` })
+      .select({ total: sql<string>`COALESCE(SUM(CASE WHEN ${expenses.type} = 'income' THEN ${allocatedAmount} ELSE 0 END), 0)` })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
-          gte(expenses.date, startOfMonth)
+          gte(expenses.date, thisMonth.start),
+          lt(expenses.date, thisMonth.end)
         )
       );
 
     // Get last month data for comparison
     const lastMonthExpenses = await db
-      .select({ total: sql<number>`COALESCE(SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END), 0)` })
+      .select({ total: sql<string>`COALESCE(SUM(CASE WHEN ${expenses.type} = 'expense' THEN ${allocatedAmount} ELSE 0 END), 0)` })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
-          gte(expenses.date, startOfLastMonth),
-          lte(expenses.date, endOfLastMonth)
+          gte(expenses.date, lastMonth.start),
+          lt(expenses.date, lastMonth.end)
         )
       );
 
     const lastMonthIncome = await db
-      .select({ total: sql<number>`COALESCE(SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END), 0)` })
+      .select({ total: sql<string>`COALESCE(SUM(CASE WHEN ${expenses.type} = 'income' THEN ${allocatedAmount} ELSE 0 END), 0)` })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
-          gte(expenses.date, startOfLastMonth),
-          lte(expenses.date, endOfLastMonth)
+          gte(expenses.date, lastMonth.start),
+          lt(expenses.date, lastMonth.end)
         )
       );
 
-    const thisMonthExpenses = Number(currentMonthExpenses[0]?.total || 0);
-    const thisMonthIncome = Number(currentMonthIncome[0]?.total || 0);
-    const lastMonthExpensesNum = Number(lastMonthExpenses[0]?.total || 0);
-    const lastMonthIncomeNum = Number(lastMonthIncome[0]?.total || 0);
+    const currency = await this.getUserCurrency(userId);
+    const thisMonthExpenses = Money.of(currentMonthExpenses[0]?.total || 0, currency);
+    const thisMonthIncome = Money.of(currentMonthIncome[0]?.total || 0, currency);
+    const lastMonthExpensesTotal = Money.of(lastMonthExpenses[0]?.total || 0, currency);
+    const lastMonthIncomeTotal = Money.of(lastMonthIncome[0]?.total || 0, currency);
 
-    const totalBalance = thisMonthIncome - thisMonthExpenses;
-    const expenseChange = lastMonthExpensesNum > 0 ? ((thisMonthExpenses - lastMonthExpensesNum) / lastMonthExpensesNum) * 100 : 0;
-    const incomeChange = lastMonthIncomeNum > 0 ? ((thisMonthIncome - lastMonthIncomeNum) / lastMonthIncomeNum) * 100 : 0;
-    const savingsRate = thisMonthIncome > 0 ? ((thisMonthIncome - thisMonthExpenses) / thisMonthIncome) * 100 : 0;
+    const totalBalance = thisMonthIncome.minus(thisMonthExpenses);
+    const expenseChange = lastMonthExpensesTotal.isPositive() ? thisMonthExpenses.minus(lastMonthExpensesTotal).ratio(lastMonthExpensesTotal) * 100 : 0;
+    const incomeChange = lastMonthIncomeTotal.isPositive() ? thisMonthIncome.minus(lastMonthIncomeTotal).ratio(lastMonthIncomeTotal) * 100 : 0;
+    const savingsRate = thisMonthIncome.isPositive() ? totalBalance.ratio(thisMonthIncome) * 100 : 0;
 
     return {
       totalBalance,
@@ -405,10 +1300,11 @@ export class DatabaseStorage implements IStorage {
   async getCategoryBreakdown(userId: string, startDate: Date, endDate: Date): Promise<CategoryBreakdown[]> {
     const breakdown = await db
       .select({
-        category: expenses.category,
-        amount: sql<number>`SUM(amount)`,
+        category: allocatedCategory,
+        amount: sql<string>`SUM(${allocatedAmount})`,
       })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
@@ -417,62 +1313,200 @@ export class DatabaseStorage implements IStorage {
           lte(expenses.date, endDate)
         )
       )
-      .groupBy(expenses.category);
+      .groupBy(allocatedCategory);
 
-    const total = breakdown.reduce((sum, item) => sum + Number(item.amount), 0);
+    const currency = await this.getUserCurrency(userId);
+    const amounts = breakdown.map(item => Money.of(item.amount, currency));
+    const total = Money.sum(amounts, currency);
     
     const colors = ['hsl(221 83% 53%)', 'hsl(142 71% 45%)', 'hsl(0 84% 60%)', 'hsl(47 96% 53%)', 'hsl(271 81% 56%)'];
     
     return breakdown.map((item, index) => ({
       category: item.category,
-      amount: Number(item.amount),
-      percentage: total > 0 ? (Number(item.amount) / total) * 100 : 0,
+      amount: amounts[index],
+      percentage: amounts[index].ratio(total) * 100,
       color: colors[index % colors.length],
     }));
   }
 
-  async getSpendingTrends(userId: string, months: number): Promise<SpendingTrend[]> {
-    const startDate = new Date();
-    startDate.setMonth(startDate.getMonth() - months);
+  // Totals per day, week, month, quarter or year in the user's time zone, oldest first. The range is widened
+  // to whole periods, and periods without transactions are included with zero amounts. Split expenses count
+  // per allocation, so a category filter takes only the matching part of them.
+  async getSpendingTrends(userId: string, options: TrendOptions): Promise<SpendingTrend[]> {
+    const { granularity, timeZone, cycles = DEFAULT_CYCLES } = options;
+    const periods = periodsBetween(options.startDate, options.endDate, granularity, timeZone, cycles);
+    const currency = await this.getUserCurrency(userId);
+    if (periods.length === 0) return [];
+
+    const rangeStart = startOfLocalDay(periods[0], timeZone);
+    const rangeEnd = startOfLocalDay(nextPeriod(periods[periods.length - 1], granularity), timeZone);
+    // Dates are stored in UTC; days are summed in SQL and rolled up into periods here
+    const localDate = sql<string>`TO_CHAR((${expenses.date} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD')`;
+
+    const conditions = [
+      eq(expenses.userId, userId),
+      gte(expenses.date, rangeStart),
+      lt(expenses.date, rangeEnd),
+    ];
+    if (options.category) {
+      conditions.push(eq(allocatedCategory, options.category));
+    }
+    if (options.type) {
+      conditions.push(eq(expenses.type, options.type));
+    }
+
+    const days = await db
+      .select({
+        day: localDate,
+        expenseAmount: sql<string>`SUM(CASE WHEN ${expenses.type} = 'expense' THEN ${allocatedAmount} ELSE 0 END)`,
+        incomeAmount: sql<string>`SUM(CASE WHEN ${expenses.type} = 'income' THEN ${allocatedAmount} ELSE 0 END)`,
+      })
+      .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
+      .where(and(...conditions))
+      // By position: repeating the expression would bind the time zone as a second, different parameter
+      .groupBy(sql`1`);
+
+    const trends = new Map(periods.map((start): [string, SpendingTrend] => [dayKey(start), {
+      period: dayKey(start),
+      start: startOfLocalDay(start, timeZone),
+      end: startOfLocalDay(nextPeriod(start, granularity), timeZone),
+      amount: Money.zero(currency),
+      income: Money.zero(currency),
+      expenses: Money.zero(currency),
+    }]));
+
+    for (const day of days) {
+      const trend = trends.get(dayKey(periodStart(parseDayKey(day.day), granularity, cycles)));
+      if (!trend) continue;
+      const income = Money.of(day.incomeAmount, currency);
+      const spent = Money.of(day.expenseAmount, currency);
+      trend.income = trend.income.plus(income);
+      trend.expenses = trend.expenses.plus(spent);
+      trend.amount = trend.amount.plus(income).plus(spent);
+    }
+
+    return Array.from(trends.values());
+  }
+
+  async getCategorySpending(userId: string, startDate: Date, endDate: Date, category?: string | null): Promise<Money> {
+    const [result] = await db
+      .select({ total: sql<string>`COALESCE(SUM(${allocatedAmount}), 0)` })
+      .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
+      .where(
+        and(
+          eq(expenses.userId, userId),
+          eq(expenses.type, 'expense'),
+          gte(expenses.date, startDate),
+          lte(expenses.date, endDate),
+          category ? eq(allocatedCategory, category) : undefined
+        )
+      );
+    return Money.of(result?.total || 0, await this.getUserCurrency(userId));
+  }
+
+  // Spending in each of the given periods, which must be in order and not overlap, in one grouped query
+  async getCategorySpendingByPeriod(userId: string, periods: { start: Date; end: Date }[], category?: string | null): Promise<Money[]> {
+    const currency = await this.getUserCurrency(userId);
+    if (periods.length === 0) return [];
+
+    const periodIndex = sql<number>`CASE ${sql.join(
+      periods.map((period, index) => sql`WHEN ${and(gte(expenses.date, period.start), lte(expenses.date, period.end))} THEN ${sql.raw(String(index))}`),
+      sql` `
+    )} END`;
+    const rows = await db
+      .select({ period: periodIndex, total: sql<string>`COALESCE(SUM(${allocatedAmount}), 0)` })
+      .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
+      .where(
+        and(
+          eq(expenses.userId, userId),
+          eq(expenses.type, 'expense'),
+          gte(expenses.date, periods[0].start),
+          lte(expenses.date, periods[periods.length - 1].end),
+          category ? eq(allocatedCategory, category) : undefined
+        )
+      )
+      // By position, as in getSpendingTrends: repeating the expression would bind every bound a second time
+      .groupBy(sql`1`);
 
-    const trends = await db
+    const totals = periods.map(() => Money.zero(currency));
+    for (const row of rows) {
+      if (row.period === null) continue;
+      totals[Number(row.period)] = Money.of(row.total, currency);
+    }
+    return totals;
+  }
+
+  async getIncomeTotal(userId: string, startDate: Date, endDate: Date): Promise<Money> {
+    const [result] = await db
+      .select({ total: sql<string>`COALESCE(SUM(${normalizedAmount}), 0)` })
+      .from(expenses)
+      .where(
+        and(
+          eq(expenses.userId, userId),
+          eq(expenses.type, 'income'),
+          gte(expenses.date, startDate),
+          lte(expenses.date, endDate)
+        )
+      );
+    return Money.of(result?.total || 0, await this.getUserCurrency(userId));
+  }
+
+  // Newest first
+  async getAllocations(userId: string, startDate: Date, endDate: Date, type: 'expense' | 'income'): Promise<Allocation[]> {
+    const rows = await db
       .select({
-        month: sql<string>`TO_CHAR(date, 'Mon')`,
-        totalAmount: sql<number>`SUM(amount)`,
-        expenseAmount: sql<number>`SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END)`,
-        incomeAmount: sql<number>`SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END)`,
+        expense: expenses,
+        category: allocatedCategory,
+        amount: sql<string>`${allocatedAmount}`,
       })
       .from(expenses)
+      .leftJoin(expenseSplits, eq(expenseSplits.expenseId, expenses.id))
       .where(
         and(
           eq(expenses.userId, userId),
-          gte(expenses.date, startDate)
+          eq(expenses.type, type),
+          gte(expenses.date, startDate),
+          lte(expenses.date, endDate)
         )
       )
-      .groupBy(sql`TO_CHAR(date, 'Mon'), EXTRACT(MONTH FROM date)`)
-      .orderBy(sql`EXTRACT(MONTH FROM date)`);
-
-    return trends.map(trend => ({
-      month: trend.month,
-      amount: Number(trend.totalAmount),
-      income: Number(trend.incomeAmount),
-      expenses: Number(trend.expenseAmount),
-    }));
+      .orderBy(desc(expenses.date));
+
+    const currency = await this.getUserCurrency(userId);
+    return rows.map(row => ({ ...row, amount: Money.of(row.amount, currency) }));
   }
 
   async deleteAllUserData(userId: string): Promise<void> {
     await db.delete(notifications).where(eq(notifications.userId, userId));
+    await db.delete(importMappings).where(eq(importMappings.userId, userId));
+    await db.delete(duplicateDismissals).where(eq(duplicateDismissals.userId, userId));
+    await db.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId));
+    await db.delete(expenseSplits).where(eq(expenseSplits.userId, userId));
     await db.delete(categories).where(eq(categories.userId, userId));
+    await db.delete(goalContributions).where(eq(goalContributions.userId, userId));
+    await db.delete(goalFundingRules).where(eq(goalFundingRules.userId, userId));
     await db.delete(goals).where(eq(goals.userId, userId));
+    await db.delete(budgetAssignments).where(eq(budgetAssignments.userId, userId));
+    await db.delete(budgetAlerts).where(eq(budgetAlerts.userId, userId));
+    await db.delete(budgetLedger).where(eq(budgetLedger.userId, userId));
     await db.delete(budgets).where(eq(budgets.userId, userId));
     await db.delete(expenses).where(eq(expenses.userId, userId));
+    await db.delete(accounts).where(eq(accounts.userId, userId));
   }
 
   async exportUserData(userId: string): Promise<UserDataExport> {
     const user = await this.getUser(userId);
     const userExpenses = await this.getExpenses(userId);
+    const userSplits = await db.select().from(expenseSplits).where(eq(expenseSplits.userId, userId));
+    const userAccounts = await this.getAccounts(userId);
     const userBudgets = await this.getBudgets(userId);
+    const userBudgetLedger = await db.select().from(budgetLedger).where(eq(budgetLedger.userId, userId)).orderBy(budgetLedger.periodStart);
+    const userBudgetAssignments = await this.getBudgetAssignments(userId);
     const userGoals = await this.getGoals(userId);
+    const userGoalContributions = await db.select().from(goalContributions).where(eq(goalContributions.userId, userId)).orderBy(goalContributions.date);
+    const userGoalFundingRules = await this.getGoalFundingRules(userId);
     const userCategories = await this.getCategories(userId);
 
     if (!user) {
@@ -482,8 +1516,14 @@ export class DatabaseStorage implements IStorage {
     return {
       user,
       expenses: userExpenses,
+      expenseSplits: userSplits,
+      accounts: userAccounts,
       budgets: userBudgets,
+      budgetLedger: userBudgetLedger,
+      budgetAssignments: userBudgetAssignments,
       goals: userGoals,
+      goalContributions: userGoalContributions,
+      goalFundingRules: userGoalFundingRules,
       categories: userCategories,
     };
   }
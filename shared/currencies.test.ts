@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { formatMoney, getCurrencyInfo, getMinorUnits, hasValidMinorUnits, roundToMinorUnits, toMinorUnitString } from "./currencies";
+
+describe("currency catalog", () => {
+  it("knows each currency's minor units, defaulting to two", () => {
+    expect([getMinorUnits("JPY"), getMinorUnits("usd"), getMinorUnits("KWD"), getMinorUnits("XYZ"), getMinorUnits(null)]).toEqual([0, 2, 3, 2, 2]);
+    expect(getCurrencyInfo("eur")).toMatchObject({ code: "EUR", symbol: "€" });
+  });
+});
+
+describe("roundToMinorUnits", () => {
+  it("rounds half away from zero without float artifacts", () => {
+    expect(roundToMinorUnits(1.005, "USD")).toBe(1.01);
+    expect(roundToMinorUnits(-2.5, "JPY")).toBe(-3);
+    expect(roundToMinorUnits(0.0005, "BHD")).toBe(0.001);
+  });
+
+  it("pads to the currency's decimals as a string", () => {
+    expect(toMinorUnitString(1234.5, "JPY")).toBe("1235");
+    expect(toMinorUnitString(1.2, "KWD")).toBe("1.200");
+    expect(toMinorUnitString(7, "EUR")).toBe("7.00");
+  });
+});
+
+describe("hasValidMinorUnits", () => {
+  it("allows as many decimals as the currency has, ignoring trailing zeros", () => {
+    expect(hasValidMinorUnits("12.00", "JPY")).toBe(true);
+    expect(hasValidMinorUnits("12.5", "JPY")).toBe(false);
+    expect(hasValidMinorUnits("1.234", "KWD")).toBe(true);
+    expect(hasValidMinorUnits(1.2345, "KWD")).toBe(false);
+  });
+
+  it("rejects anything but a plain decimal", () => {
+    expect(["12a", "1.2.3", "", ".", "1,50", "1e2", "--1"].map(amount => hasValidMinorUnits(amount, "USD"))).toEqual([false, false, false, false, false, false, false]);
+    expect(["12", "12.", ".5", "-3.25", " 4.10 "].map(amount => hasValidMinorUnits(amount, "USD"))).toEqual([true, true, true, true, true]);
+  });
+});
+
+describe("formatMoney", () => {
+  it("shows the currency's own number of decimals", () => {
+    expect(formatMoney(1234, "JPY")).toBe("¥1,234");
+    expect(formatMoney(1.5, "BHD")).toContain("1.500");
+  });
+});
@@ -0,0 +1,210 @@
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  minorUnits: number; // Digits after the decimal separator, e.g. 0 for JPY and 3 for KWD
+}
+
+// Circulating ISO 4217 currencies; fund codes, precious metals and withdrawn currencies are left out
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "AED", name: "UAE Dirham", symbol: "د.إ", minorUnits: 2 },
+  { code: "AFN", name: "Afghan Afghani", symbol: "؋", minorUnits: 2 },
+  { code: "ALL", name: "Albanian Lek", symbol: "L", minorUnits: 2 },
+  { code: "AMD", name: "Armenian Dram", symbol: "֏", minorUnits: 2 },
+  { code: "AOA", name: "Angolan Kwanza", symbol: "Kz", minorUnits: 2 },
+  { code: "ARS", name: "Argentine Peso", symbol: "$", minorUnits: 2 },
+  { code: "AUD", name: "Australian Dollar", symbol: "A$", minorUnits: 2 },
+  { code: "AWG", name: "Aruban Florin", symbol: "ƒ", minorUnits: 2 },
+  { code: "AZN", name: "Azerbaijani Manat", symbol: "₼", minorUnits: 2 },
+  { code: "BAM", name: "Bosnia-Herzegovina Convertible Mark", symbol: "KM", minorUnits: 2 },
+  { code: "BBD", name: "Barbadian Dollar", symbol: "Bds$", minorUnits: 2 },
+  { code: "BDT", name: "Bangladeshi Taka", symbol: "৳", minorUnits: 2 },
+  { code: "BHD", name: "Bahraini Dinar", symbol: ".د.ب", minorUnits: 3 },
+  { code: "BIF", name: "Burundian Franc", symbol: "FBu", minorUnits: 0 },
+  { code: "BMD", name: "Bermudian Dollar", symbol: "$", minorUnits: 2 },
+  { code: "BND", name: "Brunei Dollar", symbol: "B$", minorUnits: 2 },
+  { code: "BOB", name: "Bolivian Boliviano", symbol: "Bs.", minorUnits: 2 },
+  { code: "BRL", name: "Brazilian Real", symbol: "R$", minorUnits: 2 },
+  { code: "BSD", name: "Bahamian Dollar", symbol: "B$", minorUnits: 2 },
+  { code: "BTN", name: "Bhutanese Ngultrum", symbol: "Nu.", minorUnits: 2 },
+  { code: "BWP", name: "Botswana Pula", symbol: "P", minorUnits: 2 },
+  { code: "BYN", name: "Belarusian Ruble", symbol: "Br", minorUnits: 2 },
+  { code: "BZD", name: "Belize Dollar", symbol: "BZ$", minorUnits: 2 },
+  { code: "CAD", name: "Canadian Dollar", symbol: "C$", minorUnits: 2 },
+  { code: "CDF", name: "Congolese Franc", symbol: "FC", minorUnits: 2 },
+  { code: "CHF", name: "Swiss Franc", symbol: "Fr", minorUnits: 2 },
+  { code: "CLP", name: "Chilean Peso", symbol: "$", minorUnits: 0 },
+  { code: "CNY", name: "Chinese Yuan", symbol: "¥", minorUnits: 2 },
+  { code: "COP", name: "Colombian Peso", symbol: "$", minorUnits: 2 },
+  { code: "CRC", name: "Costa Rican Colón", symbol: "₡", minorUnits: 2 },
+  { code: "CUP", name: "Cuban Peso", symbol: "$", minorUnits: 2 },
+  { code: "CVE", name: "Cape Verdean Escudo", symbol: "Esc", minorUnits: 2 },
+  { code: "CZK", name: "Czech Koruna", symbol: "Kč", minorUnits: 2 },
+  { code: "DJF", name: "Djiboutian Franc", symbol: "Fdj", minorUnits: 0 },
+  { code: "DKK", name: "Danish Krone", symbol: "kr", minorUnits: 2 },
+  { code: "DOP", name: "Dominican Peso", symbol: "RD$", minorUnits: 2 },
+  { code: "DZD", name: "Algerian Dinar", symbol: "دج", minorUnits: 2 },
+  { code: "EGP", name: "Egyptian Pound", symbol: "E£", minorUnits: 2 },
+  { code: "ERN", name: "Eritrean Nakfa", symbol: "Nfk", minorUnits: 2 },
+  { code: "ETB", name: "Ethiopian Birr", symbol: "Br", minorUnits: 2 },
+  { code: "EUR", name: "Euro", symbol: "€", minorUnits: 2 },
+  { code: "FJD", name: "Fijian Dollar", symbol: "FJ$", minorUnits: 2 },
+  { code: "FKP", name: "Falkland Islands Pound", symbol: "£", minorUnits: 2 },
+  { code: "GBP", name: "British Pound", symbol: "£", minorUnits: 2 },
+  { code: "GEL", name: "Georgian Lari", symbol: "₾", minorUnits: 2 },
+  { code: "GHS", name: "Ghanaian Cedi", symbol: "GH₵", minorUnits: 2 },
+  { code: "GIP", name: "Gibraltar Pound", symbol: "£", minorUnits: 2 },
+  { code: "GMD", name: "Gambian Dalasi", symbol: "D", minorUnits: 2 },
+  { code: "GNF", name: "Guinean Franc", symbol: "FG", minorUnits: 0 },
+  { code: "GTQ", name: "Guatemalan Quetzal", symbol: "Q", minorUnits: 2 },
+  { code: "GYD", name: "Guyanese Dollar", symbol: "G$", minorUnits: 2 },
+  { code: "HKD", name: "Hong Kong Dollar", symbol: "HK$", minorUnits: 2 },
+  { code: "HNL", name: "Honduran Lempira", symbol: "L", minorUnits: 2 },
+  { code: "HTG", name: "Haitian Gourde", symbol: "G", minorUnits: 2 },
+  { code: "HUF", name: "Hungarian Forint", symbol: "Ft", minorUnits: 2 },
+  { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp", minorUnits: 2 },
+  { code: "ILS", name: "Israeli New Shekel", symbol: "₪", minorUnits: 2 },
+  { code: "INR", name: "Indian Rupee", symbol: "₹", minorUnits: 2 },
+  { code: "IQD", name: "Iraqi Dinar", symbol: "ع.د", minorUnits: 3 },
+  { code: "IRR", name: "Iranian Rial", symbol: "﷼", minorUnits: 2 },
+  { code: "ISK", name: "Icelandic Króna", symbol: "kr", minorUnits: 0 },
+  { code: "JMD", name: "Jamaican Dollar", symbol: "J$", minorUnits: 2 },
+  { code: "JOD", name: "Jordanian Dinar", symbol: "JD", minorUnits: 3 },
+  { code: "JPY", name: "Japanese Yen", symbol: "¥", minorUnits: 0 },
+  { code: "KES", name: "Kenyan Shilling", symbol: "KSh", minorUnits: 2 },
+  { code: "KGS", name: "Kyrgyzstani Som", symbol: "с", minorUnits: 2 },
+  { code: "KHR", name: "Cambodian Riel", symbol: "៛", minorUnits: 2 },
+  { code: "KMF", name: "Comorian Franc", symbol: "CF", minorUnits: 0 },
+  { code: "KPW", name: "North Korean Won", symbol: "₩", minorUnits: 2 },
+  { code: "KRW", name: "South Korean Won", symbol: "₩", minorUnits: 0 },
+  { code: "KWD", name: "Kuwaiti Dinar", symbol: "KD", minorUnits: 3 },
+  { code: "KYD", name: "Cayman Islands Dollar", symbol: "CI$", minorUnits: 2 },
+  { code: "KZT", name: "Kazakhstani Tenge", symbol: "₸", minorUnits: 2 },
+  { code: "LAK", name: "Lao Kip", symbol: "₭", minorUnits: 2 },
+  { code: "LBP", name: "Lebanese Pound", symbol: "ل.ل", minorUnits: 2 },
+  { code: "LKR", name: "Sri Lankan Rupee", symbol: "Rs", minorUnits: 2 },
+  { code: "LRD", name: "Liberian Dollar", symbol: "L$", minorUnits: 2 },
+  { code: "LSL", name: "Lesotho Loti", symbol: "L", minorUnits: 2 },
+  { code: "LYD", name: "Libyan Dinar", symbol: "LD", minorUnits: 3 },
+  { code: "MAD", name: "Moroccan Dirham", symbol: "DH", minorUnits: 2 },
+  { code: "MDL", name: "Moldovan Leu", symbol: "L", minorUnits: 2 },
+  { code: "MGA", name: "Malagasy Ariary", symbol: "Ar", minorUnits: 2 },
+  { code: "MKD", name: "Macedonian Denar", symbol: "ден", minorUnits: 2 },
+  { code: "MMK", name: "Myanmar Kyat", symbol: "K", minorUnits: 2 },
+  { code: "MNT", name: "Mongolian Tögrög", symbol: "₮", minorUnits: 2 },
+  { code: "MOP", name: "Macanese Pataca", symbol: "MOP$", minorUnits: 2 },
+  { code: "MRU", name: "Mauritanian Ouguiya", symbol: "UM", minorUnits: 2 },
+  { code: "MUR", name: "Mauritian Rupee", symbol: "Rs", minorUnits: 2 },
+  { code: "MVR", name: "Maldivian Rufiyaa", symbol: "Rf", minorUnits: 2 },
+  { code: "MWK", name: "Malawian Kwacha", symbol: "MK", minorUnits: 2 },
+  { code: "MXN", name: "Mexican Peso", symbol: "$", minorUnits: 2 },
+  { code: "MYR", name: "Malaysian Ringgit", symbol: "RM", minorUnits: 2 },
+  { code: "MZN", name: "Mozambican Metical", symbol: "MT", minorUnits: 2 },
+  { code: "NAD", name: "Namibian Dollar", symbol: "N$", minorUnits: 2 },
+  { code: "NGN", name: "Nigerian Naira", symbol: "₦", minorUnits: 2 },
+  { code: "NIO", name: "Nicaraguan Córdoba", symbol: "C$", minorUnits: 2 },
+  { code: "NOK", name: "Norwegian Krone", symbol: "kr", minorUnits: 2 },
+  { code: "NPR", name: "Nepalese Rupee", symbol: "Rs", minorUnits: 2 },
+  { code: "NZD", name: "New Zealand Dollar", symbol: "NZ$", minorUnits: 2 },
+  { code: "OMR", name: "Omani Rial", symbol: "ر.ع.", minorUnits: 3 },
+  { code: "PAB", name: "Panamanian Balboa", symbol: "B/.", minorUnits: 2 },
+  { code: "PEN", name: "Peruvian Sol", symbol: "S/", minorUnits: 2 },
+  { code: "PGK", name: "Papua New Guinean Kina", symbol: "K", minorUnits: 2 },
+  { code: "PHP", name: "Philippine Peso", symbol: "₱", minorUnits: 2 },
+  { code: "PKR", name: "Pakistani Rupee", symbol: "Rs", minorUnits: 2 },
+  { code: "PLN", name: "Polish Złoty", symbol: "zł", minorUnits: 2 },
+  { code: "PYG", name: "Paraguayan Guaraní", symbol: "₲", minorUnits: 0 },
+  { code: "QAR", name: "Qatari Riyal", symbol: "QR", minorUnits: 2 },
+  { code: "RON", name: "Romanian Leu", symbol: "lei", minorUnits: 2 },
+  { code: "RSD", name: "Serbian Dinar", symbol: "дин.", minorUnits: 2 },
+  { code: "RUB", name: "Russian Ruble", symbol: "₽", minorUnits: 2 },
+  { code: "RWF", name: "Rwandan Franc", symbol: "FRw", minorUnits: 0 },
+  { code: "SAR", name: "Saudi Riyal", symbol: "SR", minorUnits: 2 },
+  { code: "SBD", name: "Solomon Islands Dollar", symbol: "SI$", minorUnits: 2 },
+  { code: "SCR", name: "Seychellois Rupee", symbol: "SR", minorUnits: 2 },
+  { code: "SDG", name: "Sudanese Pound", symbol: "£", minorUnits: 2 },
+  { code: "SEK", name: "Swedish Krona", symbol: "kr", minorUnits: 2 },
+  { code: "SGD", name: "Singapore Dollar", symbol: "S$", minorUnits: 2 },
+  { code: "SHP", name: "Saint Helena Pound", symbol: "£", minorUnits: 2 },
+  { code: "SLE", name: "Sierra Leonean Leone", symbol: "Le", minorUnits: 2 },
+  { code: "SOS", name: "Somali Shilling", symbol: "Sh", minorUnits: 2 },
+  { code: "SRD", name: "Surinamese Dollar", symbol: "$", minorUnits: 2 },
+  { code: "SSP", name: "South Sudanese Pound", symbol: "£", minorUnits: 2 },
+  { code: "STN", name: "São Tomé and Príncipe Dobra", symbol: "Db", minorUnits: 2 },
+  { code: "SVC", name: "Salvadoran Colón", symbol: "₡", minorUnits: 2 },
+  { code: "SYP", name: "Syrian Pound", symbol: "£", minorUnits: 2 },
+  { code: "SZL", name: "Swazi Lilangeni", symbol: "E", minorUnits: 2 },
+  { code: "THB", name: "Thai Baht", symbol: "฿", minorUnits: 2 },
+  { code: "TJS", name: "Tajikistani Somoni", symbol: "SM", minorUnits: 2 },
+  { code: "TMT", name: "Turkmenistani Manat", symbol: "m", minorUnits: 2 },
+  { code: "TND", name: "Tunisian Dinar", symbol: "DT", minorUnits: 3 },
+  { code: "TOP", name: "Tongan Paʻanga", symbol: "T$", minorUnits: 2 },
+  { code: "TRY", name: "Turkish Lira", symbol: "₺", minorUnits: 2 },
+  { code: "TTD", name: "Trinidad and Tobago Dollar", symbol: "TT$", minorUnits: 2 },
+  { code: "TWD", name: "New Taiwan Dollar", symbol: "NT$", minorUnits: 2 },
+  { code: "TZS", name: "Tanzanian Shilling", symbol: "TSh", minorUnits: 2 },
+  { code: "UAH", name: "Ukrainian Hryvnia", symbol: "₴", minorUnits: 2 },
+  { code: "UGX", name: "Ugandan Shilling", symbol: "USh", minorUnits: 0 },
+  { code: "USD", name: "US Dollar", symbol: "$", minorUnits: 2 },
+  { code: "UYU", name: "Uruguayan Peso", symbol: "$U", minorUnits: 2 },
+  { code: "UZS", name: "Uzbekistani Som", symbol: "soʻm", minorUnits: 2 },
+  { code: "VED", name: "Venezuelan Digital Bolívar", symbol: "Bs.D", minorUnits: 2 },
+  { code: "VES", name: "Venezuelan Bolívar", symbol: "Bs.S", minorUnits: 2 },
+  { code: "VND", name: "Vietnamese Đồng", symbol: "₫", minorUnits: 0 },
+  { code: "VUV", name: "Vanuatu Vatu", symbol: "VT", minorUnits: 0 },
+  { code: "WST", name: "Samoan Tālā", symbol: "WS$", minorUnits: 2 },
+  { code: "XAF", name: "Central African CFA Franc", symbol: "FCFA", minorUnits: 0 },
+  { code: "XCD", name: "East Caribbean Dollar", symbol: "EC$", minorUnits: 2 },
+  { code: "XCG", name: "Caribbean Guilder", symbol: "Cg", minorUnits: 2 },
+  { code: "XOF", name: "West African CFA Franc", symbol: "CFA", minorUnits: 0 },
+  { code: "XPF", name: "CFP Franc", symbol: "₣", minorUnits: 0 },
+  { code: "YER", name: "Yemeni Rial", symbol: "﷼", minorUnits: 2 },
+  { code: "ZAR", name: "South African Rand", symbol: "R", minorUnits: 2 },
+  { code: "ZMW", name: "Zambian Kwacha", symbol: "ZK", minorUnits: 2 },
+  { code: "ZWG", name: "Zimbabwe Gold", symbol: "ZiG", minorUnits: 2 },
+];
+
+const CURRENCIES_BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+export function getCurrencyInfo(code: string | null | undefined): CurrencyInfo | undefined {
+  return code ? CURRENCIES_BY_CODE.get(code.toUpperCase()) : undefined;
+}
+
+// Unknown codes fall back to two decimals
+export function getMinorUnits(code: string | null | undefined): number {
+  return getCurrencyInfo(code)?.minorUnits ?? 2;
+}
+
+// Rounds half away from zero to the currency's smallest unit, avoiding binary float artifacts such as 1.005 -> 1.00
+export function roundToMinorUnits(amount: number, code: string | null | undefined): number {
+  const minorUnits = getMinorUnits(code);
+  const rounded = Math.round(Number(`${Math.abs(amount)}e${minorUnits}`));
+  return Math.sign(amount) * Number(`${rounded}e-${minorUnits}`);
+}
+
+// Decimal string with exactly the currency's number of decimals, as stored in decimal columns
+export function toMinorUnitString(amount: number, code: string | null | undefined): string {
+  return roundToMinorUnits(amount, code).toFixed(getMinorUnits(code));
+}
+
+// True when the amount is a plain decimal with no more decimals than the currency allows; trailing zeros are ignored
+export function hasValidMinorUnits(amount: string | number, code: string | null | undefined): boolean {
+  const match = /^[+-]?(?:\d+\.?(\d*)|\.(\d+))$/.exec(String(amount).trim());
+  if (!match) return false;
+  const decimals = match[1] ?? match[2];
+  return decimals.replace(/0+$/, "").length <= getMinorUnits(code);
+}
+
+export function formatMoney(amount: number, code: string, locale: string = "en-US"): string {
+  const minorUnits = getMinorUnits(code);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: code,
+      minimumFractionDigits: minorUnits,
+      maximumFractionDigits: minorUnits,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(minorUnits)} ${code}`;
+  }
+}
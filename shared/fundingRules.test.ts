@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { fundingFor, type FundedTransaction } from "./fundingRules";
+import { Money } from "./money";
+
+const rule = { type: "round_up", percentage: null, category: null, accountId: null };
+
+const transaction = (amount: string, overrides: Partial<FundedTransaction> = {}, currency = "USD"): FundedTransaction => ({
+  type: "expense",
+  category: "food",
+  accountId: "account-1",
+  amount: Money.of(amount, currency),
+  ...overrides,
+});
+
+describe("fundingFor", () => {
+  it("rounds expenses up to the next whole unit", () => {
+    expect(fundingFor(rule, transaction("4.30")).toString()).toBe("0.70");
+    expect(fundingFor(rule, transaction("-4.30")).toString()).toBe("0.70");
+    expect(fundingFor(rule, transaction("1.250", {}, "KWD")).toString()).toBe("0.750");
+  });
+
+  it("rounds nothing up for whole amounts and income", () => {
+    expect(fundingFor(rule, transaction("5.00")).isZero()).toBe(true);
+    expect(fundingFor(rule, transaction("1234", {}, "JPY")).isZero()).toBe(true);
+    expect(fundingFor(rule, transaction("4.30", { type: "income" })).isZero()).toBe(true);
+  });
+
+  it("takes its percentage of income", () => {
+    const share = { ...rule, type: "income_percent", percentage: "12.5" };
+
+    expect(fundingFor(share, transaction("2000.00", { type: "income" })).toString()).toBe("250.00");
+    expect(fundingFor(share, transaction("2000.00")).isZero()).toBe(true);
+    expect(fundingFor({ ...share, percentage: null }, transaction("2000.00", { type: "income" })).isZero()).toBe(true);
+  });
+
+  it("only funds transactions in the rule's category and account", () => {
+    expect(fundingFor({ ...rule, category: "travel" }, transaction("4.30")).isZero()).toBe(true);
+    expect(fundingFor({ ...rule, accountId: "account-2" }, transaction("4.30")).isZero()).toBe(true);
+    expect(fundingFor({ ...rule, category: "food", accountId: "account-1" }, transaction("4.30")).toString()).toBe("0.70");
+  });
+
+  it("leaves scheduled rules to the scheduler", () => {
+    expect(fundingFor({ ...rule, type: "scheduled" }, transaction("4.30")).isZero()).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { Money } from "./money";
+import type { GoalFundingRule } from "./schema";
+
+export const FUNDING_RULE_TYPES = ["round_up", "income_percent", "scheduled"];
+export const FUNDING_FREQUENCIES = ["weekly", "monthly"];
+
+// What a rule looks at in a transaction; the amount is in the user's currency
+export interface FundedTransaction {
+  type: string;
+  category: string;
+  accountId: string | null;
+  amount: Money;
+}
+
+// What a rule puts towards its goal for one transaction: the change up to the next whole unit of an
+// expense, or its percentage of an income. Zero when the rule does not apply; scheduled rules never do.
+export function fundingFor(
+  rule: Pick<GoalFundingRule, "type" | "percentage" | "category" | "accountId">,
+  transaction: FundedTransaction,
+): Money {
+  const amount = transaction.amount.abs();
+  const none = Money.zero(amount.currency);
+  if (rule.category && rule.category !== transaction.category) return none;
+  if (rule.accountId && rule.accountId !== transaction.accountId) return none;
+
+  switch (rule.type) {
+    case "round_up": {
+      if (transaction.type !== "expense") return none;
+      const whole = Money.of(amount.toString().split(".")[0], amount.currency);
+      return whole.equals(amount) ? none : whole.plus(Money.of(1, amount.currency)).minus(amount);
+    }
+    case "income_percent":
+      if (transaction.type !== "income" || !rule.percentage) return none;
+      return amount.times(rule.percentage).dividedBy(100);
+    default:
+      return none;
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { divideDecimals, isMoneyJSON, Money } from "./money";
+
+describe("Money.of", () => {
+  it("rounds to the currency's minor units, half away from zero", () => {
+    expect(Money.of("1.005", "USD").toString()).toBe("1.01");
+    expect(Money.of(-2.5, "jpy").toString()).toBe("-3");
+    expect(Money.of("1.2", "KWD").toString()).toBe("1.200");
+    expect(Money.of("1e3", "USD").toString()).toBe("1000.00");
+    expect(Money.of(".5", "EUR").toString()).toBe("0.50");
+  });
+
+  it("rejects text that is not a decimal", () => {
+    expect(() => Money.of("abc", "USD")).toThrow('Invalid decimal amount: "abc"');
+    expect(() => Money.of("", "USD")).toThrow('Invalid decimal amount: ""');
+  });
+});
+
+describe("Money arithmetic", () => {
+  it("adds exactly where floats do not", () => {
+    expect(Money.of("0.1", "USD").plus(Money.of("0.2", "USD")).toString()).toBe("0.30");
+    expect(Money.sum(Array(10).fill(Money.of("0.1", "USD")), "USD").toString()).toBe("1.00");
+    expect(Money.of("5", "USD").minus(Money.of("7.25", "USD")).toString()).toBe("-2.25");
+  });
+
+  it("scales by exact factors, rounding once", () => {
+    expect(Money.of("10", "USD").times("0.333").toString()).toBe("3.33");
+    expect(Money.of("0.05", "USD").times("0.5").toString()).toBe("0.03");
+  });
+
+  it("divides, rounding to minor units", () => {
+    expect(Money.of("100", "USD").dividedBy(3).toString()).toBe("33.33");
+    expect(Money.of("-1", "USD").dividedBy("8").toString()).toBe("-0.13");
+    expect(() => Money.of("1", "USD").dividedBy(0)).toThrow("Cannot divide money by zero");
+  });
+
+  it("refuses to mix currencies", () => {
+    expect(() => Money.of("1", "USD").plus(Money.of("1", "EUR"))).toThrow("Currency mismatch: USD and EUR");
+  });
+
+  it("compares and divides", () => {
+    const spent = Money.of("25", "USD");
+    const budget = Money.of("200", "USD");
+
+    expect(spent.ratio(budget)).toBe(0.125);
+    expect(spent.ratio(Money.zero("USD"))).toBe(0);
+    expect([spent.compare(budget), budget.compare(spent), spent.compare(Money.of("25.00", "USD"))]).toEqual([-1, 1, 0]);
+  });
+});
+
+describe("Money.convert", () => {
+  it("converts between currencies with different minor units", () => {
+    expect(Money.of("10", "USD").convert("110.12345678", "JPY").toString()).toBe("1101");
+    expect(Money.of("100", "JPY").convert("0.00909091", "USD").toString()).toBe("0.91");
+    expect(Money.of("1", "KWD").convert("3.25", "USD").toString()).toBe("3.25");
+  });
+});
+
+describe("divideDecimals", () => {
+  it("divides exactly and rounds half away from zero", () => {
+    expect(divideDecimals("0.3", "0.1", 8)).toBe("3.00000000");
+    expect(divideDecimals(1, 3, 8)).toBe("0.33333333");
+    expect(divideDecimals("-2", "3", 2)).toBe("-0.67");
+    expect(divideDecimals("0.005", 1, 2)).toBe("0.01");
+    expect(() => divideDecimals(1, 0, 2)).toThrow("Cannot divide by zero");
+  });
+});
+
+describe("Money JSON", () => {
+  it("round-trips through the wire format", () => {
+    const json = Money.of("-12.5", "EUR").toJSON();
+
+    expect(json).toEqual({ amount: "-12.50", currency: "EUR" });
+    expect(isMoneyJSON(json)).toBe(true);
+    expect(isMoneyJSON({ amount: -12.5, currency: "EUR" })).toBe(false);
+    expect(Money.fromJSON(json).equals(Money.of("-12.50", "EUR"))).toBe(true);
+  });
+});
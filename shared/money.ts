@@ -0,0 +1,176 @@
+import { getMinorUnits } from "./currencies";
+
+// Wire format of a monetary amount: exact decimal string in the currency's minor units
+export interface MoneyJSON {
+  amount: string;
+  currency: string;
+}
+
+export type DecimalInput = string | number;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+const pow10 = (exponent: number): bigint => BigInt(`1${"0".repeat(exponent)}`);
+
+const abs = (value: bigint): bigint => (value < ZERO ? -value : value);
+
+// Integer division rounding half away from zero, like decimal rounding in Postgres
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (abs(remainder) * TWO < abs(denominator)) return quotient;
+  return (numerator < ZERO) !== (denominator < ZERO) ? quotient - ONE : quotient + ONE;
+}
+
+// Exact digits and scale of a decimal: "12.345" is 12345 at scale 3. Numbers go through their
+// shortest string form, so 0.1 + 0.2 reads as 0.30000000000000004 and rounds as such.
+function parseDecimal(value: DecimalInput): { digits: bigint; scale: number } {
+  const text = typeof value === "number" ? String(value) : String(value ?? "").trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+
+  const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+  let digits = BigInt(`${whole}${fraction}` || "0");
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+  return { digits: sign === "-" ? -digits : digits, scale };
+}
+
+// Decimal string of an integer count of 10^-scale units: 12345 at scale 2 is "123.45"
+function formatScaled(value: bigint, scale: number): string {
+  const digits = abs(value).toString().padStart(scale + 1, "0");
+  const sign = value < ZERO ? "-" : "";
+  if (scale === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+// Exact quotient of two decimals, rounded half away from zero to `scale` places; for rates, not amounts
+export function divideDecimals(dividend: DecimalInput, divisor: DecimalInput, scale: number): string {
+  const numerator = parseDecimal(dividend);
+  const denominator = parseDecimal(divisor);
+  if (denominator.digits === ZERO) throw new Error("Cannot divide by zero");
+  const quotient = divideRounded(
+    numerator.digits * pow10(denominator.scale + scale),
+    denominator.digits * pow10(numerator.scale),
+  );
+  return formatScaled(quotient, scale);
+}
+
+// An exact amount in one currency, held as an integer count of its minor units (cents for USD, yen for JPY)
+export class Money {
+  private constructor(readonly minor: bigint, readonly currency: string) {}
+
+  // Rounds to the currency's minor units, half away from zero
+  static of(amount: DecimalInput, currency: string): Money {
+    const code = currency.toUpperCase();
+    const { digits, scale } = parseDecimal(amount);
+    return new Money(divideRounded(digits * pow10(getMinorUnits(code)), pow10(scale)), code);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(ZERO, currency.toUpperCase());
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.amount, json.currency);
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.plus(amount), Money.zero(currency));
+  }
+
+  plus(other: Money): Money {
+    return new Money(this.minor + this.sameCurrency(other).minor, this.currency);
+  }
+
+  minus(other: Money): Money {
+    return new Money(this.minor - this.sameCurrency(other).minor, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return new Money(abs(this.minor), this.currency);
+  }
+
+  // Scales by an exact decimal factor, rounding the result to minor units
+  times(factor: DecimalInput): Money {
+    const { digits, scale } = parseDecimal(factor);
+    return new Money(divideRounded(this.minor * digits, pow10(scale)), this.currency);
+  }
+
+  dividedBy(divisor: DecimalInput): Money {
+    const { digits, scale } = parseDecimal(divisor);
+    if (digits === ZERO) throw new Error("Cannot divide money by zero");
+    return new Money(divideRounded(this.minor * pow10(scale), digits), this.currency);
+  }
+
+  // Converts at `rate` units of `currency` per unit of this currency
+  convert(rate: DecimalInput, currency: string): Money {
+    const code = currency.toUpperCase();
+    const { digits, scale } = parseDecimal(rate);
+    const numerator = this.minor * digits * pow10(getMinorUnits(code));
+    return new Money(divideRounded(numerator, pow10(scale + getMinorUnits(this.currency))), code);
+  }
+
+  // This amount as a fraction of another, for percentages; 0 when the other amount is zero
+  ratio(other: Money): number {
+    const divisor = this.sameCurrency(other).minor;
+    if (divisor === ZERO) return 0;
+    // Twelve significant decimals survive the conversion to a float
+    return Number(divideRounded(this.minor * pow10(12), divisor)) / 1e12;
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    const difference = this.minor - this.sameCurrency(other).minor;
+    return difference < ZERO ? -1 : difference > ZERO ? 1 : 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  isZero(): boolean {
+    return this.minor === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.minor < ZERO;
+  }
+
+  isPositive(): boolean {
+    return this.minor > ZERO;
+  }
+
+  toString(): string {
+    return formatScaled(this.minor, getMinorUnits(this.currency));
+  }
+
+  // Only for display and ratios; arithmetic stays on Money
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  private sameCurrency(other: Money): Money {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+    return other;
+  }
+}
+
+export const isMoneyJSON = (value: unknown): value is MoneyJSON =>
+  typeof value === "object" && value !== null && typeof (value as MoneyJSON).amount === "string" && typeof (value as MoneyJSON).currency === "string";
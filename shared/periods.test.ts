@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CYCLES, addMonths, calendarOf, dayKey, daysBetween, isTimeZone, localDay, nextPeriod, periodBounds, periodsBetween, periodStart, resolveTimeZone, startOfLocalDay, type LocalDay } from "./periods";
+
+const AUCKLAND = "Pacific/Auckland";
+const LOS_ANGELES = "America/Los_Angeles";
+
+const day = (year: number, month: number, date: number): LocalDay => ({ year, month, day: date });
+const iso = (bounds: { start: Date; end: Date }) => ({ start: bounds.start.toISOString(), end: bounds.end.toISOString() });
+
+describe("localDay", () => {
+  it("reads the calendar day in the time zone", () => {
+    const moment = new Date("2026-10-31T20:00:00Z");
+    expect(localDay(moment, "UTC")).toEqual(day(2026, 10, 31));
+    expect(localDay(moment, AUCKLAND)).toEqual(day(2026, 11, 1));
+    expect(localDay(moment, LOS_ANGELES)).toEqual(day(2026, 10, 31));
+  });
+
+  it("recognises time zones, falling back to UTC for stored values it does not know", () => {
+    expect([isTimeZone(AUCKLAND), isTimeZone("Mars/Olympus")]).toEqual([true, false]);
+    expect([resolveTimeZone(AUCKLAND), resolveTimeZone("Mars/Olympus"), resolveTimeZone(null)]).toEqual([AUCKLAND, "UTC", "UTC"]);
+  });
+
+  it("reads stored calendar preferences, replacing ones out of range with the defaults", () => {
+    expect(calendarOf({ timezone: AUCKLAND, monthStartDay: 25, weekStartDay: 0 })).toEqual({ timeZone: AUCKLAND, monthStartDay: 25, weekStartDay: 0 });
+    expect(calendarOf({ timezone: null, monthStartDay: 31, weekStartDay: 7 })).toEqual({ timeZone: "UTC", ...DEFAULT_CYCLES });
+    expect(calendarOf(undefined)).toEqual({ timeZone: "UTC", ...DEFAULT_CYCLES });
+  });
+});
+
+describe("startOfLocalDay", () => {
+  it("starts the day at local midnight", () => {
+    expect(startOfLocalDay(day(2026, 10, 19), "UTC").toISOString()).toBe("2026-10-19T00:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 10, 19), AUCKLAND).toISOString()).toBe("2026-10-18T11:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 10, 19), LOS_ANGELES).toISOString()).toBe("2026-10-19T07:00:00.000Z");
+  });
+
+  it("uses each day's own offset around spring-forward", () => {
+    // Los Angeles moves from PST to PDT at 02:00 on 8 March 2026
+    expect(startOfLocalDay(day(2026, 3, 8), LOS_ANGELES).toISOString()).toBe("2026-03-08T08:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 3, 9), LOS_ANGELES).toISOString()).toBe("2026-03-09T07:00:00.000Z");
+    // Auckland moves from NZST to NZDT at 02:00 on 27 September 2026
+    expect(startOfLocalDay(day(2026, 9, 27), AUCKLAND).toISOString()).toBe("2026-09-26T12:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 9, 28), AUCKLAND).toISOString()).toBe("2026-09-27T11:00:00.000Z");
+  });
+
+  it("uses each day's own offset around fall-back", () => {
+    // Los Angeles moves from PDT to PST at 02:00 on 1 November 2026
+    expect(startOfLocalDay(day(2026, 11, 1), LOS_ANGELES).toISOString()).toBe("2026-11-01T07:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 11, 2), LOS_ANGELES).toISOString()).toBe("2026-11-02T08:00:00.000Z");
+    // Auckland moves from NZDT to NZST at 03:00 on 5 April 2026
+    expect(startOfLocalDay(day(2026, 4, 5), AUCKLAND).toISOString()).toBe("2026-04-04T11:00:00.000Z");
+    expect(startOfLocalDay(day(2026, 4, 6), AUCKLAND).toISOString()).toBe("2026-04-05T12:00:00.000Z");
+  });
+
+  it("starts a day whose midnight was skipped at its first moment", () => {
+    // Santiago moves from -04 to -03 at midnight on 6 September 2026
+    expect(startOfLocalDay(day(2026, 9, 6), "America/Santiago").toISOString()).toBe("2026-09-06T04:00:00.000Z");
+  });
+});
+
+describe("periodStart", () => {
+  it("finds the first day of calendar periods", () => {
+    expect(periodStart(day(2026, 10, 19), "day")).toEqual(day(2026, 10, 19));
+    expect(periodStart(day(2026, 10, 19), "month")).toEqual(day(2026, 10, 1));
+    expect(periodStart(day(2026, 11, 30), "quarter")).toEqual(day(2026, 10, 1));
+    expect(periodStart(day(2026, 10, 19), "year")).toEqual(day(2026, 1, 1));
+  });
+
+  it("starts weeks on the chosen weekday", () => {
+    // 18 October 2026 is a Sunday
+    expect(periodStart(day(2026, 10, 18), "week")).toEqual(day(2026, 10, 12));
+    expect(periodStart(day(2026, 10, 19), "week")).toEqual(day(2026, 10, 19));
+    expect(periodStart(day(2026, 10, 19), "week", { weekStartDay: 0, monthStartDay: 1 })).toEqual(day(2026, 10, 18));
+  });
+
+  it("follows a month start day into the previous month and year", () => {
+    const cycles = { weekStartDay: 1, monthStartDay: 25 };
+    expect(periodStart(day(2026, 10, 25), "month", cycles)).toEqual(day(2026, 10, 25));
+    expect(periodStart(day(2026, 10, 24), "month", cycles)).toEqual(day(2026, 9, 25));
+    expect(periodStart(day(2026, 1, 10), "month", cycles)).toEqual(day(2025, 12, 25));
+    expect(periodStart(day(2026, 4, 10), "quarter", cycles)).toEqual(day(2026, 1, 25));
+    expect(periodStart(day(2026, 1, 10), "year", cycles)).toEqual(day(2025, 1, 25));
+  });
+});
+
+describe("nextPeriod", () => {
+  it("rolls over month and year ends", () => {
+    expect(nextPeriod(day(2026, 12, 28), "week")).toEqual(day(2027, 1, 4));
+    expect(nextPeriod(day(2026, 12, 1), "month")).toEqual(day(2027, 1, 1));
+    expect(nextPeriod(day(2026, 10, 1), "quarter")).toEqual(day(2027, 1, 1));
+  });
+});
+
+describe("calendar arithmetic", () => {
+  it("clamps added months to the end of shorter months", () => {
+    expect(addMonths(day(2026, 1, 31), 1)).toEqual(day(2026, 2, 28));
+    expect(addMonths(day(2026, 11, 30), 3)).toEqual(day(2027, 2, 28));
+    expect(addMonths(day(2024, 2, 29), 12)).toEqual(day(2025, 2, 28));
+  });
+
+  it("counts whole calendar days", () => {
+    expect(daysBetween(day(2026, 3, 1), day(2026, 4, 1))).toBe(31);
+    expect(daysBetween(day(2026, 10, 19), day(2026, 10, 12))).toBe(-7);
+  });
+});
+
+describe("periodBounds", () => {
+  it("uses the user's month, not the UTC one, at a month end", () => {
+    // 20:00 UTC on 31 October is already 1 November in Auckland and still 31 October in Los Angeles
+    const moment = new Date("2026-10-31T20:00:00Z");
+    expect(iso(periodBounds(moment, "month", AUCKLAND))).toEqual({
+      start: "2026-10-31T11:00:00.000Z",
+      end: "2026-11-30T11:00:00.000Z",
+    });
+    expect(iso(periodBounds(moment, "month", LOS_ANGELES))).toEqual({
+      start: "2026-10-01T07:00:00.000Z",
+      end: "2026-11-01T07:00:00.000Z",
+    });
+  });
+
+  it("switches months at local midnight", () => {
+    expect(iso(periodBounds(new Date("2026-11-01T06:59:59.999Z"), "month", LOS_ANGELES)).start).toBe("2026-10-01T07:00:00.000Z");
+    expect(iso(periodBounds(new Date("2026-11-01T07:00:00.000Z"), "month", LOS_ANGELES)).start).toBe("2026-11-01T07:00:00.000Z");
+    expect(iso(periodBounds(new Date("2026-10-31T10:59:59.999Z"), "month", AUCKLAND)).start).toBe("2026-09-30T11:00:00.000Z");
+    expect(iso(periodBounds(new Date("2026-10-31T11:00:00.000Z"), "month", AUCKLAND)).start).toBe("2026-10-31T11:00:00.000Z");
+  });
+
+  it("keeps both edges at local midnight across a daylight saving change", () => {
+    // March in Los Angeles spans spring-forward, November fall-back
+    expect(iso(periodBounds(new Date("2026-03-15T12:00:00Z"), "month", LOS_ANGELES))).toEqual({
+      start: "2026-03-01T08:00:00.000Z",
+      end: "2026-04-01T07:00:00.000Z",
+    });
+    expect(iso(periodBounds(new Date("2026-11-15T12:00:00Z"), "month", LOS_ANGELES))).toEqual({
+      start: "2026-11-01T07:00:00.000Z",
+      end: "2026-12-01T08:00:00.000Z",
+    });
+    // September in Auckland spans spring-forward, April fall-back
+    expect(iso(periodBounds(new Date("2026-09-15T12:00:00Z"), "month", AUCKLAND))).toEqual({
+      start: "2026-08-31T12:00:00.000Z",
+      end: "2026-09-30T11:00:00.000Z",
+    });
+    expect(iso(periodBounds(new Date("2026-04-15T12:00:00Z"), "month", AUCKLAND))).toEqual({
+      start: "2026-03-31T11:00:00.000Z",
+      end: "2026-04-30T12:00:00.000Z",
+    });
+  });
+
+  it("gives the changeover days 23 and 25 hours", () => {
+    const hours = (bounds: { start: Date; end: Date }) => (bounds.end.getTime() - bounds.start.getTime()) / 3_600_000;
+    expect(hours(periodBounds(new Date("2026-03-08T12:00:00Z"), "day", LOS_ANGELES))).toBe(23);
+    expect(hours(periodBounds(new Date("2026-11-01T12:00:00Z"), "day", LOS_ANGELES))).toBe(25);
+    expect(hours(periodBounds(new Date("2026-09-27T00:00:00Z"), "day", AUCKLAND))).toBe(23);
+    expect(hours(periodBounds(new Date("2026-04-05T00:00:00Z"), "day", AUCKLAND))).toBe(25);
+  });
+
+  it("spans a week across fall-back", () => {
+    expect(iso(periodBounds(new Date("2026-11-01T12:00:00Z"), "week", LOS_ANGELES))).toEqual({
+      start: "2026-10-26T07:00:00.000Z",
+      end: "2026-11-02T08:00:00.000Z",
+    });
+  });
+
+  it("runs months from the month start day", () => {
+    const cycles = { weekStartDay: 1, monthStartDay: 25 };
+    // 23:30 on 24 October in Auckland still belongs to the month that began on 25 September, before spring-forward
+    expect(iso(periodBounds(new Date("2026-10-24T10:30:00Z"), "month", AUCKLAND, cycles))).toEqual({
+      start: "2026-09-24T12:00:00.000Z",
+      end: "2026-10-24T11:00:00.000Z",
+    });
+    expect(iso(periodBounds(new Date("2026-10-24T11:30:00Z"), "month", AUCKLAND, cycles))).toEqual({
+      start: "2026-10-24T11:00:00.000Z",
+      end: "2026-11-24T11:00:00.000Z",
+    });
+    expect(iso(periodBounds(new Date("2026-10-25T12:00:00Z"), "month", LOS_ANGELES, cycles))).toEqual({
+      start: "2026-10-25T07:00:00.000Z",
+      end: "2026-11-25T08:00:00.000Z",
+    });
+  });
+});
+
+describe("periodsBetween", () => {
+  it("lists every period touched, including empty ones", () => {
+    const months = periodsBetween(new Date("2026-07-15T00:00:00Z"), new Date("2026-10-01T02:00:00Z"), "month", LOS_ANGELES);
+    expect(months.map(dayKey)).toEqual(["2026-07-01", "2026-08-01", "2026-09-01"]);
+  });
+
+  it("stops at the limit", () => {
+    expect(periodsBetween(new Date("2026-01-01T00:00:00Z"), new Date("2026-12-31T00:00:00Z"), "day", "UTC", DEFAULT_CYCLES, 3).map(dayKey))
+      .toEqual(["2026-01-01", "2026-01-02", "2026-01-03"]);
+  });
+});
@@ -0,0 +1,201 @@
+// Calendar arithmetic in a user's time zone. Periods are worked out on local calendar days and only
+// turned into UTC instants at their edges, so a daylight saving change never moves a boundary.
+
+export type Granularity = "day" | "week" | "month" | "quarter" | "year";
+
+export const GRANULARITIES: Granularity[] = ["day", "week", "month", "quarter", "year"];
+
+// Where weeks and months begin: weeks on a weekday (0 = Sunday), months on a day of the month, so a
+// month starting on the 25th runs from the 25th to the 24th of the next
+export interface PeriodCycles {
+  weekStartDay: number;
+  monthStartDay: number;
+}
+
+// Months can start no later than the 28th, a day every month has
+export const MAX_MONTH_START_DAY = 28;
+
+export const DEFAULT_CYCLES: PeriodCycles = { weekStartDay: 1, monthStartDay: 1 };
+
+// A user's calendar: their time zone and where their periods begin
+export interface UserCalendar extends PeriodCycles {
+  timeZone: string;
+}
+
+// A calendar day; month is 1-12
+export interface LocalDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock reading of a moment in a time zone, as if that reading were UTC
+function wallClock(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Offset of a time zone from UTC at a moment, in milliseconds
+const offsetAt = (date: Date, timeZone: string) => wallClock(date, timeZone) - Math.floor(date.getTime() / 1000) * 1000;
+
+export function isTimeZone(value: string): boolean {
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A stored time zone if it is one Intl knows, otherwise UTC
+export const resolveTimeZone = (value: string | null | undefined) => (value && isTimeZone(value) ? value : "UTC");
+
+export function localDay(date: Date, timeZone: string): LocalDay {
+  const wall = new Date(wallClock(date, timeZone));
+  return { year: wall.getUTCFullYear(), month: wall.getUTCMonth() + 1, day: wall.getUTCDate() };
+}
+
+// Moment a local day begins. The offset is checked again at the result, so days that follow a DST change
+// start at their own offset; a midnight skipped by the change becomes the first moment that exists.
+export function startOfLocalDay(day: LocalDay, timeZone: string): Date {
+  const midnight = Date.UTC(day.year, day.month - 1, day.day);
+  const guess = midnight - offsetAt(new Date(midnight), timeZone);
+  const start = midnight - offsetAt(new Date(guess), timeZone);
+  return new Date(localDay(new Date(start), timeZone).day === day.day ? start : guess);
+}
+
+// Out-of-range parts roll over, so the 32nd of January is the 1st of February
+export function normalizeDay(year: number, month: number, day: number): LocalDay {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+export const addDays = (day: LocalDay, days: number) => normalizeDay(day.year, day.month, day.day + days);
+
+// Same day of the month `months` later, clamped to the end of shorter months (Jan 31 -> Feb 28)
+export function addMonths(day: LocalDay, months: number): LocalDay {
+  const target = normalizeDay(day.year, day.month + months, 1);
+  const lastDay = new Date(Date.UTC(target.year, target.month, 0)).getUTCDate();
+  return { ...target, day: Math.min(day.day, lastDay) };
+}
+
+// Whole calendar days from one day to another
+export const daysBetween = (from: LocalDay, to: LocalDay) =>
+  Math.round((Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / (24 * 60 * 60 * 1000));
+
+// 0 = Sunday
+export const weekday = (day: LocalDay) => new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+
+export const dayKey = (day: LocalDay) =>
+  `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+
+export function parseDayKey(key: string): LocalDay {
+  const [year, month, day] = key.split("-").map(Number);
+  return { year, month, day };
+}
+
+export const compareDays = (a: LocalDay, b: LocalDay) => dayKey(a).localeCompare(dayKey(b));
+
+export const isMonthStartDay = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_MONTH_START_DAY;
+
+export const isWeekStartDay = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+// Stored preferences, with defaults for anything missing or out of range
+export const calendarOf = (user: { timezone?: string | null; monthStartDay?: number | null; weekStartDay?: number | null } | undefined): UserCalendar => ({
+  timeZone: resolveTimeZone(user?.timezone),
+  monthStartDay: isMonthStartDay(user?.monthStartDay) ? user!.monthStartDay! : DEFAULT_CYCLES.monthStartDay,
+  weekStartDay: isWeekStartDay(user?.weekStartDay) ? user!.weekStartDay! : DEFAULT_CYCLES.weekStartDay,
+});
+
+// First day of the period containing a day. A month is named after the calendar month it starts in;
+// quarters and years are made of those months, so with a start on the 25th the year runs from 25 January.
+export function periodStart(day: LocalDay, granularity: Granularity, cycles: PeriodCycles = DEFAULT_CYCLES): LocalDay {
+  const { monthStartDay } = cycles;
+  const month = day.day >= monthStartDay
+    ? { year: day.year, month: day.month, day: monthStartDay }
+    : normalizeDay(day.year, day.month - 1, monthStartDay);
+
+  switch (granularity) {
+    case "day":
+      return day;
+    case "week":
+      return addDays(day, -((weekday(day) - cycles.weekStartDay + 7) % 7));
+    case "month":
+      return month;
+    case "quarter":
+      return { ...month, month: Math.floor((month.month - 1) / 3) * 3 + 1 };
+    case "year":
+      return { ...month, month: 1 };
+  }
+}
+
+// First day of the period after the one starting on `start`
+export function nextPeriod(start: LocalDay, granularity: Granularity): LocalDay {
+  switch (granularity) {
+    case "day":
+      return addDays(start, 1);
+    case "week":
+      return addDays(start, 7);
+    case "month":
+      return normalizeDay(start.year, start.month + 1, start.day);
+    case "quarter":
+      return normalizeDay(start.year, start.month + 3, start.day);
+    case "year":
+      return normalizeDay(start.year + 1, start.month, start.day);
+  }
+}
+
+// First moment of the period containing a moment and first moment of the next one
+export function periodBounds(
+  date: Date,
+  granularity: Granularity,
+  timeZone: string,
+  cycles: PeriodCycles = DEFAULT_CYCLES,
+): { start: Date; end: Date } {
+  const start = periodStart(localDay(date, timeZone), granularity, cycles);
+  return {
+    start: startOfLocalDay(start, timeZone),
+    end: startOfLocalDay(nextPeriod(start, granularity), timeZone),
+  };
+}
+
+// Starts of the whole periods covering two moments, oldest first; stops after `limit` periods
+export function periodsBetween(
+  from: Date,
+  to: Date,
+  granularity: Granularity,
+  timeZone: string,
+  cycles: PeriodCycles = DEFAULT_CYCLES,
+  limit = Infinity,
+): LocalDay[] {
+  const last = localDay(to, timeZone);
+  const periods: LocalDay[] = [];
+  for (let start = periodStart(localDay(from, timeZone), granularity, cycles); compareDays(start, last) <= 0 && periods.length < limit; start = nextPeriod(start, granularity)) {
+    periods.push(start);
+  }
+  return periods;
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -38,15 +39,34 @@ export const users = pgTable("users", {
   language: varchar("language").default("en"),
   currency: varchar("currency").default("USD"),
   timezone: varchar("timezone").default("UTC"),
+  monthStartDay: integer("month_start_day").default(1), // Day financial months begin on, 1-28 (payday)
+  weekStartDay: integer("week_start_day").default(1), // 0 = Sunday, 1 = Monday
   theme: varchar("theme").default("light"),
   onboardingCompleted: boolean("onboarding_completed").default(false),
+  budgetingMode: varchar("budgeting_mode").default("standard"), // 'standard' or 'zero_based'
+});
+
+// Where money is held: bank accounts, credit cards, cash wallets
+export const accounts = pgTable("accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  type: varchar("type").notNull(), // 'checking', 'savings', 'credit_card', 'cash', 'investment', 'other'
+  currency: varchar("currency", { length: 3 }).default("USD"),
+  openingBalance: decimal("opening_balance", { precision: 14, scale: 3 }).default("0"),
+  isArchived: boolean("is_archived").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  type: varchar("type").notNull(), // 'expense' or 'income'
+  amount: decimal("amount", { precision: 12, scale: 3 }).notNull(), // As entered, in `currency`; three decimals fit every currency's minor units
+  currency: varchar("currency", { length: 3 }), // Currency the amount was entered in; null means the user's currency
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // Rate from `currency` to the user's currency when entered
+  normalizedAmount: decimal("normalized_amount", { precision: 14, scale: 3 }), // Amount in the user's currency, used by analytics
+  type: varchar("type").notNull(), // 'expense', 'income' or 'transfer'
   description: text("description").notNull(),
   category: varchar("category").notNull(),
   date: timestamp("date").notNull(),
@@ -57,6 +77,45 @@ export const expenses = pgTable("expenses", {
   rating: integer("rating"),
   receiptUrl: varchar("receipt_url"),
   tags: text("tags").$type<string[]>(),
+  externalId: varchar("external_id"), // Bank transaction id (OFX FITID) for imported rows
+  accountId: varchar("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  transferId: varchar("transfer_id"), // Shared by the two legs of a transfer
+  transferDirection: varchar("transfer_direction"), // 'out' for the source leg, 'in' for the destination leg
+  recurringTransactionId: varchar("recurring_transaction_id").references(() => recurringTransactions.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One expense per recurring occurrence, so the scheduler can safely re-run
+  uniqueIndex("UQ_expense_recurring_occurrence").on(table.recurringTransactionId, table.date),
+  index("IDX_expense_transfer").on(table.transferId),
+]);
+
+// Allocations of one expense across several categories; when present they replace the parent's category in analytics
+export const expenseSplits = pgTable("expense_splits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  expenseId: varchar("expense_id").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: varchar("category").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 3 }).notNull(),
+  tags: text("tags").array(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_expense_split_expense").on(table.expenseId)]);
+
+export const recurringTransactions = pgTable("recurring_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 12, scale: 3 }).notNull(),
+  type: varchar("type").notNull(), // 'expense' or 'income'
+  description: text("description").notNull(),
+  category: varchar("category").notNull(),
+  cadence: varchar("cadence").notNull(), // 'daily', 'weekly', 'monthly', 'yearly', 'custom'
+  interval: integer("interval").default(1),
+  rrule: text("rrule"), // RFC 5545 RRULE, used when cadence is 'custom'
+  startDate: timestamp("start_date").notNull(),
+  nextRunDate: timestamp("next_run_date").notNull(),
+  endDate: timestamp("end_date"),
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -66,21 +125,61 @@ export const budgets = pgTable("budgets", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name").notNull(),
   category: varchar("category"),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 3 }).notNull(),
   period: varchar("period").notNull(), // 'monthly', 'weekly', 'yearly'
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
+  followsCalendar: boolean("follows_calendar").default(false), // Weekly and monthly periods follow the user's week and month start
+  rolloverMode: varchar("rollover_mode").default("none"), // 'none', 'surplus' or 'surplus_and_deficit'
+  rolloverCap: decimal("rollover_cap", { precision: 12, scale: 3 }), // Largest amount carried either way; null means no cap
+  alertThresholds: integer("alert_thresholds").array().default([50, 80, 100]), // Percent of the budget that triggers a notification
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Closed budget periods with the figures they closed with, so history stays the same after the budget is edited
+export const budgetLedger = pgTable("budget_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: varchar("budget_id").notNull().references(() => budgets.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 3 }).notNull(), // Budget amount when the period closed
+  carriedIn: decimal("carried_in", { precision: 12, scale: 3 }).notNull(),
+  spent: decimal("spent", { precision: 12, scale: 3 }).notNull(),
+  carriedOut: decimal("carried_out", { precision: 12, scale: 3 }).notNull(), // Carried into the next period
+  rolloverMode: varchar("rollover_mode").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_budget_ledger_period").on(table.budgetId, table.periodStart)]);
+
+// Zero-based budgeting: income assigned to a category for a calendar month
+export const budgetAssignments = pgTable("budget_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  month: varchar("month", { length: 7 }).notNull(), // 'YYYY-MM'
+  category: varchar("category").notNull(),
+  amount: decimal("amount", { precision: 14, scale: 3 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_budget_assignments_category").on(table.userId, table.month, table.category)]);
+
+// Thresholds a budget has already alerted on, one row per period and threshold
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: varchar("budget_id").notNull().references(() => budgets.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  periodStart: timestamp("period_start").notNull(),
+  threshold: integer("threshold").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_budget_alerts_threshold").on(table.budgetId, table.periodStart, table.threshold)]);
+
 export const goals = pgTable("goals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name").notNull(),
-  targetAmount: decimal("target_amount", { precision: 10, scale: 2 }).notNull(),
-  currentAmount: decimal("current_amount", { precision: 10, scale: 2 }).default("0"),
+  targetAmount: decimal("target_amount", { precision: 12, scale: 3 }).notNull(),
+  currentAmount: decimal("current_amount", { precision: 12, scale: 3 }).default("0"),
   category: varchar("category"),
   deadline: timestamp("deadline"),
   isCompleted: boolean("is_completed").default(false),
@@ -88,6 +187,44 @@ export const goals = pgTable("goals", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Money put into a goal (negative when taken out); a goal's currentAmount is the sum of its contributions
+export const goalContributions = pgTable("goal_contributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goalId: varchar("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 14, scale: 3 }).notNull(),
+  date: timestamp("date").notNull().defaultNow(),
+  note: varchar("note"),
+  expenseId: varchar("expense_id").references(() => expenses.id, { onDelete: "set null" }),
+  transferId: varchar("transfer_id"), // Transfer that moved the money, when there was one
+  isOpeningBalance: boolean("is_opening_balance").default(false), // Saved before the goal was tracked, not part of the saving rate
+  ruleId: varchar("rule_id").references(() => goalFundingRules.id, { onDelete: "set null" }), // Funding rule that posted it automatically
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_goal_contribution_goal").on(table.goalId),
+  // A rule funds each transaction at most once
+  uniqueIndex("UQ_goal_contribution_rule_expense").on(table.ruleId, table.expenseId),
+]);
+
+// Automatic saving towards a goal: expenses rounded up to the next whole unit, a share of every income
+// transaction, or a fixed amount on a schedule
+export const goalFundingRules = pgTable("goal_funding_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  goalId: varchar("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  type: varchar("type").notNull(), // 'round_up', 'income_percent' or 'scheduled'
+  percentage: decimal("percentage", { precision: 5, scale: 2 }), // Share of each income transaction, for 'income_percent'
+  amount: decimal("amount", { precision: 14, scale: 3 }), // Contributed on every run, for 'scheduled'
+  frequency: varchar("frequency"), // 'weekly' or 'monthly', for 'scheduled'
+  startDate: timestamp("start_date"), // First scheduled contribution; later ones fall on the same weekday or day of month
+  nextRunDate: timestamp("next_run_date"),
+  category: varchar("category"), // Only transactions in this category; null matches every category
+  accountId: varchar("account_id").references(() => accounts.id, { onDelete: "cascade" }), // Only transactions on this account
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -108,6 +245,48 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Expense pairs the user has confirmed are not duplicates
+export const duplicateDismissals = pgTable("duplicate_dismissals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expenseId: varchar("expense_id").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  duplicateId: varchar("duplicate_id").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Saved CSV column mappings, one per bank or statement source
+export const importMappings = pgTable("import_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  columns: jsonb("columns").$type<CsvColumnMapping>().notNull(),
+  delimiter: varchar("delimiter").default(","),
+  dateFormat: varchar("date_format").default("YYYY-MM-DD"), // 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY'
+  decimalSeparator: varchar("decimal_separator").default("."),
+  hasHeader: boolean("has_header").default(true),
+  defaultCategory: varchar("default_category").default("other"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Daily exchange-rate snapshots against USD, so past amounts convert at the rate of their own day
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // Units of `currency` per USD
+  date: timestamp("date").notNull(), // UTC midnight of the day the rate applies to
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_exchange_rate_day").on(table.currency, table.date)]);
+
+// Maps expense fields to CSV column headers
+export const csvColumnMappingSchema = z.object({
+  amount: z.string().min(1),
+  date: z.string().min(1),
+  description: z.string().min(1),
+  type: z.string().optional(),
+  category: z.string().optional(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -115,29 +294,118 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertExpenseSchema = createInsertSchema(expenses).omit({
+export const insertAccountSchema = createInsertSchema(accounts).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Tags are typed by hand: drizzle-zod cannot infer the element type of a $type<string[]>() column
+export const insertExpenseSchema = createInsertSchema(expenses, {
+  tags: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertExpenseSplitSchema = createInsertSchema(expenseSplits).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Split allocations as sent by clients, before they are attached to an expense
+export const expenseSplitInputSchema = insertExpenseSplitSchema.omit({
+  expenseId: true,
+  userId: true,
+});
+
+// A transfer is entered as one unit and stored as two linked 'transfer' legs
+export const insertTransferSchema = z.object({
+  fromAccountId: z.string().min(1),
+  toAccountId: z.string().min(1),
+  // Kept as an exact decimal string; its decimals are checked against the accounts' currency
+  amount: z.union([z.string(), z.number()])
+    .transform(value => String(value).trim())
+    .refine(value => /^\d+(\.\d+)?$/.test(value) && /[1-9]/.test(value), "Amount must be a positive number"),
+  date: z.coerce.date(),
+  description: z.string().min(1),
+}).refine(transfer => transfer.fromAccountId !== transfer.toAccountId, {
+  message: "A transfer needs two different accounts",
+  path: ["toAccountId"],
+});
+
+export const insertRecurringTransactionSchema = createInsertSchema(recurringTransactions).omit({
+  id: true,
+  nextRunDate: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertBudgetSchema = createInsertSchema(budgets).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertBudgetLedgerEntrySchema = createInsertSchema(budgetLedger).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBudgetAssignmentSchema = createInsertSchema(budgetAssignments)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM"),
+  });
+
+export const insertBudgetAlertSchema = createInsertSchema(budgetAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertGoalSchema = createInsertSchema(goals).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertGoalContributionSchema = createInsertSchema(goalContributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGoalFundingRuleSchema = createInsertSchema(goalFundingRules).omit({
+  id: true,
+  nextRunDate: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertImportMappingSchema = createInsertSchema(importMappings)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    columns: csvColumnMappingSchema,
+  });
+
+export const insertDuplicateDismissalSchema = createInsertSchema(duplicateDismissals).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -146,13 +414,37 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Expense = typeof expenses.$inferSelect;
+export type InsertExpenseSplit = z.infer<typeof insertExpenseSplitSchema>;
+export type ExpenseSplitInput = z.infer<typeof expenseSplitInputSchema>;
+export type ExpenseSplit = typeof expenseSplits.$inferSelect;
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+export type InsertRecurringTransaction = z.infer<typeof insertRecurringTransactionSchema>;
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
 export type Budget = typeof budgets.$inferSelect;
+export type InsertBudgetLedgerEntry = z.infer<typeof insertBudgetLedgerEntrySchema>;
+export type BudgetLedgerEntry = typeof budgetLedger.$inferSelect;
+export type InsertBudgetAssignment = z.infer<typeof insertBudgetAssignmentSchema>;
+export type BudgetAssignment = typeof budgetAssignments.$inferSelect;
+export type InsertBudgetAlert = z.infer<typeof insertBudgetAlertSchema>;
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
 export type Goal = typeof goals.$inferSelect;
+export type InsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+export type GoalContribution = typeof goalContributions.$inferSelect;
+export type InsertGoalFundingRule = z.infer<typeof insertGoalFundingRuleSchema>;
+export type GoalFundingRule = typeof goalFundingRules.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
-export type Notification = typeof notifications.$inferSelect;
\ No newline at end of file
+export type Notification = typeof notifications.$inferSelect;
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertDuplicateDismissal = z.infer<typeof insertDuplicateDismissalSchema>;
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;